@@ -1,12 +1,13 @@
 // App.tsx
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import CoachingModal from './components/CoachingModal';
 import MobileNavBar from './components/MobileNavBar';
 import TeacherDashboard from './components/TeacherDashboard';
 
-import { generateCognitiveCapsule } from './services/geminiService';
+import { generateCognitiveCapsule, getGenerationProfile } from './services/aiService';
 import { isCapsuleDue, analyzeGlobalPerformance, calculateMasteryScore } from './services/srsService';
 import { updateTaskStatus } from './services/planningService';
+import { getProfileCalendarSettings, setCalendarSettings } from './services/calendarService';
 import type { UserProfile, CoachingMode } from './types';
 
 const App: React.FC = () => {
@@ -18,6 +19,11 @@ const App: React.FC = () => {
   });
   const [mode, setMode] = useState<CoachingMode>('standard'); // ou 'intense', selon ton type
 
+  // Le fuseau et l'heure de bascule du profil chargé (autre appareil, cloud) priment sur les réglages de l'appareil
+  useEffect(() => {
+    setCalendarSettings(getProfileCalendarSettings(userProfile));
+  }, [userProfile.timeZone, userProfile.dayRolloverHour]);
+
   const openCoachingModal = () => setShowCoachingModal(true);
   const closeCoachingModal = () => setShowCoachingModal(false);
 
@@ -26,7 +32,9 @@ const App: React.FC = () => {
       const capsule = await generateCognitiveCapsule(
         `Créer une capsule cognitive pour ${userProfile.name} en mode ${mode}`,
         'text',
-        'fr'
+        'fr',
+        undefined,
+        { profile: getGenerationProfile(userProfile) }
       );
       console.log("Capsule générée:", capsule);
     } catch (err) {
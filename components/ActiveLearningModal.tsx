@@ -1,11 +1,15 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import type { CognitiveCapsule, KeyConcept, QuizQuestion } from '../types';
+import type { CognitiveCapsule, KeyConcept, OpenAnswerGrade, QuizQuestion } from '../types';
 import { XIcon, LightbulbIcon, ListChecksIcon, PlayIcon, RefreshCwIcon } from '../constants';
+import { getQuizQuestions, ReviewItemKind } from '../services/srsService';
+import { isOpenQuestion } from '../services/openQuestionService';
+import OpenQuestion from './OpenQuestion';
 
 interface ActiveLearningModalProps {
     capsule: CognitiveCapsule;
     onClose: () => void;
+    onReviewItem?: (capsuleId: string, kind: ReviewItemKind, itemId: string, score: number) => void;
 }
 
 interface LearningStep {
@@ -13,7 +17,7 @@ interface LearningStep {
     data: KeyConcept | QuizQuestion;
 }
 
-const ActiveLearningModal: React.FC<ActiveLearningModalProps> = ({ capsule, onClose }) => {
+const ActiveLearningModal: React.FC<ActiveLearningModalProps> = ({ capsule, onClose, onReviewItem }) => {
     const [sessionState, setSessionState] = useState<'intro' | 'learning' | 'complete'>('intro');
     const [currentIndex, setCurrentIndex] = useState(0);
     const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
@@ -24,7 +28,7 @@ const ActiveLearningModal: React.FC<ActiveLearningModalProps> = ({ capsule, onCl
             type: 'concept',
             data: kc,
         }));
-        const quizSteps: LearningStep[] = capsule.quiz.map(q => ({
+        const quizSteps: LearningStep[] = getQuizQuestions(capsule).map(q => ({
             type: 'quiz',
             data: q,
         }));
@@ -62,11 +66,23 @@ const ActiveLearningModal: React.FC<ActiveLearningModalProps> = ({ capsule, onCl
         setSessionState('learning');
     };
 
+    // Chaque réponse est journalisée comme dans le quiz de la capsule
+    const recordAnswer = (score: number) => {
+        const question = steps[currentIndex].data as QuizQuestion;
+        if (question.id) onReviewItem?.(capsule.id, 'quiz', question.id, score);
+    };
+
     const handleCheckAnswer = () => {
         if (selectedAnswer) {
             setShowResult(true);
+            recordAnswer(selectedAnswer === (steps[currentIndex].data as QuizQuestion).correctAnswer ? 100 : 0);
         }
     };
+
+    const handleOpenGraded = (grade: OpenAnswerGrade) => {
+        setShowResult(true);
+        recordAnswer(grade.score);
+    };
     
     const getOptionClass = (option: string, correctAnswer: string) => {
         if (!showResult) {
@@ -144,6 +160,7 @@ const ActiveLearningModal: React.FC<ActiveLearningModalProps> = ({ capsule, onCl
             const isQuiz = currentStep.type === 'quiz';
             const quizData = isQuiz ? (currentStep.data as QuizQuestion) : null;
             const conceptData = !isQuiz ? (currentStep.data as KeyConcept) : null;
+            const isOpen = !!quizData && isOpenQuestion(quizData);
             
             const canProceed = isQuiz ? showResult : true;
 
@@ -157,22 +174,26 @@ const ActiveLearningModal: React.FC<ActiveLearningModalProps> = ({ capsule, onCl
                                     <div className="w-8 h-8 rounded-full bg-sky-100 dark:bg-sky-900/50 flex items-center justify-center flex-shrink-0">
                                         <ListChecksIcon className="w-5 h-5 text-sky-600 dark:text-sky-400"/>
                                     </div>
-                                    <h3 className="text-lg font-bold text-slate-800 dark:text-white">Question de quiz</h3>
+                                    <h3 className="text-lg font-bold text-slate-800 dark:text-white">{isOpen ? 'Question ouverte' : 'Question de quiz'}</h3>
                                 </div>
                                 <p className="text-slate-700 dark:text-zinc-200 mb-6 font-medium text-xl leading-relaxed">{quizData?.question}</p>
-                                <div className="space-y-3 mb-6">
-                                    {quizData?.options.map((option) => (
-                                        <button 
-                                            key={option} 
-                                            onClick={() => !showResult && setSelectedAnswer(option)}
-                                            disabled={showResult}
-                                            className={`w-full text-left p-4 rounded-xl border transition-all duration-200 ${getOptionClass(option, quizData.correctAnswer)}`}
-                                        >
-                                            {option}
-                                        </button>
-                                    ))}
-                                </div>
-                                {showResult && (
+                                {isOpen && quizData ? (
+                                    <OpenQuestion key={currentIndex} question={quizData} onGraded={handleOpenGraded} />
+                                ) : (
+                                    <div className="space-y-3 mb-6">
+                                        {quizData?.options.map((option) => (
+                                            <button 
+                                                key={option} 
+                                                onClick={() => !showResult && setSelectedAnswer(option)}
+                                                disabled={showResult}
+                                                className={`w-full text-left p-4 rounded-xl border transition-all duration-200 ${getOptionClass(option, quizData.correctAnswer)}`}
+                                            >
+                                                {option}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                {showResult && !isOpen && (
                                     <div className={`p-4 rounded-xl mb-4 animate-fade-in-fast ${selectedAnswer === quizData?.correctAnswer ? 'bg-emerald-50 dark:bg-emerald-900/50 border border-emerald-100 dark:border-emerald-800' : 'bg-red-50 dark:bg-red-900/50 border border-red-100 dark:border-red-800'}`}>
                                         <h4 className={`font-bold ${selectedAnswer === quizData?.correctAnswer ? 'text-emerald-700 dark:text-emerald-300' : 'text-red-700 dark:text-red-300'}`}>
                                             {selectedAnswer === quizData?.correctAnswer ? 'Bonne réponse !' : 'Réponse incorrecte'}
@@ -199,7 +220,7 @@ const ActiveLearningModal: React.FC<ActiveLearningModalProps> = ({ capsule, onCl
                     </div>
                     
                     <div className="mt-8 flex-shrink-0">
-                        {isQuiz && !showResult && (
+                        {isQuiz && !isOpen && !showResult && (
                             <button
                                 onClick={handleCheckAnswer}
                                 disabled={!selectedAnswer}
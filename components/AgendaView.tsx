@@ -3,6 +3,7 @@ import React from 'react';
 import type { StudyPlan, DailySession, StudyTask } from '../types';
 import { ClockIcon, CheckCircleIcon, BookOpenIcon, Trash2Icon } from '../constants';
 import { useLanguage } from '../contexts/LanguageContext';
+import { dayKeyToDate, getTodayKey } from '../services/calendarService';
 
 interface AgendaViewProps {
     plan: StudyPlan;
@@ -13,7 +14,7 @@ interface AgendaViewProps {
 
 const AgendaView: React.FC<AgendaViewProps> = ({ plan, onUpdateTask, onDeletePlan, onOpenCapsule }) => {
     const { language, t } = useLanguage();
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
     const dateLocale = language === 'fr' ? 'fr-FR' : 'en-US';
 
     const getStatusColor = (session: DailySession) => {
@@ -51,7 +52,7 @@ const AgendaView: React.FC<AgendaViewProps> = ({ plan, onUpdateTask, onDeletePla
                         <div key={session.date} className={`pl-4 border-l-4 ${getStatusColor(session)} py-1`}>
                             <div className="flex items-center justify-between mb-2">
                                 <h3 className={`font-bold ${isToday ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-700 dark:text-zinc-300'}`}>
-                                    {isToday ? t('today') : new Date(session.date).toLocaleDateString(dateLocale, { weekday: 'long', day: 'numeric', month: 'short' })}
+                                    {isToday ? t('today') : dayKeyToDate(session.date).toLocaleDateString(dateLocale, { weekday: 'long', day: 'numeric', month: 'short' })}
                                 </h3>
                                 <span className="text-xs font-medium px-2 py-1 bg-slate-100 dark:bg-zinc-800 rounded-full text-slate-500">
                                     {session.totalMinutes} min
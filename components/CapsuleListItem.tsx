@@ -2,7 +2,7 @@
 import React, { useRef, useEffect, useMemo } from 'react';
 import type { CognitiveCapsule } from '../types';
 import { ClockIcon, Trash2Icon, ChevronDownIcon, BrainIcon } from '../constants';
-import { getReviewSchedule, calculateRetentionProbability } from '../services/srsService';
+import { getReviewSchedule, calculateRetentionProbability, getCapsuleAvailability, SchedulerParameters } from '../services/srsService';
 import SpacedRepetitionCurve from './SpacedRepetitionCurve';
 
 interface CapsuleListItemProps {
@@ -16,9 +16,10 @@ interface CapsuleListItemProps {
     onRequestDelete: (capsule: CognitiveCapsule) => void;
     newlyAddedCapsuleId: string | null;
     onClearNewCapsule: () => void;
+    schedulerParameters?: SchedulerParameters;
 }
 
-const CapsuleListItem: React.FC<CapsuleListItemProps> = ({ capsule, isActive, isExpanded, isSelected, isDue, onToggleExpand, onToggleSelection, onRequestDelete, newlyAddedCapsuleId, onClearNewCapsule }) => {
+const CapsuleListItem: React.FC<CapsuleListItemProps> = ({ capsule, isActive, isExpanded, isSelected, isDue, onToggleExpand, onToggleSelection, onRequestDelete, newlyAddedCapsuleId, onClearNewCapsule, schedulerParameters }) => {
     const itemRef = useRef<HTMLDivElement>(null);
     const isNew = newlyAddedCapsuleId === capsule.id;
 
@@ -40,11 +41,15 @@ const CapsuleListItem: React.FC<CapsuleListItemProps> = ({ capsule, isActive, is
         onRequestDelete(capsule);
     };
 
-    const reviewSchedule = useMemo(() => getReviewSchedule(capsule), [capsule]);
-    const retention = useMemo(() => calculateRetentionProbability(capsule), [capsule]);
+    const reviewSchedule = useMemo(() => getReviewSchedule(capsule, schedulerParameters), [capsule, schedulerParameters]);
+    const retention = useMemo(() => calculateRetentionProbability(capsule, schedulerParameters), [capsule, schedulerParameters]);
 
     // Calcul du texte de délai
     const nextReviewText = useMemo(() => {
+        const availability = getCapsuleAvailability(capsule);
+        if (availability === 'suspended') return "Suspendue";
+        if (availability === 'buried') return "Reportée à demain";
+        if (availability === 'snoozed' && capsule.snoozedUntil) return `En pause jusqu'au ${new Date(capsule.snoozedUntil).toLocaleDateString()}`;
         if (isDue) return "À réviser !";
         const nextStage = reviewSchedule.find(s => s.status === 'upcoming');
         if (!nextStage) return "Maîtrisé";
@@ -54,7 +59,7 @@ const CapsuleListItem: React.FC<CapsuleListItemProps> = ({ capsule, isActive, is
         
         if (diffDays <= 0) return "Demain";
         return `Dans ${diffDays}j`;
-    }, [isDue, reviewSchedule]);
+    }, [capsule, isDue, reviewSchedule]);
 
     // Dynamic font size for the title, without truncation
     const titleClassName = `font-semibold pr-2 ${isActive ? 'text-emerald-800 dark:text-emerald-200' : 'text-slate-800 dark:text-zinc-200'} ${capsule.title.length > 45 ? 'text-sm' : ''}`;
@@ -1,19 +1,52 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { CognitiveCapsule, QuizQuestion, Group, Comment, CollaborativeTask } from '../types';
+import type { CognitiveCapsule, QuizQuestion, Group, Comment, CollaborativeTask, KeyConcept, ValidationIssueCode, FlashcardContent, VisualizationData, UserLevel, ChatMessage, CoachingMode, SourceSpan } from '../types';
+import type { Language, TranslationKey } from '../i18n/translations';
 import Quiz from './Quiz';
-import { LightbulbIcon, ListChecksIcon, MessageSquareIcon, DownloadIcon, TagIcon, Volume2Icon, StopCircleIcon, RefreshCwIcon, ImageIcon, SparklesIcon, ChevronLeftIcon, PlayIcon, Share2Icon, FileTextIcon, UserIcon, SendIcon, MonitorIcon, CrownIcon, CheckSquareIcon, PresentationIcon, BookIcon, PrinterIcon } from '../constants';
-import { isCapsuleDue } from '../services/srsService';
-import { generateMemoryAidDrawing, expandKeyConcept, regenerateQuiz } from '../services/geminiService';
+import { LightbulbIcon, ListChecksIcon, MessageSquareIcon, DownloadIcon, TagIcon, Volume2Icon, StopCircleIcon, RefreshCwIcon, ImageIcon, SparklesIcon, ChevronLeftIcon, PlayIcon, Share2Icon, FileTextIcon, UserIcon, SendIcon, MonitorIcon, PauseCircleIcon, CrownIcon, CheckSquareIcon, PresentationIcon, BookIcon, PrinterIcon, GlobeIcon, LayersIcon } from '../constants';
+import { isCapsuleDue, getQuizQuestions, assignItemIds, ReviewItemKind, isLeech, splitCapsule, getCapsuleAvailability, CapsuleAvailabilityFields, suspendCapsule, buryCapsule, snoozeCapsule, restoreCapsule } from '../services/srsService';
+import { generateMemoryAidDrawing, expandKeyConcept, regenerateQuiz, synthesizeSpeech, generateClozeCards, generateVisualization, regenerateCapsuleAtLevel, translateCapsule, GenerationOptions } from '../services/aiService';
+import { createClozeCards, insertCloze } from '../services/clozeService';
+import { findTranslation, isBilingualCapsule } from '../services/translationService';
+import { isTimelineCandidate, VisualizationType } from '../services/visualizationService';
+import VisualizationViewer from './VisualizationViewer';
+import TutorChat from './TutorChat';
+import SourcePanel from './SourcePanel';
+import { GeneratedCapsule, isAbortError } from '../services/aiProvider';
+import type { AIRequestPriority } from '../services/aiRequestQueue';
+import { useAIQueueStatus } from '../hooks/useAIQueueStatus';
 import { downloadFlashcardsPdf, downloadCapsulePdf, generateFilename, downloadQuizPdf } from '../services/pdfService';
 import { exportToPPTX, exportToEPUB } from '../services/exportService';
 import { ToastType } from '../hooks/useToast';
 import { addCommentToCapsule, saveCapsuleToCloud, assignTaskToMember, updateTaskStatus } from '../services/cloudService';
 import FocusMode from './FocusMode';
 import { useLanguage } from '../contexts/LanguageContext';
+import { getDayStart } from '../services/calendarService';
 
 
+const VALIDATION_ISSUE_KEYS: Record<ValidationIssueCode, TranslationKey> = {
+  missing_field: 'validation_missing_field',
+  too_few_options: 'validation_too_few_options',
+  answer_not_in_options: 'validation_answer_not_in_options',
+  empty_flashcard: 'validation_empty_flashcard',
+  invalid_cloze: 'validation_invalid_cloze',
+  wrong_language: 'validation_wrong_language',
+  empty_list: 'validation_empty_list',
+};
+
+const VALIDATION_FIELD_KEYS: Record<string, TranslationKey | undefined> = {
+  title: 'validation_field_title',
+  summary: 'validation_field_summary',
+  keyConcepts: 'validation_field_keyConcepts',
+  quiz: 'validation_field_quiz',
+  flashcards: 'validation_field_flashcards',
+};
+
+const LANGUAGE_NAME_KEYS: Record<Language, TranslationKey> = {
+  fr: 'language_fr',
+  en: 'language_en',
+};
+
 // Helper functions for audio decoding (truncated for brevity, keep existing implementation)
 function decode(base64: string) {
   const binaryString = atob(base64);
@@ -49,14 +82,24 @@ interface CapsuleViewProps {
     capsule: CognitiveCapsule;
     allCapsules: CognitiveCapsule[];
     selectedCapsuleIds: string[];
-    onStartCoaching: () => void;
+    onStartCoaching: (mode?: CoachingMode) => void; // Sans mode : coaching standard
     onStartFlashcards: () => void;
+    onStartBilingualFlashcards?: (translation: CognitiveCapsule) => void; // Capsules « langues » : recto dans la langue de la capsule, verso dans sa traduction
     onStartActiveLearning: () => void;
     onMarkAsReviewed: (capsuleId: string, score?: number, type?: 'quiz' | 'flashcard' | 'manual') => void;
+    onReviewItem?: (capsuleId: string, kind: ReviewItemKind, itemId: string, score: number) => void;
     onSetCategory: (capsuleId: string, category: string) => void;
     allCategories: string[];
     onSetMemoryAid: (capsuleId: string, imageData: string | null, description: string | null) => void;
     onUpdateQuiz: (capsuleId: string, newQuiz: QuizQuestion[]) => void;
+    onUpdateKeyConcepts?: (capsuleId: string, keyConcepts: KeyConcept[]) => void;
+    onUpdateFlashcards?: (capsuleId: string, flashcards: FlashcardContent[]) => void;
+    onUpdateVisualizations?: (capsuleId: string, visualizations: VisualizationData[]) => void;
+    onRegenerateCapsule?: (capsuleId: string, content: GeneratedCapsule) => void; // Contenu régénéré pour un autre niveau
+    onUpdateTutorChat?: (capsuleId: string, messages: ChatMessage[]) => void;
+    onTranslateCapsule?: (translation: CognitiveCapsule) => void; // Copie liée, à ajouter ou à remplacer (même id)
+    onSplitCapsule?: (capsuleId: string, parts: [CognitiveCapsule, CognitiveCapsule]) => void;
+    onSetAvailability?: (capsuleId: string, availability: CapsuleAvailabilityFields) => void;
     onBackToList: () => void;
     addToast: (message: string, type: ToastType) => void;
     userGroups: Group[];
@@ -64,11 +107,24 @@ interface CapsuleViewProps {
     currentUserId?: string;
     currentUserName?: string;
     isPremium?: boolean;
+    // Capsule en cours de réception (streaming) : seuls les champs déjà reçus sont affichés
+    isGenerating?: boolean;
+    onCancelGeneration?: () => void;
 }
 
-const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToast, onBackToList, onSetMemoryAid, allCategories, onSetCategory, onMarkAsReviewed, onStartActiveLearning, onStartFlashcards, onStartCoaching, userGroups, onShareCapsule, currentUserId, currentUserName, isPremium }) => {
+const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, allCapsules, onUpdateQuiz, onUpdateKeyConcepts, onUpdateFlashcards, onUpdateVisualizations, onRegenerateCapsule, onUpdateTutorChat, onTranslateCapsule, onSplitCapsule, onSetAvailability, addToast, onBackToList, onSetMemoryAid, allCategories, onSetCategory, onMarkAsReviewed, onReviewItem, onStartActiveLearning, onStartFlashcards, onStartBilingualFlashcards, onStartCoaching, userGroups, onShareCapsule, currentUserId, currentUserName, isPremium, isGenerating, onCancelGeneration }) => {
     const { language, t } = useLanguage();
     const isDue = isCapsuleDue(capsule);
+    const availability = getCapsuleAvailability(capsule);
+    const isLeechCapsule = isLeech(capsule) && availability === 'active';
+
+    // 'quiz[2].correctAnswer' -> "Question 3"
+    const formatIssuePath = (path: string) => {
+        const match = path.match(/^(\w+)(?:\[(\d+)\])?/);
+        const key = match && VALIDATION_FIELD_KEYS[match[1]];
+        if (!match || !key) return path;
+        return match[2] !== undefined ? `${t(key)} ${Number(match[2]) + 1}` : t(key);
+    };
     const [isEditingCategory, setIsEditingCategory] = useState(false);
     const [categoryInput, setCategoryInput] = useState(capsule.category || '');
     
@@ -87,8 +143,23 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
     const [errorConcepts, setErrorConcepts] = useState<Record<string, string | null>>({});
 
     const [isRegeneratingQuiz, setIsRegeneratingQuiz] = useState(false);
+    const [isSimplifying, setIsSimplifying] = useState(false);
+
+    // Cartes à trous : générées depuis les concepts clés ou écrites à la main
+    const [isGeneratingCloze, setIsGeneratingCloze] = useState(false);
+    const [clozeDraft, setClozeDraft] = useState('');
+    const [clozeExtra, setClozeExtra] = useState('');
+    const clozeInputRef = useRef<HTMLTextAreaElement>(null);
+
+    const [generatingDiagram, setGeneratingDiagram] = useState<VisualizationType | null>(null);
+    const visualizations = capsule.visualizations || [];
+    const [targetLevel, setTargetLevel] = useState<UserLevel>(capsule.generatedFor?.level || 'intermediate');
+    const [isRegeneratingLevel, setIsRegeneratingLevel] = useState(false);
+    const [isTranslating, setIsTranslating] = useState(false);
     
     const [showShareMenu, setShowShareMenu] = useState(false);
+    const [showPauseMenu, setShowPauseMenu] = useState(false);
+    const [snoozeDate, setSnoozeDate] = useState('');
     const [newComment, setNewComment] = useState('');
     
     // Task assignment state
@@ -97,6 +168,8 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
 
     // Focus Mode State
     const [isFocusMode, setIsFocusMode] = useState(false);
+    // Passage du texte d'origine affiché pour un concept ou une question
+    const [sourceTarget, setSourceTarget] = useState<{ label: string; span: SourceSpan } | null>(null);
 
     // Stop audio playback when capsule changes or component unmounts
     useEffect(() => {
@@ -110,6 +183,8 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
         setLoadingConcepts({});
         setErrorConcepts({});
         setShowShareMenu(false);
+        setShowPauseMenu(false);
+        setSnoozeDate('');
         setIsFocusMode(false);
         setNewTaskDesc('');
         
@@ -124,6 +199,16 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
         };
     }, [capsule]);
 
+    // Les appels IA encore en attente ou en cours sont annulés quand on change de capsule ou quitte la vue
+    const aiAbortRef = useRef<AbortController | null>(null);
+    useEffect(() => {
+        const controller = new AbortController();
+        aiAbortRef.current = controller;
+        return () => controller.abort();
+    }, [capsule.id]);
+    const aiOptions = (priority: AIRequestPriority = 'user'): GenerationOptions => ({ priority, signal: aiAbortRef.current?.signal });
+    const aiQueue = useAIQueueStatus();
+
     // Quiz regeneration for due capsules
     useEffect(() => {
         const regenerate = async () => {
@@ -139,13 +224,16 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                 setIsRegeneratingQuiz(true);
                 
                 try {
-                    const newQuiz = await regenerateQuiz(capsule, language);
+                    // Tâche de fond : passe après les demandes de l'élève
+                    const newQuiz = await regenerateQuiz(capsule, language, aiOptions('background'));
                     if (newQuiz && newQuiz.length > 0) {
                         onUpdateQuiz(capsule.id, newQuiz);
                         addToast(t('quiz_updated'), 'success');
                     }
                 } catch (e) {
-                    console.warn("Quiz auto-regeneration failed:", e);
+                    // Vue quittée avant la fin : on retentera à la prochaine ouverture
+                    if (isAbortError(e)) sessionStorage.removeItem(alreadyRegeneratedKey);
+                    else console.warn("Quiz auto-regeneration failed:", e);
                 } finally {
                     setIsRegeneratingQuiz(false);
                 }
@@ -177,13 +265,14 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                 title: capsule.title,
                 summary: capsule.summary,
                 keyConcepts: capsule.keyConcepts,
-            }, language);
+            }, language, aiOptions());
             
-            const fullImageSrc = `data:image/png;base64,${result.imageData}`;
+            const fullImageSrc = `data:${result.mimeType};base64,${result.imageData}`;
             setMemoryAidImage(fullImageSrc);
             setMemoryAidDescription(result.description);
             onSetMemoryAid(capsule.id, fullImageSrc, result.description);
         } catch (err) {
+            if (isAbortError(err)) return;
             setImageError(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.');
         } finally {
             setIsGeneratingImage(false);
@@ -198,23 +287,18 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
     };
     
     // ... keep existing expansion and audio functions ...
-    const handleToggleConcept = async (concept: string, originalExplanation: string) => {
-        if (expandedConcepts[concept]) {
-            const newExpanded = { ...expandedConcepts };
-            delete newExpanded[concept];
-            setExpandedConcepts(newExpanded);
-            return;
-        }
-    
+    // L'explication approfondie vient du cache quand elle a déjà été demandée ; `forceRegenerate` en redemande une nouvelle
+    const loadConceptExplanation = async (concept: string, originalExplanation: string, forceRegenerate = false) => {
         if (loadingConcepts[concept]) return;
     
         setLoadingConcepts(prev => ({ ...prev, [concept]: true }));
         setErrorConcepts(prev => ({ ...prev, [concept]: null }));
     
         try {
-            const explanation = await expandKeyConcept(capsule.title, concept, originalExplanation, language);
+            const explanation = await expandKeyConcept(capsule.title, concept, originalExplanation, language, 'deeper', { ...aiOptions(), forceRegenerate });
             setExpandedConcepts(prev => ({ ...prev, [concept]: explanation }));
         } catch (err) {
+            if (isAbortError(err)) return;
             const errorMessage = err instanceof Error ? err.message : "Une erreur est survenue.";
             setErrorConcepts(prev => ({ ...prev, [concept]: errorMessage }));
         } finally {
@@ -222,6 +306,162 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
         }
     };
 
+    const handleToggleConcept = (concept: string, originalExplanation: string) => {
+        if (expandedConcepts[concept]) {
+            const newExpanded = { ...expandedConcepts };
+            delete newExpanded[concept];
+            setExpandedConcepts(newExpanded);
+            return;
+        }
+        loadConceptExplanation(concept, originalExplanation);
+    };
+
+    // Remédiation des capsules « sangsues » : explications simplifiées pour chaque concept
+    const handleSimplifyConcepts = async () => {
+        setIsSimplifying(true);
+        try {
+            const results = await Promise.allSettled(capsule.keyConcepts.map(kc =>
+                expandKeyConcept(capsule.title, kc.concept, kc.explanation, language, 'simpler', aiOptions())
+            ));
+            if (results.some(result => result.status === 'rejected' && isAbortError(result.reason))) return;
+            // Un concept dont la simplification a échoué garde son explication
+            const explanations = results.map((result, i) => result.status === 'fulfilled' ? result.value : capsule.keyConcepts[i].explanation);
+            const failed = results.filter(result => result.status === 'rejected').length;
+            if (failed < results.length) {
+                if (onUpdateKeyConcepts) {
+                    onUpdateKeyConcepts(capsule.id, capsule.keyConcepts.map((kc, i) => ({ ...kc, explanation: explanations[i] })));
+                } else {
+                    setExpandedConcepts(Object.fromEntries(capsule.keyConcepts.flatMap((kc, i) => results[i].status === 'fulfilled' ? [[kc.concept, explanations[i]]] : [])));
+                }
+            }
+            if (failed > 0) addToast(t('leech_simplify_failed').replace('{count}', failed.toString()), 'error');
+            else addToast(t('leech_simplified'), 'success');
+        } catch (err) {
+            if (isAbortError(err)) return;
+            addToast(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.', 'error');
+        } finally {
+            setIsSimplifying(false);
+        }
+    };
+
+    // Les nouvelles cartes reçoivent tout de suite un identifiant distinct de celui des cartes existantes
+    const withNewFlashcards = (cards: FlashcardContent[]) =>
+        assignItemIds({ ...capsule, flashcards: [...(capsule.flashcards || []), ...cards] }).flashcards || [];
+
+    const addFlashcards = (cards: FlashcardContent[]) => {
+        onUpdateFlashcards?.(capsule.id, withNewFlashcards(cards));
+        addToast(t('cloze_added').replace('{count}', cards.length.toString()), 'success');
+    };
+
+    const handleAddTutorFlashcard = (card: FlashcardContent) => {
+        onUpdateFlashcards?.(capsule.id, withNewFlashcards([card]));
+        addToast(t('tutor_flashcard_added'), 'success');
+    };
+
+    const handleGenerateCloze = async () => {
+        setIsGeneratingCloze(true);
+        try {
+            const cards = await generateClozeCards(capsule, language, aiOptions());
+            if (cards.length === 0) {
+                addToast(t('cloze_generation_empty'), 'error');
+                return;
+            }
+            addFlashcards(cards);
+        } catch (err) {
+            if (isAbortError(err)) return;
+            addToast(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.', 'error');
+        } finally {
+            setIsGeneratingCloze(false);
+        }
+    };
+
+    // Transforme la sélection du champ en trou {{cN::...}}
+    const handleInsertCloze = () => {
+        const input = clozeInputRef.current;
+        if (!input) return;
+        setClozeDraft(insertCloze(clozeDraft, input.selectionStart, input.selectionEnd));
+        input.focus();
+    };
+
+    const handleAddCloze = (e: React.FormEvent) => {
+        e.preventDefault();
+        const cards = createClozeCards(clozeDraft, clozeExtra);
+        if (cards.length === 0) {
+            addToast(t('cloze_no_deletion'), 'error');
+            return;
+        }
+        addFlashcards(cards);
+        setClozeDraft('');
+        setClozeExtra('');
+    };
+
+    const handleGenerateDiagram = async (type: VisualizationType) => {
+        setGeneratingDiagram(type);
+        try {
+            const visualization = await generateVisualization(capsule, type, language, aiOptions());
+            onUpdateVisualizations?.(capsule.id, [...visualizations, visualization]);
+            addToast(t('diagram_added'), 'success');
+        } catch (err) {
+            if (isAbortError(err)) return;
+            addToast(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.', 'error');
+        } finally {
+            setGeneratingDiagram(null);
+        }
+    };
+
+    const handleRegenerateAtLevel = async () => {
+        if (!onRegenerateCapsule) return;
+        setIsRegeneratingLevel(true);
+        try {
+            const content = await regenerateCapsuleAtLevel(capsule, targetLevel, language, aiOptions());
+            onRegenerateCapsule(capsule.id, content);
+            addToast(t('level_regenerated'), 'success');
+        } catch (err) {
+            if (isAbortError(err)) return;
+            addToast(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.', 'error');
+        } finally {
+            setIsRegeneratingLevel(false);
+        }
+    };
+
+    // Langue du contenu (à défaut, celle de l'interface) et langue de sa version liée
+    const capsuleLanguage: Language = capsule.language || language;
+    const otherLanguage: Language = capsuleLanguage === 'fr' ? 'en' : 'fr';
+    const linkedTranslation = findTranslation(allCapsules || [], capsule, otherLanguage);
+
+    const handleTranslate = async () => {
+        if (!onTranslateCapsule) return;
+        setIsTranslating(true);
+        try {
+            onTranslateCapsule(await translateCapsule(capsule, otherLanguage, capsuleLanguage, aiOptions()));
+            addToast(t('capsule_translated'), 'success');
+        } catch (err) {
+            if (isAbortError(err)) return;
+            addToast(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.', 'error');
+        } finally {
+            setIsTranslating(false);
+        }
+    };
+
+    const handleSetAvailability = (fields: CapsuleAvailabilityFields) => {
+        onSetAvailability?.(capsule.id, fields);
+        setShowPauseMenu(false);
+    };
+
+    const handleSnooze = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!snoozeDate) return;
+        const until = getDayStart(snoozeDate);
+        if (isNaN(until) || until <= Date.now()) return;
+        handleSetAvailability(snoozeCapsule(until));
+        setSnoozeDate('');
+    };
+
+    const handleSplitCapsule = () => {
+        if (!onSplitCapsule) return;
+        onSplitCapsule(capsule.id, splitCapsule(capsule));
+    };
+
     const handleDownloadDrawing = () => {
         if (!memoryAidImage) return;
         const link = document.createElement('a');
@@ -233,10 +473,6 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
     };
 
     const handleToggleSpeech = async (id: string, text: string) => {
-        if (!process.env.API_KEY) {
-            addToast("La clé API n'est pas configurée pour la synthèse vocale.", 'error');
-            return;
-        }
         if (!audioContextRef.current) {
             addToast("L'API Audio n'est pas supportée par votre navigateur.", 'error');
             return;
@@ -256,21 +492,10 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
         setIsBuffering(id);
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: text }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-                    },
-                },
-            });
-            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (!base64Audio) throw new Error("Aucune donnée audio reçue.");
-
-            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContextRef.current, 24000, 1);
+            const audio = await synthesizeSpeech(text, language, aiOptions());
+            const audioBuffer = audio.mimeType === 'audio/pcm'
+                ? await decodeAudioData(decode(audio.audioData), audioContextRef.current, audio.sampleRate ?? 24000, 1)
+                : await audioContextRef.current.decodeAudioData(decode(audio.audioData).buffer);
             const source = audioContextRef.current.createBufferSource();
             source.buffer = audioBuffer;
             source.connect(audioContextRef.current.destination);
@@ -283,7 +508,8 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
             audioSourceRef.current = source;
             setSpeakingId(id);
         } catch (error) {
-            console.error("Erreur de synthèse vocale Gemini:", error);
+            if (isAbortError(error)) return;
+            console.error("Erreur de synthèse vocale:", error);
             addToast("Impossible de générer l'audio. Veuillez réessayer.", 'error');
             setSpeakingId(null);
         } finally {
@@ -412,10 +638,86 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                 capsule={capsule} 
                 onExit={() => setIsFocusMode(false)}
                 onMarkAsReviewed={onMarkAsReviewed}
+                onReviewItem={onReviewItem}
             />
         );
     }
 
+    if (isGenerating) {
+        const skeleton = (className: string) => <span className={`block rounded bg-slate-100 dark:bg-zinc-800 animate-pulse ${className}`} />;
+        const quizCount = capsule.quiz?.length || 0;
+        const flashcardCount = capsule.flashcards?.length || 0;
+        return (
+            <div className="bg-white dark:bg-zinc-900 rounded-3xl shadow-lg border border-slate-100 dark:border-zinc-800 overflow-hidden animate-fade-in" aria-busy="true">
+                <div className="p-6 md:p-10">
+                    <div className="flex items-center justify-between gap-4 mb-6 no-export">
+                        <p className="flex items-center gap-2 text-sm font-semibold text-emerald-600 dark:text-emerald-400" aria-live="polite">
+                            <SparklesIcon className="w-4 h-4 animate-spin" />
+                            {t('loading_title')}
+                        </p>
+                        {onCancelGeneration && (
+                            <button
+                                onClick={onCancelGeneration}
+                                className="px-4 py-2 text-sm font-semibold rounded-md border border-slate-200 dark:border-zinc-700 text-slate-700 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-zinc-800 transition-colors"
+                            >
+                                {t('cancel')}
+                            </button>
+                        )}
+                    </div>
+
+                    {capsule.title
+                        ? <h2 className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white mb-3">{capsule.title}</h2>
+                        : skeleton('h-10 w-2/3 mb-3')}
+                    {capsule.summary
+                        ? <p className="text-lg text-slate-600 dark:text-zinc-300 leading-relaxed">{capsule.summary}</p>
+                        : <div className="space-y-2">{skeleton('h-5 w-full')}{skeleton('h-5 w-5/6')}</div>}
+
+                    {capsule.keyConcepts?.length > 0 && (
+                        <div className="mt-12">
+                            <h3 className="flex items-center text-xl font-bold text-slate-800 dark:text-zinc-100 mb-4">
+                                <LightbulbIcon className="w-6 h-6 mr-3 text-amber-500" />
+                                <span>{t('key_concepts')}</span>
+                            </h3>
+                            <ul className="grid gap-4">
+                                {capsule.keyConcepts.map((item, index) => (
+                                    <li key={index} className="p-5 bg-slate-50 dark:bg-zinc-900/50 rounded-xl border border-slate-100 dark:border-zinc-800 animate-fade-in-fast">
+                                        <p className="font-bold text-slate-900 dark:text-white text-lg mb-1">{item.concept}</p>
+                                        <p className="text-slate-600 dark:text-zinc-400 leading-relaxed">{item.explanation}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {capsule.examples?.length > 0 && (
+                        <div className="mt-12">
+                            <h3 className="flex items-center text-xl font-bold text-slate-800 dark:text-zinc-100 mb-4">
+                                <ListChecksIcon className="w-6 h-6 mr-3 text-sky-500" />
+                                <span>{t('examples')}</span>
+                            </h3>
+                            <ul className="space-y-3 bg-slate-50 dark:bg-zinc-900/50 p-6 rounded-xl border border-slate-100 dark:border-zinc-800">
+                                {capsule.examples.map((example, index) => (
+                                    <li key={index} className="flex items-start gap-3">
+                                        <span className="mt-1.5 flex-shrink-0 h-2 w-2 rounded-full bg-sky-500"></span>
+                                        <p className="text-slate-700 dark:text-zinc-300 leading-relaxed">{example}</p>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {(quizCount > 0 || flashcardCount > 0) && (
+                        <p className="mt-12 text-sm font-semibold text-slate-500 dark:text-zinc-400">
+                            {t('streaming_exercises')
+                                .replace('{quiz}', quizCount.toString())
+                                .replace('{flashcards}', flashcardCount.toString())}
+                        </p>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
     const activeGroup = capsule.isShared && capsule.groupId ? userGroups.find(g => g.id === capsule.groupId) : null;
 
     return (
@@ -429,6 +731,11 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                 {t('back_list')}
             </button>
             <div className="p-6 md:p-10">
+                {aiQueue.rateLimitedUntil && (
+                    <p className="mb-6 text-sm text-amber-700 dark:text-amber-300 no-export" aria-live="polite">
+                        {t('ai_rate_limited').replace('{time}', new Date(aiQueue.rateLimitedUntil).toLocaleTimeString())}
+                    </p>
+                )}
                 {/* En-tête Collaboratif */}
                 {capsule.isShared && (
                     <div className="bg-purple-50 dark:bg-purple-900/20 p-3 rounded-lg mb-6 flex items-center gap-3 border border-purple-100 dark:border-purple-800/50">
@@ -450,17 +757,104 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                             <h4 className="font-semibold text-amber-800 dark:text-amber-200">{t('time_to_review')}</h4>
                             <p className="text-sm text-amber-700 dark:text-amber-300">{t('reinforce_knowledge')}</p>
                         </div>
-                        <button
-                            onClick={() => onMarkAsReviewed(capsule.id, 100, 'manual')}
-                            className="px-4 py-2 bg-amber-500 text-white rounded-md hover:bg-amber-600 transition-colors font-semibold whitespace-nowrap"
-                        >
-                            {t('review_done')}
-                        </button>
+                        <div className="flex items-center gap-2">
+                            {onSetAvailability && (
+                                <button
+                                    onClick={() => handleSetAvailability(buryCapsule())}
+                                    className="px-4 py-2 text-amber-700 dark:text-amber-300 rounded-md hover:bg-amber-100 dark:hover:bg-amber-900/60 transition-colors font-medium whitespace-nowrap"
+                                >
+                                    {t('bury_until_tomorrow')}
+                                </button>
+                            )}
+                            <button
+                                onClick={() => onMarkAsReviewed(capsule.id, 100, 'manual')}
+                                className="px-4 py-2 bg-amber-500 text-white rounded-md hover:bg-amber-600 transition-colors font-semibold whitespace-nowrap"
+                            >
+                                {t('review_done')}
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {availability !== 'active' && (
+                    <div className="bg-purple-50 dark:bg-purple-900/30 p-4 rounded-lg mb-6 flex items-center justify-between flex-wrap gap-4 no-export border border-purple-100 dark:border-purple-800/50">
+                        <div>
+                            <h4 className="font-semibold text-purple-800 dark:text-purple-200">
+                                {availability === 'suspended' ? t('capsule_suspended')
+                                    : availability === 'buried' ? t('capsule_buried')
+                                    : t('capsule_snoozed').replace('{date}', new Date(capsule.snoozedUntil || 0).toLocaleDateString())}
+                            </h4>
+                            <p className="text-sm text-purple-700 dark:text-purple-300">{t('capsule_paused_desc')}</p>
+                        </div>
+                        {onSetAvailability && (
+                            <button
+                                onClick={() => handleSetAvailability(restoreCapsule())}
+                                className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors font-semibold whitespace-nowrap"
+                            >
+                                {t('resume_reviews')}
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {capsule.validationIssues && capsule.validationIssues.length > 0 && (
+                    <details className="bg-amber-50 dark:bg-amber-900/20 p-4 rounded-lg mb-6 no-export border border-amber-100 dark:border-amber-800/50">
+                        <summary className="font-semibold text-amber-800 dark:text-amber-200 cursor-pointer">
+                            {t('validation_title').replace('{count}', capsule.validationIssues.length.toString())}
+                        </summary>
+                        <ul className="mt-2 text-sm text-amber-700 dark:text-amber-300 list-disc list-inside space-y-1">
+                            {capsule.validationIssues.map((issue, i) => (
+                                <li key={i}>
+                                    {formatIssuePath(issue.path)} : {t(VALIDATION_ISSUE_KEYS[issue.code])}{issue.removed ? ` (${t('validation_removed')})` : ''}
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
+
+                {isLeechCapsule && (
+                    <div className="bg-red-50 dark:bg-red-900/30 p-4 rounded-lg mb-6 no-export border border-red-100 dark:border-red-800/50">
+                        <h4 className="font-semibold text-red-800 dark:text-red-200">{t('leech_title')}</h4>
+                        <p className="text-sm text-red-700 dark:text-red-300 mb-3">{t('leech_desc')}</p>
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                onClick={handleSimplifyConcepts}
+                                disabled={isSimplifying}
+                                className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-zinc-800 text-red-700 dark:text-red-200 border border-red-200 dark:border-red-800 rounded-md text-sm font-semibold hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors disabled:opacity-50"
+                            >
+                                {isSimplifying ? <RefreshCwIcon className="w-4 h-4 animate-spin" /> : <LightbulbIcon className="w-4 h-4" />}
+                                {t('leech_simplify')}
+                            </button>
+                            {onSplitCapsule && capsule.keyConcepts.length > 1 && (
+                                <button
+                                    onClick={handleSplitCapsule}
+                                    className="px-3 py-2 bg-white dark:bg-zinc-800 text-red-700 dark:text-red-200 border border-red-200 dark:border-red-800 rounded-md text-sm font-semibold hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+                                >
+                                    {t('leech_split')}
+                                </button>
+                            )}
+                            {onSetAvailability && (
+                                <button
+                                    onClick={() => handleSetAvailability(suspendCapsule())}
+                                    className="px-3 py-2 text-red-700 dark:text-red-200 text-sm font-medium hover:underline"
+                                >
+                                    {t('leech_suspend')}
+                                </button>
+                            )}
+                        </div>
                     </div>
                 )}
 
                 <div className="flex justify-between items-start mb-6">
                     <div className="flex-grow mr-4">
+                        {capsule.series && (
+                            <p className="text-sm font-semibold text-emerald-600 dark:text-emerald-400 mb-1">
+                                {t('series_part')
+                                    .replace('{index}', (capsule.series.index + 1).toString())
+                                    .replace('{total}', capsule.series.total.toString())
+                                    .replace('{title}', capsule.series.title)}
+                            </p>
+                        )}
                         <h2 className="text-3xl md:text-4xl font-bold text-slate-900 dark:text-white mb-3">{capsule.title}</h2>
                         <div className="relative">
                             <p className="text-lg text-slate-600 dark:text-zinc-300 pr-10 leading-relaxed">{capsule.summary}</p>
@@ -473,6 +867,55 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                                 {isBuffering === 'summary' ? <RefreshCwIcon className="w-5 h-5 animate-spin" /> : speakingId === 'summary' ? <StopCircleIcon className="w-5 h-5 text-emerald-500" /> : <Volume2Icon className="w-5 h-5" />}
                             </button>
                         </div>
+                        {capsule.narrationScript && (
+                            <button
+                                onClick={() => handleToggleSpeech('narration', capsule.narrationScript!)}
+                                disabled={isBuffering === 'narration'}
+                                className="mt-3 flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg border border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300 transition-colors disabled:opacity-50"
+                            >
+                                {isBuffering === 'narration' ? <RefreshCwIcon className="w-4 h-4 animate-spin" /> : speakingId === 'narration' ? <StopCircleIcon className="w-4 h-4" /> : <Volume2Icon className="w-4 h-4" />}
+                                {speakingId === 'narration' ? t('narration_stop') : t('narration_listen')}
+                            </button>
+                        )}
+                        {onRegenerateCapsule && (
+                            <div className="mt-3 flex flex-wrap items-center gap-2">
+                                <label htmlFor="regenerate-level" className="text-sm text-slate-500 dark:text-zinc-400">{t('regenerate_at_level')}</label>
+                                <select
+                                    id="regenerate-level"
+                                    value={targetLevel}
+                                    onChange={e => setTargetLevel(e.target.value as UserLevel)}
+                                    disabled={isRegeneratingLevel}
+                                    className="px-2 py-1.5 text-sm rounded-lg border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200"
+                                >
+                                    {(['beginner', 'intermediate', 'advanced'] as const).map(level => (
+                                        <option key={level} value={level}>{t(`level_${level}`)}</option>
+                                    ))}
+                                </select>
+                                <button
+                                    onClick={handleRegenerateAtLevel}
+                                    disabled={isRegeneratingLevel || isGenerating}
+                                    className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg border border-slate-200 dark:border-zinc-700 text-slate-700 dark:text-zinc-300 hover:bg-slate-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                                >
+                                    <RefreshCwIcon className={`w-4 h-4 ${isRegeneratingLevel ? 'animate-spin' : ''}`} />
+                                    {isRegeneratingLevel ? t('regenerating_level') : t('regenerate')}
+                                </button>
+                            </div>
+                        )}
+                        {capsule.translationOf ? (
+                            <p className="mt-3 flex items-center gap-2 text-sm text-slate-500 dark:text-zinc-400">
+                                <GlobeIcon className="w-4 h-4" />
+                                {t('translated_from').replace('{language}', t(LANGUAGE_NAME_KEYS[capsule.translationOf.originalLanguage]))}
+                            </p>
+                        ) : onTranslateCapsule && (
+                            <button
+                                onClick={handleTranslate}
+                                disabled={isTranslating || isGenerating}
+                                className="mt-3 flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg border border-slate-200 dark:border-zinc-700 text-slate-700 dark:text-zinc-300 hover:bg-slate-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+                            >
+                                <GlobeIcon className={`w-4 h-4 ${isTranslating ? 'animate-spin' : ''}`} />
+                                {isTranslating ? t('translating') : t(linkedTranslation ? 'translation_update' : 'translate_to').replace('{language}', t(LANGUAGE_NAME_KEYS[otherLanguage]))}
+                            </button>
+                        )}
                     </div>
                      <div className="flex-shrink-0 flex items-center gap-2 relative">
                          <button 
@@ -482,6 +925,43 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                         >
                            <MonitorIcon className="w-6 h-6"/>
                         </button>
+                        {onSetAvailability && availability === 'active' && (
+                            <button
+                                onClick={() => setShowPauseMenu(!showPauseMenu)}
+                                className="p-3 rounded-full text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-zinc-800 transition-colors"
+                                title={t('pause_reviews')}
+                            >
+                               <PauseCircleIcon className="w-6 h-6"/>
+                            </button>
+                        )}
+                        {showPauseMenu && (
+                            <div className="absolute right-0 top-full mt-2 w-64 bg-white dark:bg-zinc-800 rounded-lg shadow-xl border border-slate-200 dark:border-zinc-700 z-20 animate-fade-in-fast p-1">
+                                <button
+                                    onClick={() => handleSetAvailability(buryCapsule())}
+                                    className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-zinc-200 hover:bg-slate-100 dark:hover:bg-zinc-700 rounded-md"
+                                >
+                                    {t('bury_until_tomorrow')}
+                                </button>
+                                <form onSubmit={handleSnooze} className="flex items-center gap-2 px-3 py-2">
+                                    <input
+                                        type="date"
+                                        value={snoozeDate}
+                                        onChange={(e) => setSnoozeDate(e.target.value)}
+                                        className="flex-grow min-w-0 px-2 py-1 text-sm bg-white dark:bg-zinc-950 border border-slate-300 dark:border-zinc-700 rounded-md"
+                                        aria-label={t('snooze_until')}
+                                    />
+                                    <button type="submit" disabled={!snoozeDate} className="px-2 py-1 text-xs font-semibold text-white bg-purple-600 rounded-md hover:bg-purple-700 disabled:opacity-50">
+                                        {t('snooze_until')}
+                                    </button>
+                                </form>
+                                <button
+                                    onClick={() => handleSetAvailability(suspendCapsule())}
+                                    className="w-full text-left px-3 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-slate-100 dark:hover:bg-zinc-700 rounded-md"
+                                >
+                                    {t('suspend_capsule')}
+                                </button>
+                            </div>
+                        )}
                         <button 
                             onClick={handleShareClick}
                             className="p-3 rounded-full text-slate-500 dark:text-zinc-400 hover:bg-slate-100 dark:hover:bg-zinc-800 transition-colors"
@@ -587,12 +1067,22 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                                                 <div className="p-4 bg-white dark:bg-zinc-800 rounded-lg border-l-4 border-emerald-400 shadow-sm mt-2">
                                                     <p className="text-sm text-slate-700 dark:text-zinc-300 whitespace-pre-wrap leading-relaxed">{expandedConcepts[item.concept]}</p>
                                                 </div>
-                                                <button
-                                                    onClick={() => handleToggleConcept(item.concept, item.explanation)}
-                                                    className="text-emerald-600 dark:text-emerald-400 text-xs font-semibold mt-2 hover:underline"
-                                                >
-                                                    Masquer
-                                                </button>
+                                                <div className="flex items-center gap-4 mt-2">
+                                                    <button
+                                                        onClick={() => handleToggleConcept(item.concept, item.explanation)}
+                                                        className="text-emerald-600 dark:text-emerald-400 text-xs font-semibold hover:underline"
+                                                    >
+                                                        Masquer
+                                                    </button>
+                                                    <button
+                                                        onClick={() => loadConceptExplanation(item.concept, item.explanation, true)}
+                                                        disabled={loadingConcepts[item.concept]}
+                                                        className="flex items-center gap-1 text-slate-500 dark:text-zinc-400 text-xs font-semibold hover:underline disabled:opacity-50 disabled:cursor-wait"
+                                                    >
+                                                        <RefreshCwIcon className={`w-3 h-3 ${loadingConcepts[item.concept] ? 'animate-spin' : ''}`} />
+                                                        {t('regenerate')}
+                                                    </button>
+                                                </div>
                                             </div>
                                         ) : (
                                             <button
@@ -607,6 +1097,15 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                                         {errorConcepts[item.concept] && (
                                             <p className="text-red-500 text-xs mt-1">{errorConcepts[item.concept]}</p>
                                         )}
+                                        {capsule.sourceText && item.source && (
+                                            <button
+                                                onClick={() => setSourceTarget({ label: item.concept, span: item.source! })}
+                                                className="flex items-center gap-1.5 text-slate-500 dark:text-zinc-400 text-xs font-semibold hover:underline mt-2"
+                                            >
+                                                <FileTextIcon className="w-3.5 h-3.5" />
+                                                {t('show_in_source')}
+                                            </button>
+                                        )}
                                     </div>
                                 </li>
                             ))}
@@ -703,6 +1202,60 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                         )}
                     </div>
                     
+                    {/* Tuteur : questions sur la capsule, réponses tirées de son contenu */}
+                    {onUpdateTutorChat && !isGenerating && (
+                        <div>
+                            <h3 className="flex items-center text-xl font-bold text-slate-800 dark:text-zinc-100 mb-4">
+                                <MessageSquareIcon className="w-6 h-6 mr-3 text-emerald-500" />
+                                <span>{t('tutor_title')}</span>
+                            </h3>
+                            <TutorChat
+                                capsule={capsule}
+                                onUpdateMessages={messages => onUpdateTutorChat(capsule.id, messages)}
+                                onCreateFlashcard={onUpdateFlashcards ? handleAddTutorFlashcard : undefined}
+                            />
+                        </div>
+                    )}
+
+                    {/* Diagrammes (carte mentale, frise chronologique) */}
+                    {onUpdateVisualizations && (
+                        <div>
+                            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                                <h3 className="flex items-center text-xl font-bold text-slate-800 dark:text-zinc-100">
+                                    <Share2Icon className="w-6 h-6 mr-3 text-emerald-500" />
+                                    <span>{t('diagrams')}</span>
+                                </h3>
+                                <div className="flex items-center gap-2">
+                                    {(['mindmap', 'timeline'] as const).map(type => (
+                                        <button
+                                            key={type}
+                                            onClick={() => handleGenerateDiagram(type)}
+                                            disabled={generatingDiagram !== null}
+                                            className={`flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg border transition-colors disabled:opacity-50 ${type === 'timeline' && isTimelineCandidate(capsule) ? 'border-emerald-300 bg-emerald-50 text-emerald-700 dark:border-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' : 'border-slate-200 dark:border-zinc-700 text-slate-700 dark:text-zinc-300 hover:bg-slate-50 dark:hover:bg-zinc-800'}`}
+                                        >
+                                            {generatingDiagram === type ? <RefreshCwIcon className="w-4 h-4 animate-spin" /> : <SparklesIcon className="w-4 h-4" />}
+                                            {t(type === 'mindmap' ? 'generate_mindmap' : 'generate_timeline')}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            {visualizations.length === 0 ? (
+                                <p className="p-6 text-center text-slate-600 dark:text-zinc-400 bg-slate-50 dark:bg-zinc-900/50 rounded-xl border border-slate-100 dark:border-zinc-800">{t('diagrams_empty')}</p>
+                            ) : (
+                                <div className="space-y-4">
+                                    {visualizations.map((visualization, index) => (
+                                        <VisualizationViewer
+                                            key={index}
+                                            data={visualization}
+                                            onUpdate={data => onUpdateVisualizations(capsule.id, visualizations.map((v, i) => (i === index ? data : v)))}
+                                            onDelete={() => onUpdateVisualizations(capsule.id, visualizations.filter((_, i) => i !== index))}
+                                        />
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
                     {/* Section Commentaires & Collaboration */}
                     {capsule.isShared && (
                         <div>
@@ -864,7 +1417,7 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                                     <span className="font-semibold">{t('mode_flashcards')}</span>
                                  </button>
                                  <button 
-                                     onClick={onStartCoaching}
+                                     onClick={() => onStartCoaching()}
                                      className="w-full flex items-center justify-center gap-3 text-center p-5 rounded-xl bg-white dark:bg-zinc-800/80 text-slate-700 dark:text-zinc-300 border border-slate-200 dark:border-zinc-700 hover:border-emerald-300 hover:bg-slate-50 hover:shadow-md transition-all"
                                  >
                                     <MessageSquareIcon className="w-6 h-6 text-emerald-500"/>
@@ -878,7 +1431,72 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                                     <span className="font-semibold">{t('mode_active')}</span>
                                  </button>
                             </div>
+                            {onStartBilingualFlashcards && isBilingualCapsule(capsule) && (
+                                <button
+                                    onClick={() => linkedTranslation && onStartBilingualFlashcards(linkedTranslation)}
+                                    disabled={!linkedTranslation}
+                                    title={linkedTranslation ? undefined : t('bilingual_needs_translation')}
+                                    className="mt-4 w-full flex items-center justify-center gap-3 p-4 rounded-xl bg-white dark:bg-zinc-800/80 text-slate-700 dark:text-zinc-300 border border-slate-200 dark:border-zinc-700 hover:border-purple-300 hover:bg-slate-50 hover:shadow-md transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    <LayersIcon className="w-6 h-6 text-purple-500"/>
+                                    <span className="font-semibold">
+                                        {t('mode_bilingual_flashcards')} ({capsuleLanguage.toUpperCase()} → {otherLanguage.toUpperCase()})
+                                    </span>
+                                </button>
+                            )}
+                            <div className="mt-4 flex flex-wrap items-center gap-2">
+                                <span className="text-sm text-slate-500 dark:text-zinc-400">{t('coaching_modes')}</span>
+                                {(['oral', 'exam', 'solver'] as const).map(mode => (
+                                    <button
+                                        key={mode}
+                                        onClick={() => onStartCoaching(mode)}
+                                        className="px-3 py-1.5 text-sm font-semibold rounded-lg border border-slate-200 dark:border-zinc-700 text-slate-700 dark:text-zinc-300 hover:border-emerald-300 hover:bg-slate-50 dark:hover:bg-zinc-800 transition-colors"
+                                    >
+                                        {t(`coaching_${mode}`)}
+                                    </button>
+                                ))}
+                            </div>
                         </div>
+                        {onUpdateFlashcards && (
+                            <div>
+                                <div className="flex items-center justify-between gap-3 mb-4">
+                                    <h4 className="text-lg font-bold text-slate-800 dark:text-zinc-200">{t('cloze_title')}</h4>
+                                    <button
+                                        onClick={handleGenerateCloze}
+                                        disabled={isGeneratingCloze || capsule.keyConcepts.length === 0}
+                                        className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-300 dark:hover:bg-blue-900/50 disabled:opacity-50 transition-colors"
+                                    >
+                                        {isGeneratingCloze ? <RefreshCwIcon className="w-4 h-4 animate-spin" /> : <SparklesIcon className="w-4 h-4" />}
+                                        {t('cloze_generate')}
+                                    </button>
+                                </div>
+                                <form onSubmit={handleAddCloze} className="space-y-2">
+                                    <textarea
+                                        ref={clozeInputRef}
+                                        value={clozeDraft}
+                                        onChange={e => setClozeDraft(e.target.value)}
+                                        placeholder={t('cloze_placeholder')}
+                                        rows={2}
+                                        className="w-full p-3 text-sm rounded-lg border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-800 dark:text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                    <div className="flex flex-col sm:flex-row gap-2">
+                                        <input
+                                            type="text"
+                                            value={clozeExtra}
+                                            onChange={e => setClozeExtra(e.target.value)}
+                                            placeholder={t('cloze_extra_placeholder')}
+                                            className="flex-1 p-2 text-sm rounded-lg border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-800 dark:text-zinc-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                                        />
+                                        <button type="button" onClick={handleInsertCloze} className="px-3 py-2 text-sm font-medium rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors">
+                                            {t('cloze_insert')}
+                                        </button>
+                                        <button type="submit" disabled={!clozeDraft.trim()} className="px-3 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors">
+                                            {t('cloze_add')}
+                                        </button>
+                                    </div>
+                                </form>
+                            </div>
+                        )}
                         <div>
                             <h4 className="text-lg font-bold text-slate-800 dark:text-zinc-200 mb-4">{t('advanced_export')}</h4>
                              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -927,11 +1545,24 @@ const CapsuleView: React.FC<CapsuleViewProps> = ({ capsule, onUpdateQuiz, addToa
                                 <p className="font-semibold text-slate-600 dark:text-zinc-300">Mise à jour du quiz...</p>
                             </div>
                         )}
-                        <Quiz questions={capsule.quiz} onComplete={handleQuizComplete} />
+                        <Quiz
+                            questions={getQuizQuestions(capsule)}
+                            onComplete={handleQuizComplete}
+                            onAnswer={(question, _isCorrect, score) => question.id && onReviewItem?.(capsule.id, 'quiz', question.id, score)}
+                            onShowSource={capsule.sourceText ? question => question.source && setSourceTarget({ label: question.question, span: question.source }) : undefined}
+                        />
                     </div>
 
                 </div>
             </div>
+            {sourceTarget && capsule.sourceText && (
+                <SourcePanel
+                    sourceText={capsule.sourceText}
+                    span={sourceTarget.span}
+                    label={sourceTarget.label}
+                    onClose={() => setSourceTarget(null)}
+                />
+            )}
         </div>
     );
 };
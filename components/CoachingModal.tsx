@@ -1,20 +1,35 @@
 // components/CoachingModal.tsx
 import React, { useState } from 'react';
-import { createCoachingSession, generateCognitiveCapsule } from '../services/geminiService';
-import type { CognitiveCapsule, CoachingMode, UserProfile } from '../types';
+import { createCoachingSession, generateCognitiveCapsule, getGenerationProfile } from '../services/aiService';
+import type { GeneratedCapsule } from '../services/aiProvider';
+import type { CoachingMode, CognitiveCapsule, UserProfile } from '../types';
 import { XIcon, SendIcon, SparklesIcon, MicrophoneIcon, ImageIcon, Volume2Icon } from '../constants';
+import { useLanguage } from '../contexts/LanguageContext';
+import type { TranslationKey } from '../i18n/translations';
+import type { GuidedCoachingMode } from '../services/coachingService';
+import CoachingSession from './CoachingSession';
+
+const GUIDED_MODE_TITLES: Record<GuidedCoachingMode, TranslationKey> = {
+  oral: 'coaching_oral',
+  exam: 'coaching_exam',
+  solver: 'coaching_solver',
+};
 
 interface CoachingModalProps {
   userProfile: UserProfile;
   mode: CoachingMode;
   onClose: () => void;
+  // Oral, examen et résolution guidée se déroulent sur une capsule ; le score final est remonté pour l'historique
+  capsule?: CognitiveCapsule;
+  onResult?: (capsuleId: string, mode: CoachingMode, score: number) => void;
 }
 
-const CoachingModal: React.FC<CoachingModalProps> = ({ userProfile, mode, onClose }) => {
+const CoachingModal: React.FC<CoachingModalProps> = ({ userProfile, mode, onClose, capsule, onResult }) => {
+  const { t } = useLanguage();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [session, setSession] = useState<any>(null);
-  const [capsule, setCapsule] = useState<CognitiveCapsule | null>(null);
+  const [sampleCapsule, setSampleCapsule] = useState<GeneratedCapsule | null>(null);
 
   const startSession = async () => {
     setLoading(true);
@@ -28,9 +43,11 @@ const CoachingModal: React.FC<CoachingModalProps> = ({ userProfile, mode, onClos
       const generatedCapsule = await generateCognitiveCapsule(
         `Créer une capsule cognitive pour ${userProfile.name} en mode ${mode}`,
         'text',
-        'fr'
+        'fr',
+        undefined,
+        { profile: getGenerationProfile(userProfile) }
       );
-      setCapsule(generatedCapsule);
+      setSampleCapsule(generatedCapsule);
     } catch (err: any) {
       console.error("Erreur session/capsule:", err);
       setError(err.message || "Une erreur est survenue");
@@ -39,6 +56,25 @@ const CoachingModal: React.FC<CoachingModalProps> = ({ userProfile, mode, onClos
     }
   };
 
+  const guidedMode = mode === 'standard' ? null : mode;
+  if (capsule && guidedMode) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+        <div className="bg-white dark:bg-zinc-900 rounded-xl shadow-lg p-6 w-full max-w-xl relative max-h-[90vh] overflow-y-auto">
+          <button
+            className="absolute top-4 right-4 text-gray-500 hover:text-gray-800"
+            onClick={onClose}
+          >
+            <XIcon />
+          </button>
+          <h2 className="text-xl font-bold mb-1 text-slate-800 dark:text-zinc-100">{t(GUIDED_MODE_TITLES[guidedMode])}</h2>
+          <p className="text-sm text-slate-500 dark:text-zinc-400 mb-4">{capsule.title}</p>
+          <CoachingSession capsule={capsule} mode={guidedMode} onFinish={score => onResult?.(capsule.id, guidedMode, score)} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
       <div className="bg-white rounded-xl shadow-lg p-6 w-full max-w-xl relative">
@@ -70,14 +106,14 @@ const CoachingModal: React.FC<CoachingModalProps> = ({ userProfile, mode, onClos
           </div>
         )}
 
-        {capsule && (
+        {sampleCapsule && (
           <div className="mt-4 p-4 bg-gray-100 rounded">
-            <h3 className="font-semibold">{capsule.title}</h3>
-            <p>{capsule.summary}</p>
+            <h3 className="font-semibold">{sampleCapsule.title}</h3>
+            <p>{sampleCapsule.summary}</p>
             <div className="mt-2">
               <h4 className="font-semibold">Key Concepts:</h4>
               <ul className="list-disc list-inside">
-                {capsule.keyConcepts.map((k, idx) => (
+                {sampleCapsule.keyConcepts.map((k, idx) => (
                   <li key={idx}>{k.concept}: {k.explanation}</li>
                 ))}
               </ul>
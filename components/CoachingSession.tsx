@@ -0,0 +1,389 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { CognitiveCapsule } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { coachSolverStep, gradeOpenAnswer } from '../services/aiService';
+import { isAbortError } from '../services/aiProvider';
+import { isOpenQuestion, MAX_OPEN_ANSWER_CHARS } from '../services/openQuestionService';
+import {
+    GuidedCoachingMode,
+    QuestionSessionState,
+    SolverState,
+    MAX_SOLVER_PROBLEM_CHARS,
+    MAX_SOLVER_STEP_CHARS,
+    abandonSolver,
+    addStudentStep,
+    applyCoachStep,
+    buildExamQuestions,
+    buildOralQuestions,
+    cancelGrading,
+    getCurrentQuestion,
+    getQuestionSessionScore,
+    getRemainingSeconds,
+    getSolverScore,
+    getStudentStepCount,
+    gradeMultipleChoice,
+    nextQuestion,
+    recordAnswer,
+    resumeSolver,
+    startQuestionSession,
+    startSolver,
+    submitAnswer,
+    timeOutQuestion,
+    toCoachingAnswer,
+} from '../services/coachingService';
+import { ClockIcon, MicrophoneIcon, RefreshCwIcon, SendIcon, StopCircleIcon, Volume2Icon } from '../constants';
+
+interface CoachingSessionProps {
+    capsule: CognitiveCapsule;
+    mode: GuidedCoachingMode;
+    onFinish: (score: number) => void; // Appelé une seule fois, à la fin de la séance (score 0-100)
+}
+
+const panelClass = "p-4 rounded-xl bg-slate-50 dark:bg-zinc-900/50 border border-slate-100 dark:border-zinc-800";
+const primaryButtonClass = "px-5 py-2.5 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 disabled:bg-slate-300 dark:disabled:bg-zinc-700 disabled:cursor-not-allowed transition-colors font-bold";
+
+// Appelle `onFinish` une seule fois, quand la séance se termine
+const useFinishOnce = (finished: boolean, score: number, onFinish: (score: number) => void) => {
+    const reportedRef = useRef(false);
+    useEffect(() => {
+        if (!finished || reportedRef.current) return;
+        reportedRef.current = true;
+        onFinish(score);
+    }, [finished, score, onFinish]);
+};
+
+// --- Oral et examen ---
+const QuestionCoaching: React.FC<CoachingSessionProps & { mode: 'oral' | 'exam' }> = ({ capsule, mode, onFinish }) => {
+    const { language, t } = useLanguage();
+    const [state, setState] = useState<QuestionSessionState>(() =>
+        startQuestionSession(mode, mode === 'oral' ? buildOralQuestions(capsule, language) : buildExamQuestions(capsule)));
+    const [answer, setAnswer] = useState('');
+    const [now, setNow] = useState(Date.now());
+    const [isRecording, setIsRecording] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const recognitionRef = useRef<any>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const question = getCurrentQuestion(state);
+    const isFinished = state.phase === 'finished';
+    const speechSupported = typeof window !== 'undefined' && !!((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition);
+    useFinishOnce(isFinished, getQuestionSessionScore(state), onFinish);
+
+    useEffect(() => () => {
+        abortRef.current?.abort();
+        recognitionRef.current?.abort();
+        window.speechSynthesis?.cancel();
+    }, []);
+
+    // Nouvelle question : saisie vidée, lecture à voix haute à l'oral
+    useEffect(() => {
+        setAnswer('');
+        setError(null);
+        if (mode === 'oral' && question && state.phase === 'asking') speak(question.question);
+    }, [state.index, isFinished]);
+
+    // Chronomètre de l'examen
+    useEffect(() => {
+        if (mode !== 'exam' || state.phase !== 'asking') return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [mode, state.phase, state.index]);
+
+    const remaining = getRemainingSeconds(state, now);
+    useEffect(() => {
+        if (mode === 'exam' && state.phase === 'asking' && remaining === 0) setState(s => timeOutQuestion(s));
+    }, [mode, state.phase, remaining]);
+
+    const speak = (text: string) => {
+        if (!window.speechSynthesis) return;
+        window.speechSynthesis.cancel();
+        const utterance = new SpeechSynthesisUtterance(text);
+        utterance.lang = language === 'fr' ? 'fr-FR' : 'en-US';
+        window.speechSynthesis.speak(utterance);
+    };
+
+    const toggleRecording = () => {
+        if (isRecording) {
+            recognitionRef.current?.stop();
+            return;
+        }
+        const SpeechRecognitionAPI = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+        if (!SpeechRecognitionAPI) return;
+        window.speechSynthesis?.cancel();
+        const recognition = new SpeechRecognitionAPI();
+        recognition.continuous = true;
+        recognition.interimResults = true;
+        recognition.lang = language === 'fr' ? 'fr-FR' : 'en-US';
+        const before = answer ? `${answer} ` : '';
+        recognition.onresult = (event: any) => {
+            let transcript = '';
+            for (let i = 0; i < event.results.length; ++i) transcript += event.results[i][0].transcript;
+            setAnswer((before + transcript).slice(0, MAX_OPEN_ANSWER_CHARS));
+        };
+        recognition.onerror = () => setIsRecording(false);
+        recognition.onend = () => setIsRecording(false);
+        recognitionRef.current = recognition;
+        recognition.start();
+        setIsRecording(true);
+    };
+
+    const handleSubmit = async (choice?: string) => {
+        if (!question || state.phase !== 'asking') return;
+        recognitionRef.current?.stop();
+        if (!isOpenQuestion(question)) {
+            setState(s => recordAnswer(s, gradeMultipleChoice(question, choice || ''), Date.now()));
+            return;
+        }
+        const text = answer.trim();
+        if (!text) return;
+        abortRef.current = new AbortController();
+        setState(submitAnswer);
+        setError(null);
+        try {
+            const grade = await gradeOpenAnswer(question, text, language, { signal: abortRef.current.signal });
+            setState(s => recordAnswer(s, toCoachingAnswer(question, text, grade), Date.now()));
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setError(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.');
+            setState(cancelGrading);
+        }
+    };
+
+    const handleNext = () => {
+        setNow(Date.now());
+        setState(s => nextQuestion(s, Date.now()));
+    };
+
+    if (state.questions.length === 0) {
+        return <p className={`${panelClass} text-center text-slate-600 dark:text-zinc-400`}>{t('coaching_no_questions')}</p>;
+    }
+
+    if (isFinished) {
+        return (
+            <div className="space-y-4">
+                <div className={panelClass}>
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-zinc-100">{t('coaching_report')}</h3>
+                    <p className="text-emerald-600 dark:text-emerald-400 font-bold mt-1">
+                        {t('coaching_final_score').replace('{score}', getQuestionSessionScore(state).toString())}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-zinc-400 mt-1">{t('coaching_result_logged')}</p>
+                </div>
+                <ol className="space-y-3 max-h-96 overflow-y-auto pr-1">
+                    {state.questions.map((q, i) => {
+                        const result = state.answers[i];
+                        return (
+                            <li key={q.id || i} className="p-3 rounded-xl border border-slate-200 dark:border-zinc-700 text-sm">
+                                <p className="font-semibold text-slate-800 dark:text-zinc-100">{i + 1}. {q.question}</p>
+                                <p className="mt-1 text-slate-600 dark:text-zinc-300">
+                                    {t('coaching_your_answer')} {result?.answer || t('coaching_no_answer')}
+                                    {result?.timedOut && <span className="ml-2 text-red-600 dark:text-red-400 font-semibold">{t('coaching_timed_out')}</span>}
+                                </p>
+                                <p className={`mt-1 font-bold ${result && result.score >= 60 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400'}`}>
+                                    {t('open_answer_score').replace('{score}', (result?.score ?? 0).toString())}
+                                </p>
+                                {result?.feedback && <p className="mt-1 text-slate-500 dark:text-zinc-400">{result.feedback}</p>}
+                                <p className="mt-1 text-slate-500 dark:text-zinc-400">{t('open_reference_answer')} : {q.correctAnswer}</p>
+                            </li>
+                        );
+                    })}
+                </ol>
+            </div>
+        );
+    }
+
+    const lastAnswer = state.answers[state.answers.length - 1];
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm text-slate-500 dark:text-zinc-400">
+                <span>{t('coaching_question_progress').replace('{index}', (state.index + 1).toString()).replace('{total}', state.questions.length.toString())}</span>
+                {mode === 'exam' && state.phase === 'asking' && (
+                    <span className={`flex items-center gap-1 font-semibold ${remaining <= 10 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                        <ClockIcon className="w-4 h-4" />
+                        {t('coaching_time_left').replace('{seconds}', remaining.toString())}
+                    </span>
+                )}
+            </div>
+            <div className="flex items-start gap-2">
+                <p className="flex-grow text-lg font-medium text-slate-800 dark:text-zinc-100">{question?.question}</p>
+                {mode === 'oral' && question && (
+                    <button onClick={() => speak(question.question)} className="p-2 rounded-full text-slate-500 hover:bg-slate-100 dark:hover:bg-zinc-800" aria-label={t('coaching_listen_question')}>
+                        <Volume2Icon className="w-5 h-5" />
+                    </button>
+                )}
+            </div>
+
+            {state.phase === 'feedback' && lastAnswer ? (
+                <div className={panelClass}>
+                    <p className="font-bold text-slate-800 dark:text-zinc-100">{t('open_answer_score').replace('{score}', lastAnswer.score.toString())}</p>
+                    {lastAnswer.feedback && <p className="text-sm text-slate-600 dark:text-zinc-400 mt-1">{lastAnswer.feedback}</p>}
+                    {lastAnswer.missingPoints.length > 0 && (
+                        <ul className="list-disc list-inside text-sm text-slate-600 dark:text-zinc-300 mt-2">
+                            {lastAnswer.missingPoints.map(point => <li key={point}>{point}</li>)}
+                        </ul>
+                    )}
+                    <button onClick={handleNext} className={`${primaryButtonClass} mt-4`}>
+                        {state.index < state.questions.length - 1 ? t('next_question') : t('see_results')}
+                    </button>
+                </div>
+            ) : question && !isOpenQuestion(question) ? (
+                <div className="space-y-2">
+                    {question.options.map(option => (
+                        <button
+                            key={option}
+                            onClick={() => handleSubmit(option)}
+                            className="w-full text-left p-3 rounded-xl border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-300 hover:border-emerald-300 text-sm font-medium"
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+            ) : (
+                <div>
+                    <textarea
+                        value={answer}
+                        onChange={e => setAnswer(e.target.value)}
+                        disabled={state.phase === 'grading'}
+                        maxLength={MAX_OPEN_ANSWER_CHARS}
+                        rows={4}
+                        placeholder={mode === 'oral' ? t('coaching_transcript_placeholder') : t('open_answer_placeholder')}
+                        className="w-full p-3 rounded-xl border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none disabled:opacity-70"
+                    />
+                    {mode === 'oral' && !speechSupported && <p className="text-xs text-slate-500 dark:text-zinc-400 mt-1">{t('coaching_speech_unsupported')}</p>}
+                    {error && <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>}
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                        {mode === 'oral' && speechSupported && (
+                            <button
+                                onClick={toggleRecording}
+                                disabled={state.phase === 'grading'}
+                                className={`flex items-center gap-2 px-4 py-2.5 rounded-xl border font-semibold text-sm transition-colors ${isRecording ? 'border-red-300 bg-red-50 text-red-700 dark:border-red-700 dark:bg-red-900/30 dark:text-red-300' : 'border-slate-200 dark:border-zinc-700 text-slate-700 dark:text-zinc-300 hover:bg-slate-50 dark:hover:bg-zinc-800'}`}
+                            >
+                                {isRecording ? <StopCircleIcon className="w-4 h-4" /> : <MicrophoneIcon className="w-4 h-4" />}
+                                {isRecording ? t('coaching_stop_recording') : t('coaching_record')}
+                            </button>
+                        )}
+                        <button onClick={() => handleSubmit()} disabled={!answer.trim() || state.phase === 'grading'} className={primaryButtonClass}>
+                            {state.phase === 'grading' ? t('grading_answer') : t('coaching_submit')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Résolution guidée ---
+const SolverCoaching: React.FC<CoachingSessionProps> = ({ capsule, onFinish }) => {
+    const { language, t } = useLanguage();
+    const [problem, setProblem] = useState('');
+    const [state, setState] = useState<SolverState | null>(null);
+    const [step, setStep] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const isOver = state?.phase === 'solved' || state?.phase === 'abandoned';
+    useFinishOnce(!!isOver, state ? getSolverScore(state) : 0, onFinish);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Le coach répond dès que c'est son tour
+    useEffect(() => {
+        if (!state || state.phase !== 'thinking') return;
+        abortRef.current = new AbortController();
+        setError(null);
+        coachSolverStep(capsule, state.problem, state.messages, language, { signal: abortRef.current.signal })
+            .then(coachStep => setState(s => s && applyCoachStep(s, coachStep, Date.now())))
+            .catch(err => {
+                if (isAbortError(err)) return;
+                setError(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.');
+                setState(s => s && resumeSolver(s));
+            });
+    }, [state?.phase, state?.messages.length]);
+
+    const handleStep = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!state) return;
+        setState(addStudentStep(state, step, Date.now()));
+        setStep('');
+    };
+
+    if (!state) {
+        return (
+            <form onSubmit={e => { e.preventDefault(); if (problem.trim()) setState(startSolver(problem)); }} className="space-y-3">
+                <p className="text-sm text-slate-600 dark:text-zinc-400">{t('coaching_solver_intro')}</p>
+                <textarea
+                    value={problem}
+                    onChange={e => setProblem(e.target.value)}
+                    maxLength={MAX_SOLVER_PROBLEM_CHARS}
+                    rows={4}
+                    placeholder={t('coaching_problem_placeholder')}
+                    className="w-full p-3 rounded-xl border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none"
+                />
+                <button type="submit" disabled={!problem.trim()} className={primaryButtonClass}>{t('coaching_start')}</button>
+            </form>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <p className={`${panelClass} text-sm text-slate-700 dark:text-zinc-200 whitespace-pre-wrap`}>{state.problem}</p>
+            <div className="space-y-3 max-h-80 overflow-y-auto pr-1">
+                {state.messages.map((message, index) => (
+                    <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <p className={`max-w-[85%] p-3 rounded-xl text-sm leading-relaxed whitespace-pre-wrap ${message.role === 'user' ? 'bg-emerald-600 text-white' : 'bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200 border border-slate-200 dark:border-zinc-700'}`}>
+                            {message.content}
+                        </p>
+                    </div>
+                ))}
+                {state.phase === 'thinking' && (
+                    <p className="flex items-center gap-2 text-sm text-slate-500 dark:text-zinc-400">
+                        <RefreshCwIcon className="w-4 h-4 animate-spin" />
+                        {t('coaching_coach_thinking')}
+                    </p>
+                )}
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+            {isOver ? (
+                <div className={panelClass}>
+                    <p className="font-bold text-slate-800 dark:text-zinc-100">
+                        {state.phase === 'solved'
+                            ? t('coaching_solved').replace('{steps}', getStudentStepCount(state).toString())
+                            : t('coaching_abandoned')}
+                    </p>
+                    <p className="text-emerald-600 dark:text-emerald-400 font-bold mt-1">{t('coaching_final_score').replace('{score}', getSolverScore(state).toString())}</p>
+                    <p className="text-xs text-slate-500 dark:text-zinc-400 mt-1">{t('coaching_result_logged')}</p>
+                </div>
+            ) : (
+                <>
+                    <form onSubmit={handleStep} className="flex items-center gap-2">
+                        <input
+                            type="text"
+                            value={step}
+                            onChange={e => setStep(e.target.value)}
+                            maxLength={MAX_SOLVER_STEP_CHARS}
+                            disabled={state.phase !== 'awaiting_step'}
+                            placeholder={t('coaching_step_placeholder')}
+                            className="flex-grow px-4 py-2 rounded-xl border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none disabled:opacity-70"
+                        />
+                        <button type="submit" disabled={!step.trim() || state.phase !== 'awaiting_step'} className="p-2.5 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 disabled:bg-slate-300 dark:disabled:bg-zinc-700 disabled:cursor-not-allowed transition-colors" aria-label={t('coaching_submit')}>
+                            <SendIcon className="w-5 h-5" />
+                        </button>
+                    </form>
+                    <button onClick={() => { abortRef.current?.abort(); setState(abandonSolver(state)); }} className="text-xs text-slate-500 dark:text-zinc-400 hover:underline">
+                        {t('coaching_give_up')}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Séance de coaching guidée sur une capsule (oral, examen ou résolution guidée), voir coachingService.
+ */
+const CoachingSession: React.FC<CoachingSessionProps> = props =>
+    props.mode === 'solver' ? <SolverCoaching {...props} /> : <QuestionCoaching {...props} mode={props.mode} />;
+
+export default CoachingSession;
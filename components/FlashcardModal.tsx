@@ -1,25 +1,44 @@
-
-import React, { useState, useEffect, useCallback } from 'react';
-import type { CognitiveCapsule } from '../types';
-import { XIcon, LayersIcon, ChevronLeftIcon, ChevronRightIcon } from '../constants';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type { CognitiveCapsule, FlashcardContent, ReviewRating } from '../types';
+import { XIcon, LayersIcon, ChevronLeftIcon, ChevronRightIcon, CheckCircleIcon } from '../constants';
 import { ToastType } from '../hooks/useToast';
+import { getDueFlashcards, getFlashcards, previewItemIntervals, ratingToScore, ReviewItemKind, SchedulerParameters } from '../services/srsService';
+import GradeButtons, { REVIEW_GRADES } from './GradeButtons';
+import FlashcardText from './FlashcardText';
+import { toBilingualFlashcards } from '../services/translationService';
 
 interface FlashcardModalProps {
     capsule: CognitiveCapsule;
     onClose: () => void;
     addToast: (message: string, type: ToastType) => void;
+    onReviewItem?: (capsuleId: string, kind: ReviewItemKind, itemId: string, score: number) => void;
+    // Mode bilingue : le verso de chaque carte est pris dans cette traduction liée (mêmes ids de cartes)
+    bilingualWith?: CognitiveCapsule;
+    schedulerParameters?: SchedulerParameters; // Rétention visée et poids de l'élève, pour des intervalles affichés exacts
 }
 
-const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose }) => {
+const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose, onReviewItem, bilingualWith, schedulerParameters }) => {
+    const toDeck = (cards: FlashcardContent[]) => bilingualWith ? toBilingualFlashcards(cards, bilingualWith) : cards;
     const [currentIndex, setCurrentIndex] = useState(0);
     const [isFlipped, setIsFlipped] = useState(false);
-    
-    const flashcards = capsule.flashcards || [];
+    // Le paquet est figé à l'ouverture : seules les cartes dues sont présentées
+    const [flashcards, setFlashcards] = useState<FlashcardContent[]>(() => toDeck(getDueFlashcards(capsule)));
+    const [sessionRatings, setSessionRatings] = useState<ReviewRating[]>([]);
+    const totalCards = toDeck(getFlashcards(capsule)).length;
 
     useEffect(() => {
         setCurrentIndex(0);
         setIsFlipped(false);
-    }, [capsule.id]);
+        setFlashcards(toDeck(getDueFlashcards(capsule)));
+        setSessionRatings([]);
+    }, [capsule.id, bilingualWith?.id]);
+
+    const handleReviewAllCards = () => {
+        setCurrentIndex(0);
+        setIsFlipped(false);
+        setFlashcards(toDeck(getFlashcards(capsule)));
+        setSessionRatings([]);
+    };
 
     const changeCard = useCallback((direction: 'next' | 'prev') => {
         if (flashcards.length === 0) return;
@@ -34,8 +53,78 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose }) =>
     }, [flashcards.length]);
 
     const currentCard = flashcards[currentIndex];
+    const isSessionFinished = flashcards.length > 0 && currentIndex >= flashcards.length;
+    const canGrade = !!onReviewItem && !!currentCard?.id && isFlipped;
+
+    // Intervalle obtenu pour chaque note, calculé sur l'état le plus récent de la carte
+    const intervalPreview = useMemo(() => {
+        if (!currentCard) return null;
+        const latestCard = getFlashcards(capsule).find(c => c.id === currentCard.id) || currentCard;
+        return previewItemIntervals(capsule, latestCard, Date.now(), schedulerParameters);
+    }, [capsule, currentCard, schedulerParameters]);
+
+    const handleGrade = useCallback((rating: ReviewRating) => {
+        if (!canGrade || !currentCard?.id) return;
+        onReviewItem?.(capsule.id, 'flashcard', currentCard.id, ratingToScore(rating));
+        setSessionRatings(prev => [...prev, rating]);
+        // Une carte oubliée est représentée en fin de session
+        if (rating === 1) setFlashcards(prev => [...prev, currentCard]);
+        setIsFlipped(false);
+        setTimeout(() => setCurrentIndex(i => i + 1), 200);
+    }, [canGrade, currentCard, capsule.id, onReviewItem]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === ' ') {
+                e.preventDefault();
+                if (currentCard) setIsFlipped(f => !f);
+            } else if (e.key === 'ArrowRight') {
+                changeCard('next');
+            } else if (e.key === 'ArrowLeft') {
+                changeCard('prev');
+            } else if (['1', '2', '3', '4'].includes(e.key)) {
+                handleGrade(Number(e.key) as ReviewRating);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [currentCard, changeCard, handleGrade]);
 
     const renderContent = () => {
+        if (isSessionFinished) {
+            return (
+                <div className="flex flex-col items-center justify-center h-full text-center">
+                    <CheckCircleIcon className="w-12 h-12 text-emerald-400 mb-4" />
+                    <p className="text-zinc-300 font-semibold">Session terminée !</p>
+                    <p className="text-sm text-zinc-500 mt-1 mb-6">{sessionRatings.length} réponse(s) enregistrée(s).</p>
+                    <div className="grid grid-cols-4 gap-3 mb-6">
+                        {REVIEW_GRADES.map(grade => (
+                            <div key={grade.rating} className="px-3 py-2 rounded-lg bg-zinc-800 text-center">
+                                <p className="text-lg font-bold text-white">{sessionRatings.filter(r => r === grade.rating).length}</p>
+                                <p className="text-xs text-zinc-400">{grade.label}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={onClose} className="px-5 py-2 rounded-full bg-emerald-600 text-white font-semibold hover:bg-emerald-700 transition-colors">
+                        Terminer
+                    </button>
+                </div>
+            );
+        }
+
+        if (!currentCard && totalCards > 0) {
+            return (
+                <div className="flex flex-col items-center justify-center h-full text-center">
+                    <CheckCircleIcon className="w-12 h-12 text-emerald-400 mb-4" />
+                    <p className="text-zinc-300 font-semibold">Toutes les cartes sont à jour.</p>
+                    <p className="text-sm text-zinc-500 mt-1 mb-6">Aucune carte n'est à réviser pour le moment.</p>
+                    <button onClick={handleReviewAllCards} className="px-5 py-2 rounded-full bg-emerald-600 text-white font-semibold hover:bg-emerald-700 transition-colors">
+                        Réviser toutes les cartes
+                    </button>
+                </div>
+            );
+        }
+
         if (!currentCard) {
             return (
                 <div className="flex flex-col items-center justify-center h-full text-center">
@@ -55,16 +144,16 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose }) =>
                     className="absolute w-full h-full p-6 md:p-8 rounded-3xl bg-white dark:bg-zinc-800 flex flex-col justify-center items-center text-center shadow-2xl border border-slate-100 dark:border-zinc-700"
                     style={{ backfaceVisibility: 'hidden', WebkitBackfaceVisibility: 'hidden' }}
                 >
-                    <span className="absolute top-6 left-6 text-xs font-bold tracking-widest uppercase px-3 py-1 rounded-full bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-300">Recto</span>
-                    <p className="text-xl md:text-3xl font-bold text-slate-800 dark:text-zinc-100 leading-snug">{currentCard.front}</p>
+                    <span className="absolute top-6 left-6 text-xs font-bold tracking-widest uppercase px-3 py-1 rounded-full bg-emerald-50 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-300">{bilingualWith ? (capsule.language || 'fr').toUpperCase() : 'Recto'}</span>
+                    <p className="text-xl md:text-3xl font-bold text-slate-800 dark:text-zinc-100 leading-snug"><FlashcardText card={currentCard} side="front" /></p>
                     <div className="absolute bottom-8 text-xs text-slate-400 dark:text-zinc-500 font-medium uppercase tracking-wide animate-pulse">
                        Cliquer pour retourner
                     </div>
                 </div>
                 {/* Verso */}
                 <div className="absolute w-full h-full p-6 md:p-8 rounded-3xl bg-emerald-50 dark:bg-zinc-800 shadow-2xl border border-emerald-100 dark:border-zinc-700 flex flex-col justify-center items-center text-center" style={{ backfaceVisibility: 'hidden', WebkitBackfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}>
-                    <span className="absolute top-6 left-6 text-xs font-bold tracking-widest uppercase px-3 py-1 rounded-full bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300">Verso</span>
-                    <p className="text-lg md:text-2xl font-medium text-emerald-900 dark:text-emerald-100 whitespace-pre-wrap leading-relaxed">{currentCard.back}</p>
+                    <span className="absolute top-6 left-6 text-xs font-bold tracking-widest uppercase px-3 py-1 rounded-full bg-emerald-100 text-emerald-700 dark:bg-emerald-900/50 dark:text-emerald-300">{bilingualWith ? (bilingualWith.language || 'fr').toUpperCase() : 'Verso'}</span>
+                    <p className="text-lg md:text-2xl font-medium text-emerald-900 dark:text-emerald-100 whitespace-pre-wrap leading-relaxed"><FlashcardText card={currentCard} side="back" /></p>
                     <div className="absolute bottom-8 text-xs text-emerald-600/50 dark:text-emerald-400/50 font-medium uppercase tracking-wide">
                        Cliquer pour revenir
                     </div>
@@ -82,8 +171,8 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose }) =>
                             <LayersIcon className="w-6 h-6 text-emerald-400" />
                         </div>
                         <div>
-                            <h2 className="text-xl font-bold">Flashcards</h2>
-                            <p className="text-sm text-zinc-400">{capsule.title}</p>
+                            <h2 className="text-xl font-bold">{bilingualWith ? 'Flashcards bilingues' : 'Flashcards'}</h2>
+                            <p className="text-sm text-zinc-400">{capsule.title} • {flashcards.length} carte(s) sur {totalCards}</p>
                         </div>
                     </div>
                     <button onClick={onClose} className="p-3 rounded-full bg-white/10 hover:bg-white/20 transition-colors" aria-label="Fermer">
@@ -95,6 +184,11 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose }) =>
                     {renderContent()}
                 </main>
 
+                {canGrade && intervalPreview ? (
+                <footer className="w-full p-4 flex-shrink-0 mt-4 max-w-xl mx-auto">
+                    <GradeButtons onGrade={handleGrade} intervals={intervalPreview} />
+                </footer>
+                ) : (
                 <footer className="w-full flex items-center justify-between p-4 flex-shrink-0 mt-4 max-w-xl mx-auto">
                     <button 
                         onClick={() => changeCard('prev')} 
@@ -105,7 +199,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose }) =>
                         <ChevronLeftIcon className="w-6 h-6"/>
                     </button>
                     <div className="text-lg font-mono font-bold text-zinc-400 bg-zinc-900 px-4 py-1 rounded-lg">
-                        {flashcards.length > 0 ? `${currentIndex + 1} / ${flashcards.length}` : '0 / 0'}
+                        {flashcards.length > 0 ? `${Math.min(currentIndex + 1, flashcards.length)} / ${flashcards.length}` : '0 / 0'}
                     </div>
                     <button 
                         onClick={() => changeCard('next')} 
@@ -116,6 +210,7 @@ const FlashcardModal: React.FC<FlashcardModalProps> = ({ capsule, onClose }) =>
                         <ChevronRightIcon className="w-6 h-6"/>
                     </button>
                 </footer>
+                )}
             </div>
         </div>
     );
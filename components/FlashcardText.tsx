@@ -0,0 +1,36 @@
+
+import React from 'react';
+import type { FlashcardContent } from '../types';
+import { getClozeSegments, isClozeCard } from '../services/clozeService';
+
+interface FlashcardTextProps {
+    card: FlashcardContent;
+    side: 'front' | 'back';
+}
+
+const SEGMENT_CLASSES: Record<string, string> = {
+    hidden: 'inline-block px-2 mx-0.5 rounded-md bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+    answer: 'px-1 rounded-md bg-emerald-200/70 text-emerald-900 dark:bg-emerald-800/60 dark:text-emerald-100 font-bold',
+};
+
+/**
+ * Contenu d'une face de carte : texte simple, ou texte à trous avec le trou de la carte masqué au recto
+ * et surligné au verso (suivi du complément éventuel).
+ */
+const FlashcardText: React.FC<FlashcardTextProps> = ({ card, side }) => {
+    if (!isClozeCard(card)) return <>{side === 'front' ? card.front : card.back}</>;
+
+    const segments = getClozeSegments(card.front, card.clozeIndex ?? 1, side === 'back');
+    return (
+        <>
+            {segments.map((segment, i) => (
+                <span key={i} className={SEGMENT_CLASSES[segment.kind]}>{segment.text}</span>
+            ))}
+            {side === 'back' && card.back.trim() && (
+                <span className="block mt-4 text-base font-normal opacity-80 whitespace-pre-wrap">{card.back}</span>
+            )}
+        </>
+    );
+};
+
+export default FlashcardText;
@@ -1,13 +1,16 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import type { CognitiveCapsule } from '../types';
+import type { CognitiveCapsule, FlashcardContent, QuizQuestion } from '../types';
 import { MinimizeIcon, PlayCircleIcon, PauseCircleIcon, RefreshCwIcon, CoffeeIcon, MonitorIcon, BookOpenIcon, LayersIcon, ListChecksIcon, LightbulbIcon } from '../constants';
 import Quiz from './Quiz';
+import FlashcardText from './FlashcardText';
+import { getDueFlashcards, getDueQuizQuestions, getFlashcards, getQuizQuestions, ReviewItemKind } from '../services/srsService';
 
 interface FocusModeProps {
     capsule: CognitiveCapsule;
     onExit: () => void;
     onMarkAsReviewed: (capsuleId: string, score?: number, type?: 'quiz' | 'flashcard' | 'manual') => void;
+    onReviewItem?: (capsuleId: string, kind: ReviewItemKind, itemId: string, score: number) => void;
 }
 
 type TimerMode = 'focus' | 'short' | 'long';
@@ -19,7 +22,7 @@ const TIMERS = {
     long: 50 * 60,
 };
 
-const FocusMode: React.FC<FocusModeProps> = ({ capsule, onExit, onMarkAsReviewed }) => {
+const FocusMode: React.FC<FocusModeProps> = ({ capsule, onExit, onMarkAsReviewed, onReviewItem }) => {
     const [timeLeft, setTimeLeft] = useState(TIMERS.focus);
     const [isActive, setIsActive] = useState(false);
     const [timerMode, setTimerMode] = useState<TimerMode>('focus');
@@ -29,6 +32,13 @@ const FocusMode: React.FC<FocusModeProps> = ({ capsule, onExit, onMarkAsReviewed
     const [fcIndex, setFcIndex] = useState(0);
     const [fcFlipped, setFcFlipped] = useState(false);
 
+    // Only due items are shown; decks are frozen when Focus mode opens
+    const [cards, setCards] = useState<FlashcardContent[]>(() => getDueFlashcards(capsule));
+    const [questions] = useState<QuizQuestion[]>(() => {
+        const due = getDueQuizQuestions(capsule);
+        return due.length > 0 ? due : getQuizQuestions(capsule);
+    });
+
     const formatTime = (seconds: number) => {
         const mins = Math.floor(seconds / 60);
         const secs = seconds % 60;
@@ -62,7 +72,7 @@ const FocusMode: React.FC<FocusModeProps> = ({ capsule, onExit, onMarkAsReviewed
 
     // Flashcard Controls
     const nextCard = () => {
-        if (capsule.flashcards && fcIndex < capsule.flashcards.length - 1) {
+        if (fcIndex < cards.length - 1) {
             setFcFlipped(false);
             setTimeout(() => setFcIndex(i => i + 1), 150);
         }
@@ -115,7 +125,19 @@ const FocusMode: React.FC<FocusModeProps> = ({ capsule, onExit, onMarkAsReviewed
                     </div>
                 );
             case 'flashcards':
-                const cards = capsule.flashcards || [];
+                if (cards.length === 0 && (capsule.flashcards || []).length > 0) {
+                    return (
+                        <div className="flex flex-col items-center justify-center h-full gap-4 text-slate-500">
+                            <p>Toutes les cartes sont à jour.</p>
+                            <button
+                                onClick={() => { setFcIndex(0); setCards(getFlashcards(capsule)); }}
+                                className="px-6 py-3 rounded-full bg-slate-200 dark:bg-zinc-800 text-slate-700 dark:text-zinc-300 font-bold hover:bg-slate-300 dark:hover:bg-zinc-700 transition-colors"
+                            >
+                                Réviser toutes les cartes
+                            </button>
+                        </div>
+                    );
+                }
                 if (cards.length === 0) return <div className="flex items-center justify-center h-full text-slate-500">Aucune flashcard disponible.</div>;
                 
                 const card = cards[fcIndex];
@@ -129,13 +151,13 @@ const FocusMode: React.FC<FocusModeProps> = ({ capsule, onExit, onMarkAsReviewed
                                 {/* Front */}
                                 <div className="absolute inset-0 backface-hidden bg-white dark:bg-zinc-800 border-2 border-slate-200 dark:border-zinc-700 rounded-2xl flex flex-col items-center justify-center p-8 shadow-2xl">
                                     <span className="text-sm font-bold text-slate-400 uppercase tracking-widest mb-4">Question</span>
-                                    <p className="text-3xl font-bold text-slate-800 dark:text-white text-center leading-snug">{card.front}</p>
+                                    <p className="text-3xl font-bold text-slate-800 dark:text-white text-center leading-snug"><FlashcardText card={card} side="front" /></p>
                                     <p className="absolute bottom-6 text-sm text-slate-400 animate-pulse">Cliquer pour retourner</p>
                                 </div>
                                 {/* Back */}
                                 <div className="absolute inset-0 backface-hidden rotate-y-180 bg-slate-50 dark:bg-zinc-900 border-2 border-slate-200 dark:border-zinc-700 rounded-2xl flex flex-col items-center justify-center p-8 shadow-2xl">
                                     <span className="text-sm font-bold text-emerald-500 uppercase tracking-widest mb-4">Réponse</span>
-                                    <p className="text-2xl font-medium text-slate-700 dark:text-zinc-200 text-center leading-relaxed">{card.back}</p>
+                                    <p className="text-2xl font-medium text-slate-700 dark:text-zinc-200 text-center leading-relaxed"><FlashcardText card={card} side="back" /></p>
                                 </div>
                             </div>
                         </div>
@@ -166,8 +188,9 @@ const FocusMode: React.FC<FocusModeProps> = ({ capsule, onExit, onMarkAsReviewed
                     <div className="max-w-3xl mx-auto px-6 py-12 animate-fade-in">
                         <h2 className="text-3xl font-bold text-center mb-12 text-slate-900 dark:text-white">Quiz de Validation</h2>
                         <Quiz 
-                            questions={capsule.quiz} 
+                            questions={questions} 
                             onComplete={(score) => onMarkAsReviewed(capsule.id, score, 'quiz')} 
+                            onAnswer={(question, _isCorrect, score) => question.id && onReviewItem?.(capsule.id, 'quiz', question.id, score)}
                         />
                     </div>
                 );
@@ -0,0 +1,41 @@
+
+import React from 'react';
+import type { ReviewRating } from '../types';
+
+export const REVIEW_GRADES: { rating: ReviewRating; label: string; className: string }[] = [
+    { rating: 1, label: 'À revoir', className: 'bg-red-600 hover:bg-red-700' },
+    { rating: 2, label: 'Difficile', className: 'bg-amber-500 hover:bg-amber-600' },
+    { rating: 3, label: 'Correct', className: 'bg-emerald-600 hover:bg-emerald-700' },
+    { rating: 4, label: 'Facile', className: 'bg-sky-600 hover:bg-sky-700' },
+];
+
+const formatInterval = (days: number) => {
+    if (days < 30) return `${days}j`;
+    if (days < 365) return `${Math.round(days / 30)} mois`;
+    return `${(days / 365).toFixed(1)} an`;
+};
+
+interface GradeButtonsProps {
+    onGrade: (rating: ReviewRating) => void;
+    intervals?: Record<ReviewRating, number> | null; // Prochain intervalle (en jours) pour chaque note
+    className?: string;
+}
+
+const GradeButtons: React.FC<GradeButtonsProps> = ({ onGrade, intervals, className = '' }) => (
+    <div className={`w-full grid grid-cols-4 gap-3 ${className}`}>
+        {REVIEW_GRADES.map(grade => (
+            <button
+                key={grade.rating}
+                onClick={() => onGrade(grade.rating)}
+                className={`flex flex-col items-center py-3 rounded-xl text-white font-semibold transition-colors shadow-lg ${grade.className}`}
+            >
+                <span>{grade.label}</span>
+                <span className="text-xs font-normal opacity-80">
+                    {intervals ? `${formatInterval(intervals[grade.rating])} · ` : ''}{grade.rating}
+                </span>
+            </button>
+        ))}
+    </div>
+);
+
+export default GradeButtons;
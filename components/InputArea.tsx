@@ -1,18 +1,23 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { SparklesIcon, XIcon, UploadIcon, AlertTriangleIcon, RefreshCwIcon, ImageIcon, BookOpenIcon, MicrophoneIcon, LearningIllustration } from '../constants';
 import ImportModal from './ImportModal';
 import type { SourceType } from '../types';
 import { useLanguage } from '../contexts/LanguageContext';
 import { Language } from '../i18n/translations';
 import { useToast } from '../hooks/useToast';
+import type { CapsuleSplitMode, GenerationProgress } from '../services/aiProvider';
+import { isLongDocument } from '../services/chunkingService';
+import { analyzeUntrustedInput } from '../services/promptService';
+import type { GenerationOptions } from '../services/aiService';
 
 interface InputAreaProps {
-    onGenerate: (text: string, sourceType?: SourceType) => void;
-    onGenerateFromFile: (file: File, sourceType?: SourceType) => void;
+    onGenerate: (text: string, sourceType?: SourceType, splitMode?: CapsuleSplitMode, options?: GenerationOptions) => void;
+    onGenerateFromFile: (file: File, sourceType?: SourceType, splitMode?: CapsuleSplitMode, options?: GenerationOptions) => void;
     isLoading: boolean;
     error: string | null;
     onClearError: () => void;
+    progress?: GenerationProgress | null; // Avancement de la génération découpée (longs documents)
 }
 
 // --- Définitions TypeScript locales pour Web Speech API ---
@@ -34,14 +39,17 @@ interface SpeechRecognition extends EventTarget {
 const MAX_DOC_SIZE_MB = 5;
 const MAX_RAW_IMAGE_SIZE_MB = 30; // Limite dure pour éviter les crashs navigateurs
 
-const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, isLoading, error, onClearError }) => {
+const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, isLoading, error, onClearError, progress }) => {
     const { t, language } = useLanguage();
     const { addToast } = useToast();
     const [inputText, setInputText] = useState('');
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
     const [selectedSourceType, setSelectedSourceType] = useState<SourceType | null>(null);
     const [parseError, setParseError] = useState<string | null>(null);
-    const [lastAttempt, setLastAttempt] = useState<{ type: 'text' | 'file'; content: string | File; sourceType?: SourceType } | null>(null);
+    const [lastAttempt, setLastAttempt] = useState<{ type: 'text' | 'file'; content: string | File; sourceType?: SourceType; splitMode?: CapsuleSplitMode; options?: GenerationOptions } | null>(null);
+    const [splitMode, setSplitMode] = useState<CapsuleSplitMode>('single');
+    // Par défaut, un texte déjà analysé reprend les réponses en cache ; cette case force un nouvel appel au modèle
+    const [forceRegenerate, setForceRegenerate] = useState(false);
     const [isImportModalOpen, setIsImportModalOpen] = useState(false);
     
     // État pour la reconnaissance vocale (UI)
@@ -334,7 +342,9 @@ const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, i
             const combinedText = (inputText + (inputText && tempSpeech ? ' ' : '') + tempSpeech).trim();
 
             if (selectedFile) {
-                onGenerateFromFile(selectedFile, selectedSourceType || undefined);
+                const options = { forceRegenerate };
+                setLastAttempt({ type: 'file', content: selectedFile, sourceType: selectedSourceType || undefined, splitMode, options });
+                onGenerateFromFile(selectedFile, selectedSourceType || undefined, splitMode, options);
             } else if (combinedText) {
                 // Clean final text one last time
                 const finalContent = selectedSourceType === 'speech' 
@@ -342,8 +352,9 @@ const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, i
                     : combinedText;
                 
                 const isSpeech = selectedSourceType === 'speech';
-                setLastAttempt({ type: 'text', content: finalContent, sourceType: isSpeech ? 'speech' : undefined });
-                onGenerate(finalContent, isSpeech ? 'speech' : undefined);
+                const options = { forceRegenerate };
+                setLastAttempt({ type: 'text', content: finalContent, sourceType: isSpeech ? 'speech' : undefined, splitMode, options });
+                onGenerate(finalContent, isSpeech ? 'speech' : undefined, splitMode, options);
                 
                 // Clear inputs
                 setInputText('');
@@ -356,9 +367,9 @@ const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, i
         if (!lastAttempt) return;
         onClearError();
         if (lastAttempt.type === 'file') {
-            onGenerateFromFile(lastAttempt.content as File, lastAttempt.sourceType);
+            onGenerateFromFile(lastAttempt.content as File, lastAttempt.sourceType, lastAttempt.splitMode, lastAttempt.options);
         } else {
-            onGenerate(lastAttempt.content as string, lastAttempt.sourceType);
+            onGenerate(lastAttempt.content as string, lastAttempt.sourceType, lastAttempt.splitMode, lastAttempt.options);
         }
     };
     
@@ -381,8 +392,9 @@ const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, i
     const handleSchoolImport = (content: string, title?: string) => {
         const textToProcess = title ? `TITRE DU COURS: ${title}\n\nCONTENU:\n${content}` : content;
         setInputText(textToProcess);
-        setLastAttempt({ type: 'text', content: textToProcess });
-        onGenerate(textToProcess);
+        const options = { forceRegenerate };
+        setLastAttempt({ type: 'text', content: textToProcess, splitMode, options });
+        onGenerate(textToProcess, undefined, splitMode, options);
     };
     
     React.useEffect(() => {
@@ -399,6 +411,12 @@ const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, i
         ? (inputText + (inputText && tempSpeech ? ' ' : '') + tempSpeech)
         : inputText;
 
+    // Le choix capsule unique / série n'a de sens que pour un long texte ou un document
+    const canSplit = isLongDocument(displayValue) || (!!selectedFile && selectedSourceType !== 'ocr');
+    // Les consignes glissées dans le texte ne seront pas suivies par le modèle : on prévient l'élève
+    const isSuspiciousInput = useMemo(() => analyzeUntrustedInput(displayValue).suspicious, [displayValue]);
+    const progressPercent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
     if (error) {
         return (
             <div className="bg-red-50 dark:bg-red-900/30 p-6 rounded-2xl shadow-lg border border-red-200 dark:border-red-800/50 flex flex-col items-center text-center animate-fade-in-fast">
@@ -523,6 +541,43 @@ const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, i
                         </div>
                     )}
 
+                    {isSuspiciousInput && (
+                        <div className="mt-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 flex items-start gap-2 text-sm text-amber-800 dark:text-amber-200">
+                            <AlertTriangleIcon className="w-5 h-5 flex-shrink-0" />
+                            <span>{t('suspicious_input_warning')}</span>
+                        </div>
+                    )}
+
+                    {canSplit && (
+                        <div className="mt-4 p-3 rounded-lg bg-slate-50 dark:bg-zinc-950 border border-slate-200 dark:border-zinc-800">
+                            <p className="text-sm text-slate-600 dark:text-zinc-400 mb-2">{t('long_document_hint')}</p>
+                            <div className="grid grid-cols-2 gap-2">
+                                {(['single', 'series'] as CapsuleSplitMode[]).map(mode => (
+                                    <button
+                                        key={mode}
+                                        type="button"
+                                        onClick={() => setSplitMode(mode)}
+                                        disabled={isLoading}
+                                        className={`px-3 py-2 text-sm font-semibold rounded-lg border transition-colors ${splitMode === mode ? 'bg-emerald-600 border-emerald-600 text-white' : 'border-slate-200 dark:border-zinc-700 text-slate-700 dark:text-zinc-300 hover:bg-slate-100 dark:hover:bg-zinc-800'}`}
+                                    >
+                                        {t(mode === 'single' ? 'split_single' : 'split_series')}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    <label className="mt-4 flex items-center gap-2 text-sm text-slate-600 dark:text-zinc-400 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={forceRegenerate}
+                            onChange={e => setForceRegenerate(e.target.checked)}
+                            disabled={isLoading}
+                            className="rounded border-slate-300 dark:border-zinc-700 text-emerald-600 focus:ring-emerald-500"
+                        />
+                        <span>{t('force_regenerate')}</span>
+                    </label>
+
                     <button
                         type="submit"
                         disabled={isLoading || isProcessingImage || (!displayValue.trim() && !selectedFile)}
@@ -531,6 +586,22 @@ const InputArea: React.FC<InputAreaProps> = ({ onGenerate, onGenerateFromFile, i
                         <SparklesIcon className="w-6 h-6"/>
                         {isLoading ? t('analyzing') : t('generate_button')}
                     </button>
+
+                    {isLoading && progress && (
+                        <div className="mt-4" aria-live="polite">
+                            <div className="flex justify-between text-sm text-slate-600 dark:text-zinc-400 mb-1">
+                                <span>
+                                    {progress.stage === 'map'
+                                        ? t('progress_map').replace('{completed}', progress.completed.toString()).replace('{total}', progress.total.toString())
+                                        : t('progress_reduce')}
+                                </span>
+                                <span className="font-semibold">{progressPercent}%</span>
+                            </div>
+                            <div className="w-full h-2 bg-slate-200 dark:bg-zinc-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${progressPercent}%` }} />
+                            </div>
+                        </div>
+                    )}
                     
                      {parseError && <p className="text-red-500 mt-4 text-center font-semibold text-base bg-red-50 dark:bg-red-900/20 p-2 rounded">{parseError}</p>}
 
@@ -1,10 +1,11 @@
 
 import React, { useMemo, useState } from 'react';
 import type { CognitiveCapsule } from '../types';
-import { PlusIcon, BookOpenIcon, BellIcon, MemoraidLogoIcon, PlayIcon, SearchIcon, XIcon, ChevronRightIcon, CheckCircleIcon, LayersIcon, InfoIcon, ShoppingBagIcon, LearningIllustration } from '../constants';
-import { isCapsuleDue } from '../services/srsService';
+import { PlusIcon, BookOpenIcon, BellIcon, MemoraidLogoIcon, PlayIcon, SearchIcon, XIcon, ChevronRightIcon, CheckCircleIcon, LayersIcon, InfoIcon, ShoppingBagIcon, LearningIllustration, AlertCircleIcon } from '../constants';
+import { isCapsuleDue, isLeech, getCapsuleAvailability, SchedulerParameters, ReviewItemKind } from '../services/srsService';
 import ConfirmationModal from './ConfirmationModal';
 import CapsuleListItem from './CapsuleListItem';
+import MixedReviewSession from './MixedReviewSession';
 import { useLanguage } from '../contexts/LanguageContext';
 
 interface KnowledgeBaseProps {
@@ -20,6 +21,8 @@ interface KnowledgeBaseProps {
     selectedCapsuleIds: string[];
     setSelectedCapsuleIds: React.Dispatch<React.SetStateAction<string[]>>;
     onOpenStore: () => void;
+    schedulerParameters?: SchedulerParameters;
+    onReviewItem?: (capsuleId: string, kind: ReviewItemKind, itemId: string, score: number) => void;
 }
 
 const NotificationManager: React.FC<{ permission: NotificationPermission, onRequest: () => void, onShowInstructions: () => void }> = ({ permission, onRequest, onShowInstructions }) => {
@@ -63,20 +66,24 @@ const NotificationManager: React.FC<{ permission: NotificationPermission, onRequ
 };
 
 
-const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId, onSelectCapsule, onNewCapsule, notificationPermission, onRequestNotificationPermission, onDeleteCapsule, newlyAddedCapsuleId, onClearNewCapsule, selectedCapsuleIds, setSelectedCapsuleIds, onOpenStore }) => {
+const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId, onSelectCapsule, onNewCapsule, notificationPermission, onRequestNotificationPermission, onDeleteCapsule, newlyAddedCapsuleId, onClearNewCapsule, selectedCapsuleIds, setSelectedCapsuleIds, onOpenStore, schedulerParameters, onReviewItem }) => {
     const { t } = useLanguage();
     const [capsuleToDelete, setCapsuleToDelete] = useState<CognitiveCapsule | null>(null);
-    const [isReviewConfirmOpen, setIsReviewConfirmOpen] = useState(false);
+    const [isReviewSessionOpen, setIsReviewSessionOpen] = useState(false);
     const [isInstructionsModalOpen, setIsInstructionsModalOpen] = useState(false);
     const [expandedCapsuleId, setExpandedCapsuleId] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
+    const [showLeechesOnly, setShowLeechesOnly] = useState(false);
+
+    const leechCount = useMemo(() => capsules.filter(c => isLeech(c)).length, [capsules]);
 
     const filteredCapsules = useMemo(() => {
+        const baseCapsules = showLeechesOnly ? capsules.filter(c => isLeech(c)) : capsules;
         if (!searchTerm.trim()) {
-            return capsules;
+            return baseCapsules;
         }
         const lowercasedFilter = searchTerm.toLowerCase();
-        return capsules.filter(capsule => {
+        return baseCapsules.filter(capsule => {
             const inTitle = capsule.title.toLowerCase().includes(lowercasedFilter);
             const inSummary = capsule.summary.toLowerCase().includes(lowercasedFilter);
             const inCategory = capsule.category?.toLowerCase().includes(lowercasedFilter) || false;
@@ -85,7 +92,7 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
             );
             return inTitle || inSummary || inCategory || inKeyConcepts;
         });
-    }, [capsules, searchTerm]);
+    }, [capsules, searchTerm, showLeechesOnly]);
 
     const dueCapsules = useMemo(() => 
         filteredCapsules
@@ -95,7 +102,8 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
     );
 
     const groupedCapsules = useMemo(() => {
-        const otherCapsules = filteredCapsules.filter(c => !isCapsuleDue(c));
+        // Suspended, buried and snoozed capsules are kept apart from the rotation
+        const otherCapsules = filteredCapsules.filter(c => !isCapsuleDue(c) && getCapsuleAvailability(c) === 'active');
         const groups: { [key: string]: CognitiveCapsule[] } = {};
         const uncategorized: CognitiveCapsule[] = [];
 
@@ -112,6 +120,11 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
         return { sortedCategories, groups, uncategorized };
     }, [filteredCapsules]);
 
+    const pausedCapsules = useMemo(() =>
+        filteredCapsules.filter(c => getCapsuleAvailability(c) !== 'active'),
+        [filteredCapsules]
+    );
+
     const handleRequestDelete = (capsule: CognitiveCapsule) => {
         setCapsuleToDelete(capsule);
     };
@@ -143,15 +156,14 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
         }
     };
 
+    // Session mixte sur la sélection, ou sur toutes les capsules affichées
+    const reviewSessionCapsules = useMemo(() =>
+        selectedCapsuleIds.length > 0 ? filteredCapsules.filter(c => selectedCapsuleIds.includes(c.id)) : filteredCapsules,
+        [filteredCapsules, selectedCapsuleIds]
+    );
+
     const handleStartReview = () => {
-        if (dueCapsules.length > 0) {
-            onSelectCapsule(dueCapsules[0]);
-        }
-        setIsReviewConfirmOpen(false);
-    };
-    
-    const handleCancelReview = () => {
-        setIsReviewConfirmOpen(false);
+        setIsReviewSessionOpen(true);
     };
 
     const handleToggleExpand = (capsule: CognitiveCapsule) => {
@@ -193,6 +205,16 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
                 )}
             </div>
 
+            {(leechCount > 0 || showLeechesOnly) && (
+                <button
+                    onClick={() => setShowLeechesOnly(prev => !prev)}
+                    className={`-mt-3 mb-6 flex items-center gap-2 px-3 py-1.5 rounded-full text-sm font-semibold border transition-colors ${showLeechesOnly ? 'bg-red-600 text-white border-red-600' : 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800/50 hover:bg-red-100 dark:hover:bg-red-900/40'}`}
+                >
+                    <AlertCircleIcon className="w-4 h-4" />
+                    {t('leech_filter')} ({leechCount})
+                </button>
+            )}
+
             <div className="grid grid-cols-2 gap-3 mb-6">
                 <button
                     onClick={onNewCapsule}
@@ -214,7 +236,7 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
 
             {dueCapsules.length > 0 && (
                 <button
-                    onClick={() => setIsReviewConfirmOpen(true)}
+                    onClick={handleStartReview}
                     className="w-full flex items-center justify-center gap-2 mb-6 px-4 py-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-colors font-bold shadow-md"
                 >
                     <PlayIcon className="w-5 h-5" />
@@ -277,6 +299,7 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
                                             onRequestDelete={handleRequestDelete}
                                             newlyAddedCapsuleId={newlyAddedCapsuleId}
                                             onClearNewCapsule={onClearNewCapsule}
+                                            schedulerParameters={schedulerParameters}
                                         />
                                     )
                                 ) : (
@@ -305,6 +328,7 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
                                             onRequestDelete={handleRequestDelete}
                                             newlyAddedCapsuleId={newlyAddedCapsuleId}
                                             onClearNewCapsule={onClearNewCapsule}
+                                            schedulerParameters={schedulerParameters}
                                         />
                                     )}
                                 </div>
@@ -331,6 +355,37 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
                                             onRequestDelete={handleRequestDelete}
                                             newlyAddedCapsuleId={newlyAddedCapsuleId}
                                             onClearNewCapsule={onClearNewCapsule}
+                                            schedulerParameters={schedulerParameters}
+                                        />
+                                    )}
+                                </div>
+                            </details>
+                        )}
+
+                        {pausedCapsules.length > 0 && (
+                             <details className="group mt-4">
+                                <summary className="list-none flex items-center justify-between cursor-pointer px-2 py-2 rounded hover:bg-slate-50 dark:hover:bg-zinc-800/50 transition-colors">
+                                    <span className="text-sm font-bold text-purple-600 dark:text-purple-400 tracking-wide flex items-center uppercase">
+                                        {t('paused_capsules')}
+                                        <span className="ml-2 inline-flex items-center justify-center px-2 py-0.5 text-xs font-bold leading-none text-purple-100 bg-purple-500 rounded-full shadow-sm">{pausedCapsules.length}</span>
+                                    </span>
+                                    <ChevronRightIcon className="w-5 h-5 text-zinc-500 transform group-open:rotate-90 transition-transform"/>
+                                </summary>
+                                 <div className="space-y-3 mt-2 pl-1">
+                                    {pausedCapsules.map(capsule => 
+                                        <CapsuleListItem 
+                                            key={capsule.id} 
+                                            capsule={capsule} 
+                                            isActive={activeCapsuleId === capsule.id}
+                                            isExpanded={expandedCapsuleId === capsule.id}
+                                            isSelected={selectedCapsuleIds.includes(capsule.id)}
+                                            isDue={false} 
+                                            onToggleExpand={() => handleToggleExpand(capsule)}
+                                            onToggleSelection={() => handleToggleSelection(capsule.id)}
+                                            onRequestDelete={handleRequestDelete}
+                                            newlyAddedCapsuleId={newlyAddedCapsuleId}
+                                            onClearNewCapsule={onClearNewCapsule}
+                                            schedulerParameters={schedulerParameters}
                                         />
                                     )}
                                 </div>
@@ -362,17 +417,13 @@ const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ capsules, activeCapsuleId
                 confirmText="Supprimer"
                 cancelText="Annuler"
             />
-            <ConfirmationModal
-                isOpen={isReviewConfirmOpen && dueCapsules.length > 0}
-                onClose={handleCancelReview}
-                onConfirm={handleStartReview}
-                title="Démarrer la session de révision ?"
-                message={`Vous avez ${dueCapsules.length} capsule(s) à réviser. Voulez-vous commencer avec "${dueCapsules[0]?.title}" ?`}
-                confirmText="Commencer"
-                cancelText="Plus tard"
-                variant="info"
-                icon={<PlayIcon />}
-            />
+            {isReviewSessionOpen && (
+                <MixedReviewSession
+                    capsules={reviewSessionCapsules}
+                    onClose={() => setIsReviewSessionOpen(false)}
+                    onReviewItem={onReviewItem}
+                />
+            )}
              {isInstructionsModalOpen && (
                 <div 
                     className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4 animate-fade-in"
@@ -0,0 +1,291 @@
+
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import type { CognitiveCapsule, ReviewRating } from '../types';
+import { XIcon, LayersIcon, CheckCircleIcon, ClockIcon, TagIcon } from '../constants';
+import { getFlashcards, previewItemIntervals, ratingToScore, ReviewItemKind, SchedulerParameters } from '../services/srsService';
+import { buildReviewSession, estimateSessionMinutes, ReviewSessionItem } from '../services/reviewSessionService';
+import GradeButtons from './GradeButtons';
+import FlashcardText from './FlashcardText';
+import { isClozeCard } from '../services/clozeService';
+import { isOpenQuestion } from '../services/openQuestionService';
+import OpenQuestion from './OpenQuestion';
+
+interface MixedReviewSessionProps {
+    capsules: CognitiveCapsule[];
+    onClose: () => void;
+    onReviewItem?: (capsuleId: string, kind: ReviewItemKind, itemId: string, score: number) => void;
+    schedulerParameters?: SchedulerParameters;
+}
+
+type LimitMode = 'items' | 'minutes';
+
+interface SessionResult {
+    item: ReviewSessionItem;
+    score: number;
+}
+
+const MixedReviewSession: React.FC<MixedReviewSessionProps> = ({ capsules, onClose, onReviewItem, schedulerParameters }) => {
+    const [limitMode, setLimitMode] = useState<LimitMode>('items');
+    const [limitValue, setLimitValue] = useState(20);
+    const [session, setSession] = useState<ReviewSessionItem[] | null>(null);
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [isRevealed, setIsRevealed] = useState(false);
+    const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+    const [results, setResults] = useState<SessionResult[]>([]);
+
+    // Aperçu sans limite, pour afficher ce qui est disponible
+    const availableItems = useMemo(() => buildReviewSession(capsules), [capsules]);
+    const preview = useMemo(() => buildReviewSession(capsules, limitMode === 'items' ? { maxItems: limitValue } : { maxMinutes: limitValue }), [capsules, limitMode, limitValue]);
+
+    const currentItem = session ? session[currentIndex] : undefined;
+    const isFinished = !!session && currentIndex >= session.length;
+
+    // Intervalle obtenu pour chaque note, calculé sur l'état le plus récent de la carte
+    const intervalPreview = useMemo(() => {
+        const capsule = currentItem?.flashcard && capsules.find(c => c.id === currentItem.capsuleId);
+        if (!capsule || !currentItem?.flashcard) return null;
+        const latestCard = getFlashcards(capsule).find(c => c.id === currentItem.itemId) || currentItem.flashcard;
+        return previewItemIntervals(capsule, latestCard, Date.now(), schedulerParameters);
+    }, [capsules, currentItem, schedulerParameters]);
+
+    const handleStart = () => {
+        setSession(preview);
+        setCurrentIndex(0);
+        setResults([]);
+        setIsRevealed(false);
+        setSelectedAnswer(null);
+    };
+
+    const recordResult = useCallback((score: number) => {
+        if (!currentItem) return;
+        // Chaque réponse est journalisée dans la capsule d'origine
+        onReviewItem?.(currentItem.capsuleId, currentItem.kind, currentItem.itemId, score);
+        setResults(prev => [...prev, { item: currentItem, score }]);
+    }, [currentItem, onReviewItem]);
+
+    const goToNext = () => {
+        setIsRevealed(false);
+        setSelectedAnswer(null);
+        setCurrentIndex(i => i + 1);
+    };
+
+    const handleGrade = useCallback((rating: ReviewRating) => {
+        if (!currentItem || currentItem.kind !== 'flashcard' || !isRevealed) return;
+        recordResult(ratingToScore(rating));
+        setIsRevealed(false);
+        setCurrentIndex(i => i + 1);
+    }, [currentItem, isRevealed, recordResult]);
+
+    const handleCheckAnswer = () => {
+        if (!currentItem?.question || !selectedAnswer) return;
+        recordResult(selectedAnswer === currentItem.question.correctAnswer ? 100 : 0);
+        setIsRevealed(true);
+    };
+
+    useEffect(() => {
+        if (!currentItem || currentItem.kind !== 'flashcard') return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === ' ') {
+                e.preventDefault();
+                setIsRevealed(true);
+            } else if (['1', '2', '3', '4'].includes(e.key)) {
+                handleGrade(Number(e.key) as ReviewRating);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [currentItem, handleGrade]);
+
+    const renderSetup = () => (
+        <div className="w-full max-w-lg mx-auto bg-white dark:bg-zinc-900 rounded-3xl p-6 md:p-8 shadow-2xl border border-slate-100 dark:border-zinc-800 space-y-6">
+            <div>
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white">Session mixte</h3>
+                <p className="text-sm text-slate-500 dark:text-zinc-400 mt-1">
+                    Les cartes et questions dues de toutes vos capsules, mélangées par catégorie.
+                </p>
+            </div>
+            <div className="flex bg-slate-100 dark:bg-zinc-800 rounded-lg p-1">
+                {(['items', 'minutes'] as const).map(mode => (
+                    <button
+                        key={mode}
+                        onClick={() => { setLimitMode(mode); setLimitValue(mode === 'items' ? 20 : 15); }}
+                        className={`flex-1 py-2 text-sm font-semibold rounded-md transition-colors ${limitMode === mode ? 'bg-white dark:bg-zinc-700 text-slate-800 dark:text-white shadow-sm' : 'text-slate-500 dark:text-zinc-400'}`}
+                    >
+                        {mode === 'items' ? 'Nombre de cartes' : 'Durée'}
+                    </button>
+                ))}
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-slate-600 dark:text-zinc-400 mb-1">
+                    {limitMode === 'items' ? `${limitValue} cartes maximum` : `${limitValue} minutes maximum`}
+                </label>
+                <input
+                    type="range"
+                    min={5}
+                    max={limitMode === 'items' ? 100 : 60}
+                    step={5}
+                    value={limitValue}
+                    onChange={e => setLimitValue(Number(e.target.value))}
+                    className="w-full accent-emerald-600"
+                />
+            </div>
+            <div className="flex items-center justify-between text-sm text-slate-500 dark:text-zinc-400">
+                <span>{preview.length} élément(s) sur {availableItems.length} dû(s)</span>
+                <span className="flex items-center gap-1"><ClockIcon className="w-4 h-4" /> ~{estimateSessionMinutes(preview)} min</span>
+            </div>
+            <button
+                onClick={handleStart}
+                disabled={preview.length === 0}
+                className="w-full py-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-colors font-bold disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {availableItems.length === 0 ? 'Rien à réviser pour le moment' : 'Commencer'}
+            </button>
+        </div>
+    );
+
+    const renderSummary = () => {
+        const perCapsule = new Map<string, { title: string; count: number; success: number }>();
+        results.forEach(({ item, score }) => {
+            const entry = perCapsule.get(item.capsuleId) || { title: item.capsuleTitle, count: 0, success: 0 };
+            entry.count++;
+            if (score >= 50) entry.success++;
+            perCapsule.set(item.capsuleId, entry);
+        });
+        return (
+            <div className="w-full max-w-lg mx-auto bg-white dark:bg-zinc-900 rounded-3xl p-6 md:p-8 shadow-2xl border border-slate-100 dark:border-zinc-800 text-center">
+                <CheckCircleIcon className="w-12 h-12 text-emerald-500 mx-auto mb-4" />
+                <h3 className="text-lg font-bold text-slate-800 dark:text-white">Session terminée !</h3>
+                <p className="text-sm text-slate-500 dark:text-zinc-400 mt-1 mb-6">{results.length} réponse(s) enregistrée(s) dans {perCapsule.size} capsule(s).</p>
+                <ul className="space-y-2 text-left mb-6 max-h-60 overflow-y-auto">
+                    {Array.from(perCapsule.entries()).map(([capsuleId, entry]) => (
+                        <li key={capsuleId} className="flex items-center justify-between text-sm p-2 rounded-lg bg-slate-50 dark:bg-zinc-800">
+                            <span className="font-medium text-slate-700 dark:text-zinc-300 truncate pr-2">{entry.title}</span>
+                            <span className="font-semibold text-slate-800 dark:text-white flex-shrink-0">{entry.success} / {entry.count}</span>
+                        </li>
+                    ))}
+                </ul>
+                <button onClick={onClose} className="px-6 py-2 rounded-full bg-emerald-600 text-white font-semibold hover:bg-emerald-700 transition-colors">
+                    Terminer
+                </button>
+            </div>
+        );
+    };
+
+    const renderItem = (item: ReviewSessionItem) => (
+        <div className="w-full max-w-2xl mx-auto bg-white dark:bg-zinc-900 rounded-3xl p-6 md:p-8 shadow-2xl border border-slate-100 dark:border-zinc-800">
+            <div className="flex items-center gap-2 mb-6 text-xs font-semibold text-slate-500 dark:text-zinc-400">
+                <TagIcon className="w-4 h-4" />
+                {item.category && <span className="px-2 py-0.5 rounded-full bg-emerald-50 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-200">{item.category}</span>}
+                <span className="truncate">{item.capsuleTitle}</span>
+            </div>
+
+            {item.flashcard && (
+                <div className="text-center">
+                    <p className="text-xl md:text-2xl font-bold text-slate-800 dark:text-zinc-100 leading-snug">
+                        {/* Une carte à trous se complète sur place : pas de verso séparé */}
+                        <FlashcardText card={item.flashcard} side={isRevealed && isClozeCard(item.flashcard) ? 'back' : 'front'} />
+                    </p>
+                    {isRevealed ? (
+                        <>
+                            <hr className="my-6 border-slate-200 dark:border-zinc-700" />
+                            {!isClozeCard(item.flashcard) && (
+                                <p className="text-lg text-slate-700 dark:text-zinc-200 leading-relaxed mb-8">{item.flashcard.back}</p>
+                            )}
+                            <GradeButtons onGrade={handleGrade} intervals={intervalPreview} />
+                        </>
+                    ) : (
+                        <button
+                            onClick={() => setIsRevealed(true)}
+                            className="mt-8 px-6 py-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 transition-colors font-bold"
+                        >
+                            Afficher la réponse
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {item.question && (
+                <div>
+                    <p className="text-lg font-medium text-slate-800 dark:text-zinc-100 mb-6 leading-relaxed">{item.question.question}</p>
+                    {isOpenQuestion(item.question) ? (
+                        <OpenQuestion key={item.itemId} question={item.question} onGraded={grade => { recordResult(grade.score); setIsRevealed(true); }} />
+                    ) : (
+                        <div className="space-y-3 mb-6">
+                            {item.question.options.map((option, index) => {
+                                const isSelected = selectedAnswer === option;
+                                const isCorrectOption = option === item.question!.correctAnswer;
+                                const stateClass = isRevealed
+                                    ? isCorrectOption
+                                        ? 'bg-emerald-100 dark:bg-emerald-900/50 border-emerald-500 text-emerald-800 dark:text-emerald-200'
+                                        : isSelected
+                                            ? 'bg-red-100 dark:bg-red-900/50 border-red-500 text-red-800 dark:text-red-200'
+                                            : 'bg-white dark:bg-zinc-800 border-slate-200 dark:border-zinc-700 text-slate-400 opacity-60'
+                                    : isSelected
+                                        ? 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-500 ring-1 ring-emerald-500 text-emerald-800 dark:text-emerald-200'
+                                        : 'bg-white dark:bg-zinc-800 border-slate-200 dark:border-zinc-700 hover:border-emerald-300 text-slate-700 dark:text-zinc-300';
+                                return (
+                                    <button
+                                        key={index}
+                                        onClick={() => !isRevealed && setSelectedAnswer(option)}
+                                        disabled={isRevealed}
+                                        className={`w-full text-left p-4 rounded-xl border transition-all duration-200 font-medium text-sm ${stateClass}`}
+                                    >
+                                        {option}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    )}
+                    {isRevealed && !isOpenQuestion(item.question) && item.question.explanation && (
+                        <p className="text-sm text-slate-600 dark:text-zinc-400 mb-6 leading-relaxed">{item.question.explanation}</p>
+                    )}
+                    {/* Une question ouverte se vérifie avec son propre bouton de correction */}
+                    {(isRevealed || !isOpenQuestion(item.question)) && (
+                        <button
+                            onClick={isRevealed ? goToNext : handleCheckAnswer}
+                            disabled={!isRevealed && !selectedAnswer}
+                            className="w-full sm:w-auto px-6 py-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 disabled:bg-slate-300 dark:disabled:bg-zinc-700 disabled:cursor-not-allowed transition-colors font-bold"
+                        >
+                            {isRevealed ? 'Suivant' : 'Vérifier'}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="fixed inset-0 bg-zinc-950/90 backdrop-blur-sm z-50 flex flex-col items-center justify-center p-4 animate-fade-in" role="dialog" aria-modal="true">
+            <div className="w-full max-w-4xl h-full max-h-[85vh] flex flex-col">
+                <header className="flex items-center justify-between p-4 text-white mb-4">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-emerald-500/20 rounded-lg backdrop-blur-md">
+                            <LayersIcon className="w-6 h-6 text-emerald-400" />
+                        </div>
+                        <div>
+                            <h2 className="text-xl font-bold">Révision mixte</h2>
+                            {session && !isFinished && (
+                                <p className="text-sm text-zinc-400">{currentIndex + 1} / {session.length}</p>
+                            )}
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="p-3 rounded-full bg-white/10 hover:bg-white/20 transition-colors" aria-label="Fermer">
+                        <XIcon className="w-6 h-6 text-white" />
+                    </button>
+                </header>
+
+                {session && !isFinished && (
+                    <div className="w-full h-1.5 bg-zinc-800 rounded-full mb-6 overflow-hidden">
+                        <div className="h-full bg-emerald-500 transition-all duration-300" style={{ width: `${(currentIndex / session.length) * 100}%` }}></div>
+                    </div>
+                )}
+
+                <main className="flex-grow w-full flex items-center justify-center overflow-y-auto">
+                    {!session ? renderSetup() : isFinished ? renderSummary() : currentItem && renderItem(currentItem)}
+                </main>
+            </div>
+        </div>
+    );
+};
+
+export default MixedReviewSession;
@@ -0,0 +1,90 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { OpenAnswerGrade, QuizQuestion } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { gradeOpenAnswer } from '../services/aiService';
+import { isAbortError } from '../services/aiProvider';
+import { isPassingGrade, MAX_OPEN_ANSWER_CHARS } from '../services/openQuestionService';
+
+interface OpenQuestionProps {
+    question: QuizQuestion;
+    onGraded: (grade: OpenAnswerGrade) => void;
+}
+
+/**
+ * Saisie et correction d'une question ouverte. Le parent affiche la suite (question suivante...) une fois `onGraded` appelé ;
+ * une nouvelle question se passe avec une nouvelle `key`.
+ */
+const OpenQuestion: React.FC<OpenQuestionProps> = ({ question, onGraded }) => {
+    const { language, t } = useLanguage();
+    const [answer, setAnswer] = useState('');
+    const [grade, setGrade] = useState<OpenAnswerGrade | null>(null);
+    const [isGrading, setIsGrading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleGrade = async () => {
+        abortRef.current = new AbortController();
+        setIsGrading(true);
+        setError(null);
+        try {
+            const result = await gradeOpenAnswer(question, answer, language, { signal: abortRef.current.signal });
+            setGrade(result);
+            onGraded(result);
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setError(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.');
+        } finally {
+            setIsGrading(false);
+        }
+    };
+
+    const passed = grade && isPassingGrade(grade);
+
+    return (
+        <div className="mb-6">
+            <textarea
+                value={answer}
+                onChange={e => setAnswer(e.target.value)}
+                disabled={!!grade || isGrading}
+                maxLength={MAX_OPEN_ANSWER_CHARS}
+                rows={5}
+                placeholder={t('open_answer_placeholder')}
+                className="w-full p-4 rounded-xl border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200 text-sm leading-relaxed focus:ring-2 focus:ring-emerald-500 outline-none disabled:opacity-70"
+            />
+            {error && <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>}
+
+            {!grade ? (
+                <button
+                    onClick={handleGrade}
+                    disabled={!answer.trim() || isGrading}
+                    className="mt-4 w-full sm:w-auto px-6 py-3 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 disabled:bg-slate-300 dark:disabled:bg-zinc-700 disabled:cursor-not-allowed transition-colors font-bold shadow-md shadow-emerald-200/50 dark:shadow-none"
+                >
+                    {isGrading ? t('grading_answer') : t('grade_answer')}
+                </button>
+            ) : (
+                <div className={`mt-4 p-4 rounded-xl ${passed ? 'bg-emerald-50 dark:bg-emerald-900/30 border border-emerald-100 dark:border-emerald-800' : 'bg-amber-50 dark:bg-amber-900/30 border border-amber-100 dark:border-amber-800'}`}>
+                    <h4 className={`font-bold ${passed ? 'text-emerald-700 dark:text-emerald-300' : 'text-amber-700 dark:text-amber-300'}`}>
+                        {t('open_answer_score').replace('{score}', grade.score.toString())}
+                    </h4>
+                    {grade.feedback && <p className="text-sm text-slate-600 dark:text-zinc-400 mt-1 leading-relaxed">{grade.feedback}</p>}
+                    {grade.missingPoints.length > 0 && (
+                        <div className="mt-3">
+                            <p className="text-xs font-bold uppercase tracking-wide text-slate-500 dark:text-zinc-400">{t('open_missing_points')}</p>
+                            <ul className="list-disc list-inside text-sm text-slate-600 dark:text-zinc-300 mt-1 space-y-0.5">
+                                {grade.missingPoints.map(point => <li key={point}>{point}</li>)}
+                            </ul>
+                        </div>
+                    )}
+                    <p className="text-xs font-bold uppercase tracking-wide text-slate-500 dark:text-zinc-400 mt-3">{t('open_reference_answer')}</p>
+                    <p className="text-sm text-slate-600 dark:text-zinc-300 mt-1 leading-relaxed">{question.correctAnswer}</p>
+                    {question.explanation && <p className="text-sm text-slate-500 dark:text-zinc-400 mt-2 leading-relaxed">{question.explanation}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OpenQuestion;
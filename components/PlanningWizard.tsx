@@ -4,6 +4,7 @@ import type { CognitiveCapsule, StudyPlan } from '../types';
 import { CalendarIcon, CheckCircleIcon, XIcon, ClockIcon } from '../constants';
 import { generateStudyPlan } from '../services/planningService';
 import { useLanguage } from '../contexts/LanguageContext';
+import { getDayStart, getTodayKey } from '../services/calendarService';
 
 interface PlanningWizardProps {
     capsules: CognitiveCapsule[];
@@ -34,7 +35,7 @@ const PlanningWizard: React.FC<PlanningWizardProps> = ({ capsules, onClose, onPl
         if (!examDate || selectedCapsuleIds.length === 0) return;
         
         const selectedCapsules = capsules.filter(c => selectedCapsuleIds.includes(c.id));
-        const examTimestamp = new Date(examDate).getTime();
+        const examTimestamp = getDayStart(examDate);
         
         try {
             const plan = generateStudyPlan(
@@ -78,7 +79,7 @@ const PlanningWizard: React.FC<PlanningWizardProps> = ({ capsules, onClose, onPl
                                 <input 
                                     type="date" 
                                     value={examDate}
-                                    min={new Date().toISOString().split('T')[0]}
+                                    min={getTodayKey()}
                                     onChange={e => setExamDate(e.target.value)}
                                     className="w-full p-2 border border-slate-300 dark:border-zinc-700 rounded-lg bg-transparent dark:text-white"
                                 />
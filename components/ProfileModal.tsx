@@ -1,5 +1,5 @@
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import type { AppData, UserProfile, CognitiveCapsule, UserLevel, LearningStyle, UserRole } from '../types';
 import { XIcon, UserIcon, UploadIcon, DownloadIcon, BookOpenIcon, LayersIcon, BrainIcon, CrownIcon, TrophyIcon, MedalIcon, FlameIcon, ZapIcon, SchoolIcon, InfoIcon, MailIcon, UsersIcon } from '../constants';
 import { downloadBlob } from '../services/pdfService';
@@ -9,6 +9,11 @@ import { auth } from '../services/firebase';
 import { signOut, User } from 'firebase/auth';
 import GroupModal from './GroupModal';
 import { useLanguage } from '../contexts/LanguageContext';
+import { assignItemIds, getSchedulerParameters, DEFAULT_SCHEDULER_PARAMETERS, MIN_DESIRED_RETENTION, MAX_DESIRED_RETENTION } from '../services/srsService';
+import { simulateDailyReviewMinutes } from '../services/planningService';
+import { getProfileCalendarSettings, setCalendarSettings } from '../services/calendarService';
+import { countOptimizableReviews, optimizeMemoryParameters, MIN_REVIEWS_FOR_OPTIMIZATION } from '../services/optimizerService';
+import { isAbortError } from '../services/aiProvider';
 
 interface ProfileModalProps {
     profile: AppData;
@@ -31,8 +36,25 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onUpdateP
     const [role, setRole] = useState<UserRole>(profile.user.role || 'student');
     const [learningStyle, setLearningStyle] = useState<LearningStyle>(profile.user.learningStyle || 'textual');
     const [isPremium, setIsPremium] = useState(profile.user.isPremium || false);
+    const [timeZone, setTimeZone] = useState(getProfileCalendarSettings(profile.user).timeZone);
+    const [rolloverHour, setRolloverHour] = useState(getProfileCalendarSettings(profile.user).rolloverHour);
     
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+    const [desiredRetention, setDesiredRetention] = useState(getSchedulerParameters(profile.user).desiredRetention);
+    const [isOptimizing, setIsOptimizing] = useState(false);
+    const [optimizeProgress, setOptimizeProgress] = useState(0);
+    // L'optimisation en cours est annulée par l'élève ou à la fermeture du profil
+    const optimizeAbortRef = useRef<AbortController | null>(null);
+    useEffect(() => () => optimizeAbortRef.current?.abort(), []);
+    const optimizableReviews = useMemo(() => countOptimizableReviews(profile.capsules), [profile.capsules]);
+    const memoryParameters = profile.user.memoryParameters;
+
+    // Simulateur : minutes de révision par jour selon l'objectif de rétention
+    const retentionSimulation = useMemo(() => {
+        const params = getSchedulerParameters(profile.user);
+        const targets = Array.from(new Set([0.8, 0.85, 0.9, 0.95, desiredRetention])).sort((a, b) => a - b);
+        return targets.map(target => ({ target, minutes: simulateDailyReviewMinutes(profile.capsules, target, params) }));
+    }, [profile.capsules, profile.user, desiredRetention]);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     // Sync local state with props when they change from parent
@@ -43,6 +65,9 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onUpdateP
         setRole(profile.user.role || 'student');
         setLearningStyle(profile.user.learningStyle || 'textual');
         setIsPremium(profile.user.isPremium || false);
+        setTimeZone(getProfileCalendarSettings(profile.user).timeZone);
+        setRolloverHour(getProfileCalendarSettings(profile.user).rolloverHour);
+        setDesiredRetention(getSchedulerParameters(profile.user).desiredRetention);
     }, [profile.user]);
 
     // Check for unsaved changes in form fields
@@ -53,9 +78,12 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onUpdateP
         const isRoleChanged = role !== (profile.user.role || 'student');
         const isStyleChanged = learningStyle !== (profile.user.learningStyle || 'textual');
         const isPremiumChanged = isPremium !== (profile.user.isPremium || false);
+        const savedCalendar = getProfileCalendarSettings(profile.user);
+        const isCalendarChanged = timeZone.trim() !== savedCalendar.timeZone || rolloverHour !== savedCalendar.rolloverHour;
+        const isRetentionChanged = desiredRetention !== getSchedulerParameters(profile.user).desiredRetention;
         
-        setHasUnsavedChanges(isNameChanged || isEmailChanged || isLevelChanged || isStyleChanged || isPremiumChanged || isRoleChanged);
-    }, [name, email, level, learningStyle, isPremium, role, profile.user]);
+        setHasUnsavedChanges(isNameChanged || isEmailChanged || isLevelChanged || isStyleChanged || isPremiumChanged || isRoleChanged || isCalendarChanged || isRetentionChanged);
+    }, [name, email, level, learningStyle, isPremium, role, timeZone, rolloverHour, desiredRetention, profile.user]);
 
     const handleClose = () => {
         if (hasUnsavedChanges) {
@@ -71,6 +99,8 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onUpdateP
     };
 
     const handleSaveChanges = () => {
+        // Fuseau invalide : on retombe sur celui de l'appareil
+        const calendar = setCalendarSettings({ timeZone: timeZone.trim(), rolloverHour });
         onUpdateProfile({
             ...profile.user,
             name: name.trim(),
@@ -78,11 +108,43 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onUpdateP
             role,
             level,
             learningStyle,
-            isPremium
+            isPremium,
+            timeZone: calendar.timeZone,
+            dayRolloverHour: calendar.rolloverHour,
+            desiredRetention
         });
         // Toast handled by parent or app
     };
 
+    const handleOptimizeMemory = async () => {
+        const controller = new AbortController();
+        optimizeAbortRef.current = controller;
+        setIsOptimizing(true);
+        setOptimizeProgress(0);
+        try {
+            const result = await optimizeMemoryParameters(profile.capsules, { onProgress: setOptimizeProgress, signal: controller.signal });
+            if (!result) {
+                addToast(t('memory_model_not_enough'), 'info');
+                return;
+            }
+            onUpdateProfile({ ...profile.user, memoryParameters: result });
+            addToast(t('memory_model_success'), 'success');
+        } catch (err) {
+            if (isAbortError(err)) return;
+            console.error("Optimization error:", err);
+            addToast(t('memory_model_error'), 'error');
+        } finally {
+            optimizeAbortRef.current = null;
+            setIsOptimizing(false);
+            setOptimizeProgress(0);
+        }
+    };
+
+    const handleResetMemoryParameters = () => {
+        const { memoryParameters: _removed, ...user } = profile.user;
+        onUpdateProfile(user);
+    };
+
     const handleExport = () => {
         if (profile.capsules.length === 0) {
             addToast(t('empty_base'), 'info'); // Reused empty_base which makes sense or add another key
@@ -138,7 +200,7 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ profile, onClose, onUpdateP
 
                 if (isValidProfile) {
                    if (window.confirm(t('confirm_import_override'))) {
-                        onImport(importedData);
+                        onImport({ ...importedData, capsules: importedData.capsules.map(assignItemIds) });
                    }
                 } else {
                     addToast(t('import_error_invalid'), 'error');
@@ -312,7 +374,82 @@ ${examples}
                 {/* MODULE DE PROGRESSION - ANALYTICS */}
                 <section>
                     <h3 className="text-lg font-bold text-slate-800 dark:text-zinc-100 mb-4">{t('analytics_title')}</h3>
-                    <ProgressionDashboard capsules={profile.capsules} />
+                    <ProgressionDashboard capsules={profile.capsules} schedulerParameters={getSchedulerParameters(profile.user)} />
+                </section>
+
+                <section className="p-4 bg-slate-50 dark:bg-zinc-800/50 rounded-xl border border-slate-200 dark:border-zinc-700">
+                    <div className="flex items-center gap-2 mb-2">
+                        <BrainIcon className="w-5 h-5 text-emerald-500" />
+                        <h3 className="text-md font-semibold text-slate-700 dark:text-zinc-200">{t('memory_model_title')}</h3>
+                    </div>
+                    <div className="mb-4">
+                        <label className="flex justify-between text-sm font-medium text-slate-700 dark:text-zinc-300 mb-1">
+                            <span>{t('desired_retention')}</span>
+                            <span className="font-bold text-emerald-600 dark:text-emerald-400">{Math.round(desiredRetention * 100)}%</span>
+                        </label>
+                        <input
+                            type="range"
+                            min={MIN_DESIRED_RETENTION}
+                            max={MAX_DESIRED_RETENTION}
+                            step={0.01}
+                            value={desiredRetention}
+                            onChange={(e) => setDesiredRetention(Number(e.target.value))}
+                            className="w-full accent-emerald-600"
+                        />
+                        <p className="text-xs text-slate-500 dark:text-zinc-400 mb-2">{t('desired_retention_desc')}</p>
+                        <div className="grid grid-cols-5 gap-2">
+                            {retentionSimulation.map(({ target, minutes }) => (
+                                <button
+                                    key={target}
+                                    onClick={() => setDesiredRetention(target)}
+                                    className={`p-2 rounded-lg text-center border transition-colors ${target === desiredRetention ? 'bg-emerald-50 dark:bg-emerald-900/30 border-emerald-500' : 'bg-white dark:bg-zinc-900 border-slate-200 dark:border-zinc-700 hover:border-emerald-300'}`}
+                                >
+                                    <p className="text-xs text-slate-500 dark:text-zinc-400">{Math.round(target * 100)}%{target === DEFAULT_SCHEDULER_PARAMETERS.desiredRetention ? ' *' : ''}</p>
+                                    <p className="text-sm font-bold text-slate-800 dark:text-white">{t('minutes_per_day').replace('{count}', minutes.toString())}</p>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <p className="text-sm text-slate-500 dark:text-zinc-400 mb-2">{t('memory_model_desc')}</p>
+                    <p className="text-xs text-slate-500 dark:text-zinc-400">
+                        {memoryParameters
+                            ? t('memory_model_personal')
+                                .replace('{count}', memoryParameters.reviewCount.toString())
+                                .replace('{date}', new Date(memoryParameters.optimizedAt).toLocaleDateString())
+                            : t('memory_model_default')}
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-zinc-400 mb-3">
+                        {t('memory_model_reviews')
+                            .replace('{count}', optimizableReviews.toString())
+                            .replace('{min}', MIN_REVIEWS_FOR_OPTIMIZATION.toString())}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={handleOptimizeMemory}
+                            disabled={isOptimizing || optimizableReviews < MIN_REVIEWS_FOR_OPTIMIZATION}
+                            className="px-4 py-2 bg-emerald-600 text-white text-sm font-semibold rounded-lg hover:bg-emerald-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {isOptimizing
+                                ? t('memory_model_optimizing').replace('{percent}', Math.round(optimizeProgress * 100).toString())
+                                : t('memory_model_optimize')}
+                        </button>
+                        {isOptimizing && (
+                            <button
+                                onClick={() => optimizeAbortRef.current?.abort()}
+                                className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-zinc-300 hover:underline"
+                            >
+                                {t('cancel')}
+                            </button>
+                        )}
+                        {memoryParameters && (
+                            <button
+                                onClick={handleResetMemoryParameters}
+                                className="px-4 py-2 text-sm font-medium text-slate-600 dark:text-zinc-300 hover:underline"
+                            >
+                                {t('memory_model_reset')}
+                            </button>
+                        )}
+                    </div>
                 </section>
 
                 <hr className="border-slate-200 dark:border-zinc-800" />
@@ -450,6 +587,31 @@ ${examples}
                                     <option value="kinesthetic">{t('style_kinesthetic')}</option>
                                 </select>
                             </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-zinc-300 mb-1">{t('time_zone')}</label>
+                                    <input
+                                        type="text"
+                                        value={timeZone}
+                                        onChange={(e) => setTimeZone(e.target.value)}
+                                        placeholder="Europe/Paris"
+                                        className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-slate-200 dark:border-zinc-600 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-zinc-300 mb-1">{t('day_rollover')}</label>
+                                    <select
+                                        value={rolloverHour}
+                                        onChange={(e) => setRolloverHour(Number(e.target.value))}
+                                        className="w-full px-3 py-2 bg-white dark:bg-zinc-900 border border-slate-200 dark:border-zinc-600 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500"
+                                    >
+                                        {Array.from({ length: 7 }, (_, hour) => (
+                                            <option key={hour} value={hour}>{hour}h00</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                            <p className="text-xs text-slate-500 dark:text-zinc-400">{t('day_rollover_desc')}</p>
                             </div>
                         </div>
                     
@@ -1,6 +1,6 @@
 import React, { useMemo } from 'react';
 import type { CognitiveCapsule } from '../types';
-import { isCapsuleDue } from '../services/srsService';
+import { isCapsuleDue, getCapsuleAvailability } from '../services/srsService';
 
 interface ProgressChartProps {
     capsules: CognitiveCapsule[];
@@ -11,9 +11,13 @@ const ProgressChart: React.FC<ProgressChartProps> = ({ capsules }) => {
         let due = 0;
         let inProgress = 0;
         let isNew = 0;
+        let paused = 0;
+        const now = Date.now();
 
         capsules.forEach(capsule => {
-            if (isCapsuleDue(capsule)) {
+            if (getCapsuleAvailability(capsule, now) !== 'active') {
+                paused++;
+            } else if (isCapsuleDue(capsule)) {
                 due++;
             } else if (capsule.lastReviewed !== null) {
                 inProgress++;
@@ -27,6 +31,7 @@ const ProgressChart: React.FC<ProgressChartProps> = ({ capsules }) => {
             due: { count: due, percent: total > 0 ? (due / total) * 100 : 0 },
             inProgress: { count: inProgress, percent: total > 0 ? (inProgress / total) * 100 : 0 },
             isNew: { count: isNew, percent: total > 0 ? (isNew / total) * 100 : 0 },
+            paused: { count: paused, percent: total > 0 ? (paused / total) * 100 : 0 },
             total,
         };
     }, [capsules]);
@@ -45,6 +50,7 @@ const ProgressChart: React.FC<ProgressChartProps> = ({ capsules }) => {
         { ...stats.due, color: 'text-amber-500', label: 'À réviser' },
         { ...stats.inProgress, color: 'text-blue-500', label: 'En cours' },
         { ...stats.isNew, color: 'text-slate-400 dark:text-zinc-500', label: 'Nouveau' },
+        { ...stats.paused, color: 'text-purple-400', label: 'En pause' },
     ];
 
     const radius = 45;
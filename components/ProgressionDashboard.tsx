@@ -1,9 +1,9 @@
 
-import React from 'react';
-import { analyzeGlobalPerformance } from '../services/srsService';
+import React, { useMemo, useState } from 'react';
+import { analyzeGlobalPerformance, getReviewForecast, SchedulerParameters } from '../services/srsService';
 import type { CognitiveCapsule } from '../types';
 // Using SVG icons from constants directly to avoid import errors if lucide not installed
-import { LayersIcon, ClockIcon, AlertCircleIcon } from '../constants';
+import { LayersIcon, ClockIcon, AlertCircleIcon, CalendarIcon } from '../constants';
 import { useLanguage } from '../contexts/LanguageContext';
 
 // Fallback icons if constants are missing specific ones
@@ -17,11 +17,16 @@ const ActivitySVG = (props: React.SVGProps<SVGSVGElement>) => (
 
 interface ProgressionDashboardProps {
     capsules: CognitiveCapsule[];
+    schedulerParameters?: SchedulerParameters;
 }
 
-const ProgressionDashboard: React.FC<ProgressionDashboardProps> = ({ capsules }) => {
+const ProgressionDashboard: React.FC<ProgressionDashboardProps> = ({ capsules, schedulerParameters }) => {
     const { t } = useLanguage();
-    const stats = analyzeGlobalPerformance(capsules);
+    const stats = analyzeGlobalPerformance(capsules, schedulerParameters);
+    const [forecastDays, setForecastDays] = useState<30 | 90>(30);
+    const forecast = useMemo(() => getReviewForecast(capsules, forecastDays), [capsules, forecastDays]);
+    const maxForecastCount = Math.max(1, ...forecast.map(day => day.count));
+    const totalForecastCount = forecast.reduce((acc, day) => acc + day.count, 0);
 
     const getMasteryColor = (score: number) => {
         if (score >= 80) return 'text-emerald-500';
@@ -88,6 +93,46 @@ const ProgressionDashboard: React.FC<ProgressionDashboardProps> = ({ capsules })
                 )}
             </div>
 
+            {/* Workload forecast */}
+            <div className="p-4 bg-white dark:bg-zinc-900 border border-slate-200 dark:border-zinc-800 rounded-xl">
+                <div className="flex items-center justify-between mb-4">
+                    <h4 className="text-sm font-bold text-slate-700 dark:text-zinc-300 flex items-center gap-2">
+                        <CalendarIcon className="w-4 h-4" />
+                        {t('review_forecast')}
+                    </h4>
+                    <div className="flex bg-slate-100 dark:bg-zinc-800 rounded-lg p-0.5">
+                        {([30, 90] as const).map(days => (
+                            <button
+                                key={days}
+                                onClick={() => setForecastDays(days)}
+                                className={`px-2 py-1 text-xs font-semibold rounded-md transition-colors ${forecastDays === days ? 'bg-white dark:bg-zinc-700 text-slate-800 dark:text-white shadow-sm' : 'text-slate-500 dark:text-zinc-400'}`}
+                            >
+                                {t('forecast_days').replace('{count}', days.toString())}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex items-end gap-px h-28">
+                    {forecast.map((day, i) => (
+                        <div
+                            key={day.date}
+                            className="flex-1 h-full flex items-end"
+                            title={`${new Date(day.date).toLocaleDateString()} : ${day.count}`}
+                        >
+                            <div
+                                className={`w-full rounded-t-sm ${i === 0 ? 'bg-amber-500' : 'bg-emerald-500'} ${day.count === 0 ? 'opacity-20' : ''}`}
+                                style={{ height: `${Math.max(2, (day.count / maxForecastCount) * 100)}%` }}
+                            ></div>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-between text-xs text-slate-400 dark:text-zinc-500 mt-2">
+                    <span>{t('today')}</span>
+                    <span>{t('forecast_average').replace('{count}', (totalForecastCount / forecastDays).toFixed(1))}</span>
+                    <span>{new Date(forecast[forecast.length - 1].date).toLocaleDateString()}</span>
+                </div>
+            </div>
+
             {/* Visual Forgetting Curve Context */}
             <div className="p-4 bg-white dark:bg-zinc-900 border border-slate-200 dark:border-zinc-800 rounded-xl">
                 <h4 className="text-sm font-bold text-slate-700 dark:text-zinc-300 mb-4 flex items-center gap-2">
@@ -0,0 +1,66 @@
+
+import React, { useEffect, useRef } from 'react';
+import type { SourceSpan } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { isSourceLocated } from '../services/sourceAttributionService';
+import { AlertTriangleIcon, FileTextIcon, XIcon } from '../constants';
+
+interface SourcePanelProps {
+    sourceText: string;
+    span: SourceSpan;
+    label: string; // Élément dont on affiche la source (concept, question...)
+    onClose: () => void;
+}
+
+/**
+ * Texte d'origine de la capsule, avec le passage cité par un élément surligné et amené à l'écran.
+ * Une citation introuvable est signalée : l'élément est à vérifier.
+ */
+const SourcePanel: React.FC<SourcePanelProps> = ({ sourceText, span, label, onClose }) => {
+    const { t } = useLanguage();
+    const markRef = useRef<HTMLElement>(null);
+    const located = isSourceLocated(span);
+
+    useEffect(() => {
+        markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [span.start, span.end]);
+
+    return (
+        <div className="fixed inset-y-0 right-0 z-40 w-full max-w-lg bg-white dark:bg-zinc-900 shadow-2xl border-l border-slate-200 dark:border-zinc-800 flex flex-col animate-fade-in-fast">
+            <div className="flex items-start justify-between gap-3 p-4 border-b border-slate-200 dark:border-zinc-800">
+                <div>
+                    <h3 className="flex items-center gap-2 font-bold text-slate-800 dark:text-zinc-100">
+                        <FileTextIcon className="w-5 h-5 text-emerald-500" />
+                        {t('source_panel_title')}
+                    </h3>
+                    <p className="text-sm text-slate-500 dark:text-zinc-400 mt-1">{label}</p>
+                </div>
+                <button onClick={onClose} className="p-1 rounded-full text-slate-400 hover:bg-slate-100 dark:hover:bg-zinc-800" aria-label={t('close')}>
+                    <XIcon className="w-5 h-5" />
+                </button>
+            </div>
+            {!located && (
+                <div className="m-4 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-200">
+                    <p className="flex items-center gap-2 font-semibold">
+                        <AlertTriangleIcon className="w-4 h-4" />
+                        {t('source_not_found')}
+                    </p>
+                    <p className="mt-1 italic">« {span.quote} »</p>
+                </div>
+            )}
+            <div className="flex-grow overflow-y-auto p-4 text-sm text-slate-600 dark:text-zinc-300 leading-relaxed whitespace-pre-wrap">
+                {located ? (
+                    <>
+                        {sourceText.slice(0, span.start)}
+                        <mark ref={markRef} className="bg-amber-200 dark:bg-amber-500/40 text-slate-900 dark:text-white rounded px-0.5">
+                            {sourceText.slice(span.start, span.end)}
+                        </mark>
+                        {sourceText.slice(span.end)}
+                    </>
+                ) : sourceText}
+            </div>
+        </div>
+    );
+};
+
+export default SourcePanel;
@@ -0,0 +1,136 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatMessage, CognitiveCapsule, FlashcardContent } from '../types';
+import { useLanguage } from '../contexts/LanguageContext';
+import { askTutor } from '../services/aiService';
+import { isAbortError } from '../services/aiProvider';
+import { appendChatMessages, createFlashcardFromAnswer, MAX_TUTOR_QUESTION_CHARS } from '../services/tutorService';
+import { BrainIcon, LayersIcon, RefreshCwIcon, SendIcon } from '../constants';
+
+interface TutorChatProps {
+    capsule: CognitiveCapsule;
+    onUpdateMessages: (messages: ChatMessage[]) => void;
+    onCreateFlashcard?: (card: FlashcardContent) => void;
+}
+
+/**
+ * Conversation avec le tuteur de la capsule. Les messages sont ceux de `capsule.tutorChat` :
+ * chaque question puis chaque réponse est remontée au parent pour être enregistrée.
+ */
+const TutorChat: React.FC<TutorChatProps> = ({ capsule, onUpdateMessages, onCreateFlashcard }) => {
+    const { language, t } = useLanguage();
+    const messages = capsule.tutorChat || [];
+    const [question, setQuestion] = useState('');
+    const [isAsking, setIsAsking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const endRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [messages.length]);
+
+    const handleAsk = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = question.trim();
+        if (!text || isAsking) return;
+        abortRef.current = new AbortController();
+        const withQuestion = appendChatMessages(messages, { role: 'user', content: text, createdAt: Date.now() });
+        onUpdateMessages(withQuestion);
+        setQuestion('');
+        setIsAsking(true);
+        setError(null);
+        try {
+            const answer = await askTutor(capsule, messages, text, language, { signal: abortRef.current.signal });
+            onUpdateMessages(appendChatMessages(withQuestion, { ...answer, createdAt: Date.now() }));
+        } catch (err) {
+            if (isAbortError(err)) return;
+            setError(err instanceof Error ? err.message : 'Une erreur inconnue est survenue.');
+        } finally {
+            setIsAsking(false);
+        }
+    };
+
+    const handleCreateFlashcard = (index: number) => {
+        const card = createFlashcardFromAnswer(messages, index);
+        if (card) onCreateFlashcard?.(card);
+    };
+
+    return (
+        <div className="bg-slate-50 dark:bg-zinc-900/50 rounded-xl border border-slate-100 dark:border-zinc-800 p-4">
+            {messages.length === 0 ? (
+                <p className="p-4 text-center text-sm text-slate-600 dark:text-zinc-400">{t('tutor_empty')}</p>
+            ) : (
+                <div className="space-y-3 max-h-96 overflow-y-auto mb-4 pr-1">
+                    {messages.map((message, index) => (
+                        <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                            <div className={`max-w-[85%] p-3 rounded-xl text-sm leading-relaxed ${message.role === 'user' ? 'bg-emerald-600 text-white' : 'bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200 border border-slate-200 dark:border-zinc-700'}`}>
+                                <p className="whitespace-pre-wrap">{message.content}</p>
+                                {message.role === 'model' && (
+                                    <div className="mt-2 flex flex-wrap items-center gap-2">
+                                        {message.citedConcepts && message.citedConcepts.length > 0 && (
+                                            <span className="text-xs text-slate-500 dark:text-zinc-400">
+                                                {t('tutor_based_on')} {message.citedConcepts.map(concept => (
+                                                    <span key={concept} className="inline-block ml-1 px-2 py-0.5 rounded-full bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300 font-medium">{concept}</span>
+                                                ))}
+                                            </span>
+                                        )}
+                                        {onCreateFlashcard && (
+                                            <button
+                                                onClick={() => handleCreateFlashcard(index)}
+                                                className="flex items-center gap-1 text-xs font-semibold text-emerald-600 dark:text-emerald-400 hover:underline"
+                                            >
+                                                <LayersIcon className="w-3.5 h-3.5" />
+                                                {t('tutor_to_flashcard')}
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    {isAsking && (
+                        <div className="flex items-center gap-2 text-sm text-slate-500 dark:text-zinc-400">
+                            <BrainIcon className="w-4 h-4 animate-pulse" />
+                            {t('tutor_thinking')}
+                        </div>
+                    )}
+                    <div ref={endRef} />
+                </div>
+            )}
+            {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+            <form onSubmit={handleAsk} className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={question}
+                    onChange={e => setQuestion(e.target.value)}
+                    maxLength={MAX_TUTOR_QUESTION_CHARS}
+                    placeholder={t('tutor_placeholder')}
+                    disabled={isAsking}
+                    className="flex-grow px-4 py-2 rounded-xl border border-slate-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-slate-700 dark:text-zinc-200 text-sm focus:ring-2 focus:ring-emerald-500 outline-none disabled:opacity-70"
+                />
+                <button
+                    type="submit"
+                    disabled={!question.trim() || isAsking}
+                    className="p-2.5 bg-emerald-600 text-white rounded-xl hover:bg-emerald-700 disabled:bg-slate-300 dark:disabled:bg-zinc-700 disabled:cursor-not-allowed transition-colors"
+                    aria-label={t('tutor_send')}
+                >
+                    {isAsking ? <RefreshCwIcon className="w-5 h-5 animate-spin" /> : <SendIcon className="w-5 h-5" />}
+                </button>
+            </form>
+            {messages.length > 0 && (
+                <button
+                    onClick={() => onUpdateMessages([])}
+                    disabled={isAsking}
+                    className="mt-3 text-xs text-slate-500 dark:text-zinc-400 hover:underline disabled:opacity-50"
+                >
+                    {t('tutor_clear')}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default TutorChat;
@@ -1,6 +1,6 @@
 
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import type { VisualizationData, MindMapNode } from '../types';
+import type { VisualizationData, MindMapNode, TimelineEvent } from '../types';
 import { DownloadIcon, Trash2Icon, RefreshCwIcon } from '../constants';
 import html2canvas from 'html2canvas';
 
@@ -100,11 +100,29 @@ const RadialMindMap: React.FC<{ data: MindMapNode }> = ({ data }) => {
     );
 };
 
+// --- TIMELINE COMPONENT ---
+
+const Timeline: React.FC<{ events: TimelineEvent[] }> = ({ events }) => (
+    <div className="w-[800px] bg-slate-50 dark:bg-zinc-900 mx-auto rounded-xl p-8">
+        <ol className="relative border-l-2 border-emerald-300 dark:border-emerald-800 ml-24">
+            {events.map(event => (
+                <li key={event.id} className="relative mb-8 last:mb-0 pl-6">
+                    <span className="absolute -left-[9px] top-1.5 w-4 h-4 rounded-full bg-emerald-500 border-2 border-white dark:border-zinc-900" />
+                    <span className="absolute -left-28 top-0.5 w-24 text-right text-sm font-bold text-emerald-700 dark:text-emerald-400">{event.date}</span>
+                    <h5 className="font-semibold text-slate-800 dark:text-zinc-100">{event.title}</h5>
+                    {event.description && <p className="text-sm text-slate-600 dark:text-zinc-400 leading-relaxed mt-1">{event.description}</p>}
+                </li>
+            ))}
+        </ol>
+    </div>
+);
+
 // --- MAIN COMPONENT ---
 
 const VisualizationViewer: React.FC<VisualizationViewerProps> = ({ data, onUpdate, onDelete }) => {
     const contentRef = useRef<HTMLDivElement>(null);
     const [isDownloading, setIsDownloading] = useState(false);
+    const isMindMap = data.type === 'mindmap';
 
     const handleDownload = async () => {
         if (!contentRef.current) return;
@@ -113,7 +131,7 @@ const VisualizationViewer: React.FC<VisualizationViewerProps> = ({ data, onUpdat
             const clone = contentRef.current.cloneNode(true) as HTMLElement;
             // Force A4-ish layout props for the clone
             clone.style.width = '800px';
-            clone.style.height = '600px';
+            if (isMindMap) clone.style.height = '600px';
             clone.style.transform = 'none';
             clone.style.position = 'fixed';
             clone.style.top = '-9999px';
@@ -124,7 +142,7 @@ const VisualizationViewer: React.FC<VisualizationViewerProps> = ({ data, onUpdat
             
             const link = document.createElement('a');
             link.href = canvas.toDataURL("image/png");
-            link.download = `Memoraid_MindMap_${Date.now()}.png`;
+            link.download = `Memoraid_${isMindMap ? 'MindMap' : 'Timeline'}_${Date.now()}.png`;
             link.click();
         } catch (e) {
             alert("Erreur export image");
@@ -133,13 +151,11 @@ const VisualizationViewer: React.FC<VisualizationViewerProps> = ({ data, onUpdat
         }
     };
 
-    if (data.type !== 'mindmap') return null;
-
     return (
         <div className="bg-white dark:bg-zinc-900 rounded-2xl border border-slate-200 dark:border-zinc-800 shadow-sm overflow-hidden">
             <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-zinc-800 bg-slate-50/50 dark:bg-zinc-900/50">
                 <h4 className="text-sm font-bold text-slate-700 dark:text-zinc-200 uppercase tracking-wide">
-                    Carte Mentale (Mind Map)
+                    {isMindMap ? 'Carte Mentale (Mind Map)' : 'Frise chronologique'}
                 </h4>
                 <div className="flex items-center gap-2">
                     <button onClick={handleDownload} disabled={isDownloading} className="p-2 text-emerald-600 hover:bg-emerald-50 rounded-lg">
@@ -154,7 +170,7 @@ const VisualizationViewer: React.FC<VisualizationViewerProps> = ({ data, onUpdat
             {/* Scroll container for mobile viewing */}
             <div className="overflow-auto p-4 flex justify-center">
                 <div ref={contentRef} className="bg-white dark:bg-zinc-900 inline-block p-4 rounded-xl">
-                    <RadialMindMap data={data.data as MindMapNode} />
+                    {isMindMap ? <RadialMindMap data={data.data as MindMapNode} /> : <Timeline events={data.data as TimelineEvent[]} />}
                 </div>
             </div>
         </div>
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { AIQueueStatus, getAIQueueStatus, subscribeToAIQueue } from '../services/aiRequestQueue';
+
+/**
+ * État de la file des appels IA (en cours, en attente, pause après une limite de débit),
+ * mis à jour à chaque changement.
+ */
+export const useAIQueueStatus = (): AIQueueStatus => useSyncExternalStore(subscribeToAIQueue, getAIQueueStatus);
@@ -28,6 +28,16 @@ export const translations = {
         school_button: "Scolaire",
         generate_button: "Générer la Capsule",
         analyzing: "Analyse en cours...",
+        long_document_hint: "Document long : il sera analysé partie par partie.",
+        force_regenerate: "Forcer une nouvelle analyse (ignorer le cache)",
+        ai_rate_limited: "Limite de requêtes IA atteinte : les demandes en attente reprendront vers {time}.",
+        streaming_exercises: "Préparation des exercices : {quiz} questions, {flashcards} flashcards",
+        suspicious_input_warning: "Ce texte contient des consignes adressées à l'IA : elles seront traitées comme du contenu et ignorées.",
+        split_single: "Une seule capsule",
+        split_series: "Une série de capsules",
+        progress_map: "Analyse de la partie {completed}/{total}",
+        progress_reduce: "Assemblage des parties...",
+        series_part: "Partie {index}/{total} · {title}",
         
         // Loading
         loading_title: "Création de votre capsule...",
@@ -78,6 +88,64 @@ export const translations = {
         examples: "Exemples Pratiques",
         memory_aid_sketch: "Croquis Aide-Mémoire",
         generate_sketch: "Générer le croquis",
+        diagrams: "Diagrammes",
+        diagrams_empty: "Générez une carte mentale des concepts, ou une frise pour un contenu historique.",
+        generate_mindmap: "Carte mentale",
+        generate_timeline: "Frise chronologique",
+        diagram_added: "Diagramme ajouté !",
+        narration_listen: "Écouter la leçon",
+        narration_stop: "Arrêter la leçon",
+        regenerate_at_level: "Adapter au niveau :",
+        regenerating_level: "Adaptation...",
+        level_regenerated: "Capsule adaptée au niveau choisi !",
+        tutor_title: "Tuteur",
+        tutor_empty: "Posez une question sur cette capsule : le tuteur répond à partir de son contenu et du cours d'origine.",
+        tutor_placeholder: "Votre question...",
+        tutor_send: "Envoyer la question",
+        tutor_thinking: "Le tuteur réfléchit...",
+        tutor_based_on: "D'après :",
+        tutor_to_flashcard: "En faire une flashcard",
+        tutor_flashcard_added: "Flashcard ajoutée !",
+        tutor_clear: "Effacer la conversation",
+        coaching_modes: "Coaching :",
+        coaching_oral: "Oral",
+        coaching_exam: "Examen blanc",
+        coaching_solver: "Résolution guidée",
+        coaching_no_questions: "Cette capsule n'a pas de questions pour cette séance.",
+        coaching_question_progress: "Question {index}/{total}",
+        coaching_time_left: "{seconds} s",
+        coaching_listen_question: "Réécouter la question",
+        coaching_record: "Répondre à voix haute",
+        coaching_stop_recording: "Arrêter l'enregistrement",
+        coaching_speech_unsupported: "La dictée vocale n'est pas disponible dans ce navigateur : tapez votre réponse.",
+        coaching_transcript_placeholder: "Votre réponse (la transcription reste modifiable)...",
+        coaching_submit: "Valider",
+        coaching_report: "Bilan de la séance",
+        coaching_final_score: "Score final : {score}/100",
+        coaching_result_logged: "Résultat enregistré dans l'historique de la capsule.",
+        coaching_your_answer: "Votre réponse :",
+        coaching_no_answer: "(sans réponse)",
+        coaching_timed_out: "Temps écoulé",
+        coaching_solver_intro: "Collez l'énoncé d'un exercice : le coach vous guide étape par étape, sans vous donner la réponse.",
+        coaching_problem_placeholder: "Énoncé du problème...",
+        coaching_start: "Commencer",
+        coaching_step_placeholder: "Votre prochaine étape...",
+        coaching_coach_thinking: "Le coach réfléchit...",
+        coaching_give_up: "Abandonner",
+        coaching_solved: "Problème résolu en {steps} étape(s) !",
+        coaching_abandoned: "Séance arrêtée avant la solution.",
+        show_in_source: "Voir dans la source",
+        source_panel_title: "Texte d'origine",
+        source_not_found: "Passage introuvable dans le texte d'origine : vérifiez cet élément.",
+        language_fr: "français",
+        language_en: "anglais",
+        translate_to: "Traduire en {language}",
+        translation_update: "Mettre à jour la traduction en {language}",
+        translating: "Traduction...",
+        capsule_translated: "Traduction enregistrée comme capsule liée.",
+        translated_from: "Traduction, langue d'origine : {language}",
+        mode_bilingual_flashcards: "Flashcards bilingues",
+        bilingual_needs_translation: "Traduisez d'abord la capsule.",
         sketching: "L'IA dessine...",
         info: "Info :",
         erase: "Effacer",
@@ -124,6 +192,13 @@ export const translations = {
         check_answer: "Vérifier la réponse",
         next_question: "Question suivante",
         see_results: "Voir les résultats",
+        open_question: "Question ouverte",
+        open_answer_placeholder: "Rédigez votre réponse avec vos propres mots...",
+        grade_answer: "Corriger ma réponse",
+        grading_answer: "Correction en cours...",
+        open_answer_score: "Score : {score}/100",
+        open_missing_points: "Points manquants",
+        open_reference_answer: "Réponse attendue",
 
         // Profile
         my_space: "Mon Espace Apprenant",
@@ -137,6 +212,20 @@ export const translations = {
         xp_rule_flashcard: "Session Flashcards",
         xp_rule_social: "Activités Sociales",
         analytics_title: "Analytics & Progression",
+        memory_model_title: "Mémoire personnalisée",
+        desired_retention: "Objectif de rétention",
+        desired_retention_desc: "Plus l'objectif est haut, plus les révisions sont rapprochées. Temps estimé pour votre bibliothèque (* = par défaut) :",
+        minutes_per_day: "{count} min/j",
+        memory_model_desc: "Ajuste la courbe d'oubli à votre historique de révisions pour mieux planifier vos révisions.",
+        memory_model_default: "Paramètres par défaut utilisés.",
+        memory_model_personal: "Paramètres personnels ajustés sur {count} révisions le {date}.",
+        memory_model_reviews: "{count} / {min} révisions exploitables.",
+        memory_model_optimize: "Optimiser mes paramètres",
+        memory_model_optimizing: "Optimisation... {percent} %",
+        memory_model_reset: "Revenir aux paramètres par défaut",
+        memory_model_not_enough: "Pas encore assez de révisions pour personnaliser le modèle.",
+        memory_model_success: "Paramètres de mémoire mis à jour !",
+        memory_model_error: "L'optimisation des paramètres a échoué.",
         personal_info: "Informations personnelles",
         connected_account: "Compte connecté",
         my_classes: "Mes Classes",
@@ -158,6 +247,9 @@ export const translations = {
         level_intermediate: "Intermédiaire (Standard)",
         level_advanced: "Avancé (Technique et précis)",
         learning_style: "Style d'apprentissage",
+        time_zone: "Fuseau horaire",
+        day_rollover: "Début de journée",
+        day_rollover_desc: "Vos séries, votre agenda et vos révisions passent au jour suivant à cette heure.",
         style_textual: "Textuel (Lecteur)",
         style_visual: "Visuel (Analogies, Images)",
         style_auditory: "Auditif (Conversationnel)",
@@ -199,6 +291,50 @@ export const translations = {
         overdue: "En retard (Risque d'oubli)",
         high_priority: "Priorité absolue",
         memory_state: "État de la mémoire",
+        leech_title: "Cette capsule vous résiste",
+        leech_desc: "Plusieurs révisions ratées d'affilée : changez d'approche plutôt que de répéter.",
+        leech_simplify: "Explications simplifiées",
+        leech_split: "Scinder la capsule",
+        leech_suspend: "Suspendre",
+        leech_simplified: "Explications simplifiées générées !",
+        leech_simplify_failed: "{count} concept(s) n'ont pas pu être simplifiés : leur explication est conservée.",
+        cloze_title: "Cartes à trous",
+        cloze_generate: "Générer depuis les concepts",
+        cloze_placeholder: "La {{c1::mitochondrie}} produit l'{{c2::ATP}} de la cellule.",
+        cloze_extra_placeholder: "Complément affiché au verso (facultatif)",
+        cloze_insert: "Masquer la sélection",
+        cloze_add: "Ajouter",
+        cloze_added: "{count} carte(s) à trous ajoutée(s) !",
+        cloze_no_deletion: "Ajoutez au moins un trou {{c1::...}} au texte.",
+        cloze_generation_empty: "Aucune carte à trous n'a pu être générée.",
+        leech_filter: "Difficiles",
+        validation_title: "{count} problème(s) non corrigé(s) dans le contenu généré",
+        validation_removed: "retiré de la capsule",
+        validation_missing_field: "champ vide",
+        validation_too_few_options: "moins de 2 choix",
+        validation_answer_not_in_options: "la bonne réponse ne fait pas partie des choix",
+        validation_empty_flashcard: "recto ou verso vide",
+        validation_invalid_cloze: "texte à trous sans trou valide",
+        validation_wrong_language: "pas dans la langue demandée",
+        validation_empty_list: "aucun élément",
+        validation_field_title: "Titre",
+        validation_field_summary: "Résumé",
+        validation_field_keyConcepts: "Notion",
+        validation_field_quiz: "Question",
+        validation_field_flashcards: "Flashcard",
+        paused_capsules: "En pause",
+        pause_reviews: "Mettre en pause",
+        bury_until_tomorrow: "Reporter à demain",
+        snooze_until: "Reporter",
+        suspend_capsule: "Suspendre les révisions",
+        capsule_suspended: "Révisions suspendues",
+        capsule_buried: "Reportée à demain",
+        capsule_snoozed: "En pause jusqu'au {date}",
+        capsule_paused_desc: "Cette capsule n'apparaît plus dans vos révisions.",
+        resume_reviews: "Reprendre",
+        review_forecast: "Prévision des révisions",
+        forecast_days: "{count} j",
+        forecast_average: "{count} / jour en moyenne",
         avg_retention: "Rétention moyenne",
         total_forget: "Oubli total",
         solid_memory: "Mémoire solide",
@@ -285,6 +421,16 @@ export const translations = {
         school_button: "School",
         generate_button: "Generate Capsule",
         analyzing: "Analyzing...",
+        long_document_hint: "Long document: it will be analyzed part by part.",
+        force_regenerate: "Force a new analysis (ignore the cache)",
+        ai_rate_limited: "AI request limit reached: pending requests will resume around {time}.",
+        streaming_exercises: "Preparing exercises: {quiz} questions, {flashcards} flashcards",
+        suspicious_input_warning: "This text contains instructions aimed at the AI: they will be treated as content and ignored.",
+        split_single: "A single capsule",
+        split_series: "A series of capsules",
+        progress_map: "Analyzing part {completed}/{total}",
+        progress_reduce: "Putting the parts together...",
+        series_part: "Part {index}/{total} · {title}",
         
         // Loading
         loading_title: "Creating your capsule...",
@@ -335,6 +481,64 @@ export const translations = {
         examples: "Practical Examples",
         memory_aid_sketch: "Memory Aid Sketch",
         generate_sketch: "Generate Sketch",
+        diagrams: "Diagrams",
+        diagrams_empty: "Generate a mind map of the concepts, or a timeline for historical content.",
+        generate_mindmap: "Mind map",
+        generate_timeline: "Timeline",
+        diagram_added: "Diagram added!",
+        narration_listen: "Listen to the lesson",
+        narration_stop: "Stop the lesson",
+        regenerate_at_level: "Adapt to level:",
+        regenerating_level: "Adapting...",
+        level_regenerated: "Capsule adapted to the chosen level!",
+        tutor_title: "Tutor",
+        tutor_empty: "Ask a question about this capsule: the tutor answers from its content and the original course.",
+        tutor_placeholder: "Your question...",
+        tutor_send: "Send question",
+        tutor_thinking: "The tutor is thinking...",
+        tutor_based_on: "Based on:",
+        tutor_to_flashcard: "Turn into a flashcard",
+        tutor_flashcard_added: "Flashcard added!",
+        tutor_clear: "Clear conversation",
+        coaching_modes: "Coaching:",
+        coaching_oral: "Oral",
+        coaching_exam: "Mock exam",
+        coaching_solver: "Guided solving",
+        coaching_no_questions: "This capsule has no questions for this session.",
+        coaching_question_progress: "Question {index}/{total}",
+        coaching_time_left: "{seconds} s",
+        coaching_listen_question: "Replay the question",
+        coaching_record: "Answer out loud",
+        coaching_stop_recording: "Stop recording",
+        coaching_speech_unsupported: "Voice dictation is not available in this browser: type your answer.",
+        coaching_transcript_placeholder: "Your answer (the transcript can be edited)...",
+        coaching_submit: "Submit",
+        coaching_report: "Session report",
+        coaching_final_score: "Final score: {score}/100",
+        coaching_result_logged: "Result saved to the capsule history.",
+        coaching_your_answer: "Your answer:",
+        coaching_no_answer: "(no answer)",
+        coaching_timed_out: "Time's up",
+        coaching_solver_intro: "Paste an exercise: the coach guides you step by step without giving you the answer.",
+        coaching_problem_placeholder: "Problem statement...",
+        coaching_start: "Start",
+        coaching_step_placeholder: "Your next step...",
+        coaching_coach_thinking: "The coach is thinking...",
+        coaching_give_up: "Give up",
+        coaching_solved: "Problem solved in {steps} step(s)!",
+        coaching_abandoned: "Session stopped before the solution.",
+        show_in_source: "Show in source",
+        source_panel_title: "Original text",
+        source_not_found: "Passage not found in the original text: check this element.",
+        language_fr: "French",
+        language_en: "English",
+        translate_to: "Translate into {language}",
+        translation_update: "Update the {language} translation",
+        translating: "Translating...",
+        capsule_translated: "Translation saved as a linked capsule.",
+        translated_from: "Translation, original language: {language}",
+        mode_bilingual_flashcards: "Bilingual flashcards",
+        bilingual_needs_translation: "Translate the capsule first.",
         sketching: "AI is sketching...",
         info: "Info:",
         erase: "Erase",
@@ -381,6 +585,13 @@ export const translations = {
         check_answer: "Check answer",
         next_question: "Next question",
         see_results: "See results",
+        open_question: "Open question",
+        open_answer_placeholder: "Write your answer in your own words...",
+        grade_answer: "Grade my answer",
+        grading_answer: "Grading...",
+        open_answer_score: "Score: {score}/100",
+        open_missing_points: "Missing points",
+        open_reference_answer: "Expected answer",
         
         // Profile
         my_space: "My Learning Space",
@@ -394,6 +605,20 @@ export const translations = {
         xp_rule_flashcard: "Flashcards Session",
         xp_rule_social: "Social Activity",
         analytics_title: "Analytics & Progress",
+        memory_model_title: "Personalized Memory",
+        desired_retention: "Retention target",
+        desired_retention_desc: "The higher the target, the closer the reviews. Estimated time for your library (* = default):",
+        minutes_per_day: "{count} min/d",
+        memory_model_desc: "Fits the forgetting curve to your review history to schedule your reviews better.",
+        memory_model_default: "Using default parameters.",
+        memory_model_personal: "Personal parameters fitted on {count} reviews on {date}.",
+        memory_model_reviews: "{count} / {min} usable reviews.",
+        memory_model_optimize: "Optimize my parameters",
+        memory_model_optimizing: "Optimizing... {percent}%",
+        memory_model_reset: "Reset to default parameters",
+        memory_model_not_enough: "Not enough reviews yet to personalize the model.",
+        memory_model_success: "Memory parameters updated!",
+        memory_model_error: "Parameter optimization failed.",
         personal_info: "Personal Information",
         connected_account: "Connected Account",
         my_classes: "My Classes",
@@ -415,6 +640,9 @@ export const translations = {
         level_intermediate: "Intermediate (Standard)",
         level_advanced: "Advanced (Technical and precise)",
         learning_style: "Learning Style",
+        time_zone: "Time zone",
+        day_rollover: "Day starts at",
+        day_rollover_desc: "Your streak, agenda and reviews move to the next day at this hour.",
         style_textual: "Textual (Reader)",
         style_visual: "Visual (Analogies, Images)",
         style_auditory: "Auditory (Conversational)",
@@ -456,6 +684,50 @@ export const translations = {
         overdue: "Overdue (Risk of forgetting)",
         high_priority: "High priority",
         memory_state: "Memory State",
+        leech_title: "This capsule is giving you trouble",
+        leech_desc: "Several failed reviews in a row: change approach instead of repeating.",
+        leech_simplify: "Simpler explanations",
+        leech_split: "Split the capsule",
+        leech_suspend: "Suspend",
+        leech_simplified: "Simpler explanations generated!",
+        leech_simplify_failed: "{count} concept(s) could not be simplified: their explanation was kept.",
+        cloze_title: "Cloze cards",
+        cloze_generate: "Generate from concepts",
+        cloze_placeholder: "The {{c1::mitochondria}} produces the cell's {{c2::ATP}}.",
+        cloze_extra_placeholder: "Extra shown on the back (optional)",
+        cloze_insert: "Hide selection",
+        cloze_add: "Add",
+        cloze_added: "{count} cloze card(s) added!",
+        cloze_no_deletion: "Add at least one {{c1::...}} deletion to the text.",
+        cloze_generation_empty: "No cloze cards could be generated.",
+        leech_filter: "Struggling",
+        validation_title: "{count} unresolved issue(s) in the generated content",
+        validation_removed: "removed from the capsule",
+        validation_missing_field: "empty field",
+        validation_too_few_options: "fewer than 2 choices",
+        validation_answer_not_in_options: "the correct answer is not one of the choices",
+        validation_empty_flashcard: "empty front or back",
+        validation_invalid_cloze: "cloze text without a valid deletion",
+        validation_wrong_language: "not in the requested language",
+        validation_empty_list: "no items",
+        validation_field_title: "Title",
+        validation_field_summary: "Summary",
+        validation_field_keyConcepts: "Concept",
+        validation_field_quiz: "Question",
+        validation_field_flashcards: "Flashcard",
+        paused_capsules: "Paused",
+        pause_reviews: "Pause reviews",
+        bury_until_tomorrow: "Postpone to tomorrow",
+        snooze_until: "Snooze",
+        suspend_capsule: "Suspend reviews",
+        capsule_suspended: "Reviews suspended",
+        capsule_buried: "Postponed to tomorrow",
+        capsule_snoozed: "Paused until {date}",
+        capsule_paused_desc: "This capsule no longer shows up in your reviews.",
+        resume_reviews: "Resume",
+        review_forecast: "Review forecast",
+        forecast_days: "{count} d",
+        forecast_average: "{count} / day on average",
         avg_retention: "Average Retention",
         total_forget: "Total Forget",
         solid_memory: "Solid Memory",
@@ -517,3 +789,5 @@ export const translations = {
         default_username: "Learner",
     }
 };
+
+export type TranslationKey = keyof typeof translations['fr'];
@@ -0,0 +1,273 @@
+
+import type { CapsuleSeriesLink, ChatMessage, CoachingMode, FlashcardContent, GenerationProfile, KeyConcept, MindMapNode, OpenAnswerGrade, QuizQuestion, TimelineEvent, UserLevel, VisualizationData, SourceType, UserProfile, ValidationIssue } from '../types';
+import type { Language } from '../i18n/translations';
+import type { FieldFix, FieldRepairRequest } from './capsuleValidationService';
+import type { PartialCapsule } from './streamingJsonService';
+
+/**
+ * Contrat commun à tous les fournisseurs d'IA (Gemini, serveur local compatible OpenAI, mock).
+ * Les composants ne parlent jamais directement à un fournisseur : ils passent par aiService.
+ */
+
+export type AIProviderName = 'gemini' | 'local' | 'mock';
+
+// Contenu d'une capsule tel que produit par le modèle (sans les champs de suivi ajoutés à l'enregistrement)
+export interface GeneratedCapsule {
+  title: string;
+  summary: string;
+  keyConcepts: KeyConcept[];
+  examples: string[];
+  quiz: QuizQuestion[];
+  flashcards: FlashcardContent[];
+  sourceType?: SourceType;
+  series?: CapsuleSeriesLink;
+  validationIssues?: ValidationIssue[]; // Ce que la validation n'a pas pu corriger
+  // Ajouts selon le profil de l'élève (voir GenerationOptions.profile)
+  visualizations?: VisualizationData[];
+  narrationScript?: string;
+  generatedFor?: GenerationProfile;
+  sourceText?: string; // Ajouté par aiService : le texte envoyé au modèle
+}
+
+export interface CoachingSessionInfo {
+  sessionId: string;
+  startTime: string;
+  instructions: string;
+}
+
+export interface GeneratedImage {
+  imageData: string; // base64
+  mimeType: string;
+  description: string;
+}
+
+export interface SpeechAudio {
+  audioData: string; // base64
+  mimeType: string; // 'audio/pcm' = PCM 16 bits mono brut, sinon format décodable par le navigateur (wav, mp3...)
+  sampleRate?: number; // Requis pour 'audio/pcm'
+}
+
+export interface CapsuleRequest {
+  inputText: string;
+  sourceType: SourceType;
+  language: Language;
+  profile?: GenerationProfile; // Adapte profondeur, vocabulaire, difficulté et exemples
+}
+
+// Un morceau d'un long document (étape "map" de la génération découpée)
+export interface CapsulePartRequest extends CapsuleRequest {
+  partIndex: number;
+  partCount: number;
+  heading?: string;
+}
+
+export interface PartSummary {
+  title: string;
+  summary: string;
+}
+
+// Un long document donne une seule capsule, ou une série de capsules liées (une par morceau)
+export type CapsuleSplitMode = 'single' | 'series';
+
+export interface GenerationProgress {
+  stage: 'map' | 'reduce';
+  completed: number;
+  total: number;
+}
+
+export interface ConceptRequest {
+  title: string;
+  concept: string;
+  context: string;
+  language: Language;
+  mode: 'deeper' | 'simpler';
+}
+
+// Cartes à trous tirées des concepts clés d'une capsule
+export interface ClozeRequest {
+  title: string;
+  keyConcepts: KeyConcept[];
+  language: Language;
+}
+
+// Contenu d'une capsule déjà générée, repris pour les diagrammes et le script audio
+export interface CapsuleContentRequest {
+  title: string;
+  summary: string;
+  keyConcepts: KeyConcept[];
+  examples: string[];
+  language: Language;
+}
+
+export interface NarrationRequest extends CapsuleContentRequest {
+  level: UserLevel;
+}
+
+// Question posée au tuteur d'une capsule, avec la fin de la conversation
+export interface TutorRequest extends CapsuleContentRequest {
+  sourceText?: string;
+  history: ChatMessage[];
+  question: string;
+}
+
+export interface TutorAnswer {
+  answer: string;
+  citedConcepts: string[]; // Noms des concepts clés utilisés, tels qu'écrits dans la capsule
+}
+
+// Résolution guidée : l'énoncé choisi par l'élève et les échanges déjà faits
+export interface SolverRequest {
+  title: string;
+  keyConcepts: KeyConcept[];
+  problem: string;
+  history: ChatMessage[];
+  language: Language;
+}
+
+export interface SolverStep {
+  message: string; // Retour sur l'étape de l'élève et question pour la suivante, sans donner la réponse
+  solved: boolean; // L'élève a atteint la solution lui-même
+}
+
+// Textes d'une capsule à traduire : questions et flashcards gardent leur identifiant
+export interface TranslatableCapsule {
+  title: string;
+  summary: string;
+  keyConcepts: { concept: string; explanation: string }[];
+  examples: string[];
+  quiz: { id: string; question: string; options: string[]; correctAnswer: string; explanation: string; rubric?: string[] }[];
+  flashcards: { id: string; front: string; back: string }[];
+}
+
+export interface TranslationRequest {
+  content: TranslatableCapsule;
+  from: Language;
+  to: Language;
+}
+
+// Réponse rédigée d'un élève à une question ouverte
+export interface GradingRequest {
+  question: string;
+  referenceAnswer: string;
+  rubric: string[];
+  answer: string;
+  language: Language;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string; // Modèle de texte utilisé (fait partie de la clé du cache de génération)
+  // `signal` (dernier paramètre de chaque appel) interrompt la requête en cours ; l'appel échoue alors avec une AbortError
+  generateCapsule(request: CapsuleRequest, signal?: AbortSignal): Promise<GeneratedCapsule>;
+  // Même capsule, reçue au fil de l'eau : `onPartial` est appelé à chaque champ lisible, `signal` interrompt la réception
+  streamCapsule(request: CapsuleRequest, onPartial: (partial: PartialCapsule) => void, signal?: AbortSignal): Promise<GeneratedCapsule>;
+  generateCapsulePart(request: CapsulePartRequest, signal?: AbortSignal): Promise<GeneratedCapsule>;
+  mergePartSummaries(parts: PartSummary[], language: Language, signal?: AbortSignal): Promise<PartSummary>;
+  repairFields(title: string, requests: FieldRepairRequest[], language: Language, signal?: AbortSignal): Promise<FieldFix[]>;
+  regenerateQuiz(title: string, language: Language, signal?: AbortSignal): Promise<QuizQuestion[]>;
+  expandKeyConcept(request: ConceptRequest, signal?: AbortSignal): Promise<string>;
+  // Textes à trous ({{c1::...}}), une phrase par élément
+  generateClozeCards(request: ClozeRequest, signal?: AbortSignal): Promise<string[]>;
+  gradeOpenAnswer(request: GradingRequest, signal?: AbortSignal): Promise<OpenAnswerGrade>;
+  // Diagrammes bruts, contrôlés ensuite par visualizationService
+  generateMindMap(request: CapsuleContentRequest, signal?: AbortSignal): Promise<MindMapNode>;
+  generateTimeline(request: CapsuleContentRequest, signal?: AbortSignal): Promise<TimelineEvent[]>;
+  // Script en texte brut, écrit pour être lu à voix haute (synthèse vocale)
+  generateNarrationScript(request: NarrationRequest, signal?: AbortSignal): Promise<string>;
+  // Réponse tirée uniquement du contenu de la capsule
+  answerTutorQuestion(request: TutorRequest, signal?: AbortSignal): Promise<TutorAnswer>;
+  coachSolverStep(request: SolverRequest, signal?: AbortSignal): Promise<SolverStep>;
+  // Même structure, mêmes identifiants, textes dans la langue cible
+  translateCapsule(request: TranslationRequest, signal?: AbortSignal): Promise<TranslatableCapsule>;
+  createCoachingSession(userProfile: UserProfile, mode: CoachingMode, language: Language, signal?: AbortSignal): Promise<CoachingSessionInfo>;
+  generateImage(capsule: { title: string }, language: Language, signal?: AbortSignal): Promise<GeneratedImage>;
+  synthesizeSpeech(text: string, language: Language, signal?: AbortSignal): Promise<SpeechAudio>;
+}
+
+// --- Helpers partagés par les adaptateurs ---
+export const getLangName = (lang: Language) => lang === 'fr' ? 'FRANÇAIS' : 'ENGLISH';
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const detectSourceType = (inputText: string): SourceType =>
+  /^(http|https):\/\/[^ "]+$/.test(inputText.trim()) ? 'web' : 'text';
+
+export const cleanJsonResponse = (text: string): string => {
+  if (!text) return "{}";
+  let cleaned = text.replace(/```json/gi,'').replace(/```/g,'');
+  // On garde le bloc JSON le plus externe : un tableau seulement s'il commence avant le premier objet
+  const firstBrace = cleaned.indexOf('{');
+  const firstBracket = cleaned.indexOf('[');
+  const isArray = firstBracket!==-1 && (firstBrace===-1 || firstBracket<firstBrace);
+  const start = isArray ? firstBracket : firstBrace;
+  const end = cleaned.lastIndexOf(isArray ? ']' : '}');
+  if(start!==-1 && end>start) cleaned = cleaned.substring(start,end+1);
+  cleaned = cleaned.replace(/\/\*[\s\S]*?\*\//g,'').replace(/^\s*\/\/.*$/mg,'').replace(/,(\s*[}\]])/g,'$1');
+  return cleaned.trim();
+};
+
+// Annulation demandée par l'élève : ce n'est pas une erreur à afficher ni à relancer
+export const createAbortError = () => new DOMException("Génération annulée", 'AbortError');
+
+export const isAbortError = (err: unknown): boolean => (err as { name?: string } | null)?.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// --- Limites de débit (HTTP 429) ---
+export interface AIRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number; // Délai demandé par le serveur avant un nouvel essai
+}
+
+export const createHttpError = (message: string, status: number, retryAfterMs?: number): AIRequestError =>
+  Object.assign(new Error(message), { status, retryAfterMs });
+
+// En-tête Retry-After : un nombre de secondes ou une date HTTP
+export const parseRetryAfter = (header: string | null, now: number = Date.now()): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+export const isRateLimitError = (err: unknown): boolean => {
+  const { status, message } = (err || {}) as AIRequestError;
+  return status === 429 || /\b429\b|RESOURCE_EXHAUSTED/.test(message || '');
+};
+
+// Gemini ne renvoie pas l'en-tête mais un RetryInfo dans le corps de l'erreur : "retryDelay": "12s"
+export const getRetryAfterMs = (err: unknown): number | undefined => {
+  const { retryAfterMs, message } = (err || {}) as AIRequestError;
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const match = (message || '').match(/retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Relance une requête en cas d'échec (délai croissant). `attempt` permet d'assouplir la requête aux essais suivants.
+ */
+export const withRetries = async <T>(task: (attempt: number) => Promise<T>, maxRetries = 3): Promise<T> => {
+  let lastError;
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await task(attempt);
+    } catch(err) {
+      // Une limite de débit est gérée par la file d'attente (aiRequestQueue), qui respecte Retry-After
+      if (isAbortError(err) || isRateLimitError(err)) throw err;
+      lastError = err;
+      if(attempt<maxRetries-1) await delay(1000*(attempt+1));
+    }
+  }
+  throw lastError;
+};
+
+export const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
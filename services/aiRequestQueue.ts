@@ -0,0 +1,152 @@
+
+import { createAbortError, getRetryAfterMs, isRateLimitError } from './aiProvider';
+
+/**
+ * File d'attente commune à tous les appels IA (génération, quiz, approfondissements, synthèse vocale...).
+ * - au plus MAX_CONCURRENT_REQUESTS appels simultanés, ceux demandés par l'élève passant avant ceux lancés en tâche de fond ;
+ * - un appel peut être annulé (AbortSignal) tant qu'il attend ou pendant qu'il s'exécute ;
+ * - une limite de débit (429) met toute la file en pause le temps indiqué par Retry-After, puis l'appel est relancé
+ *   tant qu'il lui reste des essais ;
+ * - l'état de la file est observable (subscribeToAIQueue, ou le hook useAIQueueStatus).
+ */
+
+export type AIRequestPriority = 'user' | 'background';
+
+export interface AIRequestOptions {
+    priority?: AIRequestPriority;
+    signal?: AbortSignal;
+    retryBudget?: number; // Nouveaux essais autorisés après une limite de débit
+}
+
+export interface AIQueueStatus {
+    running: number;
+    queued: Record<AIRequestPriority, number>;
+    rateLimitedUntil: number | null; // Reprise prévue après une limite de débit
+}
+
+export const MAX_CONCURRENT_REQUESTS = 3;
+export const DEFAULT_RETRY_BUDGET = 2;
+const DEFAULT_RATE_LIMIT_DELAY_MS = 10000; // Sans Retry-After
+const MAX_RATE_LIMIT_DELAY_MS = 2 * 60 * 1000;
+
+interface QueuedRequest {
+    priority: AIRequestPriority;
+    retriesLeft: number;
+    execute: () => Promise<void>;
+    cancel: () => void;
+}
+
+const pending: QueuedRequest[] = [];
+let running = 0;
+let rateLimitedUntil = 0;
+let resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const listeners = new Set<(status: AIQueueStatus) => void>();
+let status: AIQueueStatus = { running: 0, queued: { user: 0, background: 0 }, rateLimitedUntil: null };
+
+// Nouvel objet à chaque changement seulement : useSyncExternalStore compare les références
+const notify = () => {
+    status = {
+        running,
+        queued: {
+            user: pending.filter(r => r.priority === 'user').length,
+            background: pending.filter(r => r.priority === 'background').length,
+        },
+        rateLimitedUntil: rateLimitedUntil > Date.now() ? rateLimitedUntil : null,
+    };
+    listeners.forEach(listener => listener(status));
+};
+
+export const getAIQueueStatus = (): AIQueueStatus => status;
+
+export const subscribeToAIQueue = (listener: (status: AIQueueStatus) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const takeNext = (): QueuedRequest | undefined => {
+    const index = pending.findIndex(r => r.priority === 'user');
+    return pending.splice(index === -1 ? 0 : index, 1)[0];
+};
+
+const pump = () => {
+    const wait = rateLimitedUntil - Date.now();
+    if (wait > 0) {
+        if (!resumeTimer) {
+            resumeTimer = setTimeout(() => {
+                resumeTimer = null;
+                pump();
+            }, wait);
+        }
+    } else {
+        while (running < MAX_CONCURRENT_REQUESTS && pending.length > 0) {
+            const request = takeNext()!;
+            running++;
+            request.execute().finally(() => {
+                running--;
+                pump();
+            });
+        }
+    }
+    notify();
+};
+
+const pauseFor = (delayMs: number) => {
+    rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + Math.min(delayMs, MAX_RATE_LIMIT_DELAY_MS));
+    if (resumeTimer) {
+        clearTimeout(resumeTimer);
+        resumeTimer = null;
+    }
+};
+
+/**
+ * Place un appel dans la file. `task` reçoit le signal d'annulation pour le transmettre au fournisseur s'il le gère ;
+ * sinon la promesse est tout de même rejetée (AbortError) dès l'annulation.
+ */
+export const enqueueAIRequest = <T>(task: (signal?: AbortSignal) => Promise<T>, options: AIRequestOptions = {}): Promise<T> => {
+    const { priority = 'user', signal, retryBudget = DEFAULT_RETRY_BUDGET } = options;
+    if (signal?.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<T>((resolve, reject) => {
+        let settled = false;
+        const settle = (action: () => void) => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            action();
+        };
+
+        const request: QueuedRequest = {
+            priority,
+            retriesLeft: retryBudget,
+            execute: async () => {
+                try {
+                    const value = await task(signal);
+                    settle(() => resolve(value));
+                } catch (err) {
+                    if (!settled && isRateLimitError(err) && request.retriesLeft > 0) {
+                        request.retriesLeft--;
+                        pauseFor(getRetryAfterMs(err) ?? DEFAULT_RATE_LIMIT_DELAY_MS);
+                        pending.unshift(request); // Garde sa place en tête de file
+                        return;
+                    }
+                    settle(() => reject(err));
+                }
+            },
+            cancel: () => settle(() => reject(createAbortError())),
+        };
+
+        function onAbort() {
+            const index = pending.indexOf(request);
+            if (index !== -1) pending.splice(index, 1);
+            request.cancel();
+            notify();
+        }
+        signal?.addEventListener('abort', onAbort);
+
+        pending.push(request);
+        pump();
+    });
+};
@@ -0,0 +1,520 @@
+// services/aiService.ts
+import type { CognitiveCapsule, QuizQuestion, CoachingMode, UserProfile, SourceType, FlashcardContent, OpenAnswerGrade, VisualizationData, GenerationProfile, UserLevel, ChatMessage } from '../types';
+import type { Language } from '../i18n/translations';
+import { AIProvider, AIProviderName, CoachingSessionInfo, GeneratedCapsule, GeneratedImage, GenerationProgress, SolverStep, SpeechAudio, detectSourceType, isAbortError, throwIfAborted } from './aiProvider';
+import { AIRequestPriority, enqueueAIRequest } from './aiRequestQueue';
+import { CacheOptions, getOrGenerate } from './generationCacheService';
+import { TextChunk, chunkText, isLongDocument } from './chunkingService';
+import {
+  applyFieldFixes,
+  autoRepairCapsule,
+  buildRepairRequests,
+  dropInvalidItems,
+  repairQuizQuestion,
+  validateCapsule,
+  validateQuizQuestion,
+} from './capsuleValidationService';
+import { createClozeCards } from './clozeService';
+import { MAX_OPEN_ANSWER_CHARS, normalizeGrade } from './openQuestionService';
+import { MAX_SOLVER_PROBLEM_CHARS, MAX_SOLVER_STEP_CHARS } from './coachingService';
+import { MAX_TUTOR_HISTORY, MAX_TUTOR_QUESTION_CHARS, MAX_TUTOR_SOURCE_CHARS, normalizeTutorAnswer } from './tutorService';
+import { attachSourceSpans } from './sourceAttributionService';
+import { createTranslatedCapsule, isCompleteTranslation, toTranslatableContent } from './translationService';
+import { VisualizationType, buildMindMapFromConcepts, isTimelineCandidate, validateMindMap, validateTimeline } from './visualizationService';
+import { createGeminiProvider } from './geminiProvider';
+import { createLocalAiProvider } from './localAiProvider';
+import { createMockProvider } from './mockAiProvider';
+import type { PartialCapsule } from './streamingJsonService';
+import { buildCapsulePartPrompt, buildCapsulePrompt, buildClozePrompt, buildConceptPrompt, buildGradingPrompt, buildMindMapPrompt, buildNarrationPrompt, buildTimelinePrompt, buildTranslationPrompt, buildTutorPrompt, buildMergePrompt, buildRepairPrompt, buildSolverPrompt } from './promptService';
+
+// --- Choix du fournisseur ---
+export const createAIProvider = (name: AIProviderName): AIProvider => {
+  switch (name) {
+    case 'local': return createLocalAiProvider();
+    case 'mock': return createMockProvider();
+    default: return createGeminiProvider();
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+// Fournisseur choisi par VITE_AI_PROVIDER (Gemini par défaut), créé au premier appel
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) activeProvider = createAIProvider(import.meta.env.VITE_AI_PROVIDER || 'gemini');
+  return activeProvider;
+};
+
+// Remplace le fournisseur (ex: mock dans les tests)
+export const setAIProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
+
+// --- File d'attente et cache des réponses ---
+export interface GenerationOptions extends Pick<CacheOptions, 'forceRegenerate'> {
+  signal?: AbortSignal; // Annulation par l'élève : l'appel échoue alors avec une AbortError (voir isAbortError)
+  priority?: AIRequestPriority; // 'user' par défaut ; 'background' pour ce que l'élève n'a pas demandé
+  profile?: GenerationProfile; // Niveau et style de l'élève : adapte le contenu généré (voir getGenerationProfile)
+}
+
+type ProviderTask<T> = (provider: AIProvider, signal?: AbortSignal) => Promise<T>;
+
+// Chaque appel au fournisseur passe par la file commune (concurrence, priorités, annulation, limites de débit)
+const queued = <T>(task: ProviderTask<T>, options: GenerationOptions = {}): Promise<T> =>
+  enqueueAIRequest(signal => task(getAIProvider(), signal), { priority: options.priority, signal: options.signal });
+
+// La clé reprend le prompt que construirait l'adaptateur. Le mock n'est pas mis en cache : ses fixtures doivent rester visibles.
+// `isValid` : seules les réponses utilisables sont gardées, une réponse invalide est redemandée au modèle la fois suivante.
+const cached = <T>(prompt: string, language: Language, task: ProviderTask<T>, options: GenerationOptions = {}, isValid?: (value: NoInfer<T>) => boolean): Promise<T> => {
+  const provider = getAIProvider();
+  if (provider.name === 'mock') return queued(task, options);
+  return getOrGenerate({ provider: provider.name, model: provider.model, prompt, language }, () => queued(task, options), options, isValid);
+};
+
+const isNonEmptyText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+// --- Longs documents : map (un appel par morceau) puis reduce ---
+const MAP_CONCURRENCY = 3;
+
+// Plafonds de la capsule fusionnée : les éléments sont pris à tour de rôle dans chaque partie
+const MAX_MERGED_CONCEPTS = 24;
+const MAX_MERGED_EXAMPLES = 10;
+const MAX_MERGED_QUESTIONS = 15;
+const MAX_MERGED_FLASHCARDS = 30;
+
+type ProgressCallback = (progress: GenerationProgress) => void;
+
+// Ce dont les diagrammes et le script audio ont besoin : une capsule enregistrée ou tout juste générée
+type CapsuleContent = Pick<CognitiveCapsule, 'title' | 'summary' | 'keyConcepts' | 'examples'>;
+
+const mapChunks = async (chunks: TextChunk[], sourceType: SourceType, language: Language, onProgress?: ProgressCallback, options?: GenerationOptions): Promise<GeneratedCapsule[]> => {
+  const parts: GeneratedCapsule[] = new Array(chunks.length);
+  let next = 0;
+  let completed = 0;
+  onProgress?.({ stage: 'map', completed, total: chunks.length });
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      throwIfAborted(options?.signal);
+      const chunk = chunks[next++];
+      const request = {
+        inputText: chunk.text,
+        sourceType,
+        language,
+        profile: options?.profile,
+        partIndex: chunk.index,
+        partCount: chunks.length,
+        heading: chunk.heading,
+      };
+      parts[chunk.index] = await cached(buildCapsulePartPrompt(request), language, (provider, signal) => provider.generateCapsulePart(request, signal), options);
+      onProgress?.({ stage: 'map', completed: ++completed, total: chunks.length });
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MAP_CONCURRENCY, chunks.length) }, worker));
+  return parts;
+};
+
+const reduceSummaries = async (parts: GeneratedCapsule[], language: Language, onProgress?: ProgressCallback, options?: GenerationOptions) => {
+  throwIfAborted(options?.signal);
+  onProgress?.({ stage: 'reduce', completed: 0, total: 1 });
+  const summaries = parts.map(({ title, summary }) => ({ title, summary }));
+  const merged = await cached(buildMergePrompt(summaries, language), language, (provider, signal) => provider.mergePartSummaries(summaries, language, signal), options);
+  onProgress?.({ stage: 'reduce', completed: 1, total: 1 });
+  return merged;
+};
+
+const normalizeKey = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Prend les éléments de chaque liste à tour de rôle, sans doublon, jusqu'au plafond
+const interleaveUnique = <T>(lists: T[][], keyOf: (item: T) => string, max: number): T[] => {
+  const result: T[] = [];
+  const seen = new Set<string>();
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let i = 0; i < longest && result.length < max; i++) {
+    for (const list of lists) {
+      if (i >= list.length || result.length >= max) continue;
+      const key = normalizeKey(keyOf(list[i]));
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(list[i]);
+    }
+  }
+  return result;
+};
+
+const mergeParts = (parts: GeneratedCapsule[], title: string, summary: string, sourceType: SourceType): GeneratedCapsule => ({
+  title,
+  summary,
+  keyConcepts: interleaveUnique(parts.map(p => p.keyConcepts || []), kc => kc.concept, MAX_MERGED_CONCEPTS),
+  examples: interleaveUnique(parts.map(p => p.examples || []), example => example, MAX_MERGED_EXAMPLES),
+  quiz: interleaveUnique(parts.map(p => p.quiz || []), q => q.question, MAX_MERGED_QUESTIONS),
+  flashcards: interleaveUnique(parts.map(p => p.flashcards || []), card => card.front, MAX_MERGED_FLASHCARDS),
+  sourceType,
+});
+
+// --- Validation du contenu généré ---
+/**
+ * Corrige automatiquement les petits défauts, demande au modèle de réécrire les seuls champs encore invalides,
+ * puis retire les éléments irrécupérables. Ce qui reste non résolu est joint à la capsule (validationIssues).
+ */
+const validateGeneratedCapsule = async (capsule: GeneratedCapsule, language: Language, options?: GenerationOptions): Promise<GeneratedCapsule> => {
+  let repaired = autoRepairCapsule(capsule);
+  let issues = validateCapsule(repaired, language);
+  if (issues.length === 0) return repaired;
+
+  try {
+    const requests = buildRepairRequests(repaired, issues);
+    const fixes = await cached(buildRepairPrompt(repaired.title, requests, language), language, (provider, signal) => provider.repairFields(repaired.title, requests, language, signal), options);
+    repaired = autoRepairCapsule(applyFieldFixes(repaired, fixes));
+    issues = validateCapsule(repaired, language);
+    if (issues.length === 0) return repaired;
+  } catch(err) {
+    if (isAbortError(err)) throw err;
+    console.warn("Capsule repair failed", err);
+  }
+
+  const { capsule: cleaned, issues: dropped } = dropInvalidItems(repaired, issues);
+  const validationIssues = [...dropped.filter(i => i.removed), ...validateCapsule(cleaned, language)];
+  console.warn("Generated capsule still has issues:", validationIssues);
+  return { ...cleaned, validationIssues };
+};
+
+// --- Profil de l'élève ---
+/**
+ * Niveau et style retenus pour générer : ceux du profil, sinon les valeurs par défaut du profil (intermédiaire, textuel).
+ */
+export const getGenerationProfile = (user: Pick<UserProfile, 'level' | 'learningStyle'>): GenerationProfile => ({
+  level: user.level || 'intermediate',
+  learningStyle: user.learningStyle || 'textual',
+});
+
+// Complète la capsule selon le style : diagrammes pour un profil visuel, script audio pour un profil auditif.
+// Un échec ici ne fait pas perdre la capsule, seulement le complément.
+const adaptToLearningStyle = async (capsule: GeneratedCapsule, language: Language, options?: GenerationOptions): Promise<GeneratedCapsule> => {
+  const profile = options?.profile;
+  if (!profile) return capsule;
+  const adapted: GeneratedCapsule = { ...capsule, generatedFor: profile };
+  try {
+    if (profile.learningStyle === 'visual') {
+      const types: VisualizationType[] = isTimelineCandidate(capsule) ? ['mindmap', 'timeline'] : ['mindmap'];
+      adapted.visualizations = await Promise.all(types.map(type => generateVisualization(capsule, type, language, options)));
+    } else if (profile.learningStyle === 'auditory') {
+      adapted.narrationScript = await generateNarrationScript(capsule, profile.level, language, options);
+    }
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.warn("Adapting capsule to learning style failed", e);
+  }
+  return adapted;
+};
+
+// Le texte envoyé au modèle est gardé avec la capsule ; les citations de chaque élément y sont retrouvées
+const withSourceText = (capsule: GeneratedCapsule, sourceText: string): GeneratedCapsule => ({
+  ...attachSourceSpans(capsule, sourceText),
+  sourceText,
+});
+
+// --- Fonctions principales ---
+/**
+ * Génère une capsule. Un texte trop long pour un seul appel est découpé en morceaux :
+ * chaque morceau donne ses propres notions, fusionnées ensuite en une seule capsule.
+ * Les réponses déjà obtenues pour le même texte sont reprises du cache, sauf avec `forceRegenerate`.
+ */
+export const generateCognitiveCapsule = async (inputText: string, explicitSourceType?: SourceType, language: Language='fr', onProgress?: ProgressCallback, options?: GenerationOptions): Promise<GeneratedCapsule> => {
+  const sourceType: SourceType = explicitSourceType || detectSourceType(inputText);
+  try {
+    if (!isLongDocument(inputText)) {
+      const request = { inputText, sourceType, language, profile: options?.profile };
+      const capsule = await cached(buildCapsulePrompt(request), language, (provider, signal) => provider.generateCapsule(request, signal), options);
+      return withSourceText(await adaptToLearningStyle(await validateGeneratedCapsule(capsule, language, options), language, options), inputText);
+    }
+    const parts = await mapChunks(chunkText(inputText), sourceType, language, onProgress, options);
+    const { title, summary } = await reduceSummaries(parts, language, onProgress, options);
+    const merged = await validateGeneratedCapsule(mergeParts(parts, title, summary, sourceType), language, options);
+    return withSourceText(await adaptToLearningStyle(merged, language, options), inputText);
+  } catch(err) {
+    if (isAbortError(err)) throw err;
+    console.error("Error generating cognitive capsule:", err);
+    throw new Error("Impossible de générer la capsule. Vérifie la clé API ou la connexion.");
+  }
+};
+
+/**
+ * Génère une série de capsules liées, une par morceau du document (une seule capsule pour un texte court).
+ */
+export const generateCapsuleSeries = async (inputText: string, explicitSourceType?: SourceType, language: Language='fr', onProgress?: ProgressCallback, options?: GenerationOptions): Promise<GeneratedCapsule[]> => {
+  if (!isLongDocument(inputText)) return [await generateCognitiveCapsule(inputText, explicitSourceType, language, undefined, options)];
+  const sourceType: SourceType = explicitSourceType || detectSourceType(inputText);
+  try {
+    const chunks = chunkText(inputText);
+    const parts = await mapChunks(chunks, sourceType, language, onProgress, options);
+    const { title } = await reduceSummaries(parts, language, onProgress, options);
+    const seriesId = `series_${Date.now()}`;
+    return await Promise.all(parts.map(async (part, index) => ({
+      ...withSourceText(await adaptToLearningStyle(await validateGeneratedCapsule(part, language, options), language, options), chunks[index].text),
+      sourceType,
+      series: { id: seriesId, title, index, total: parts.length },
+    })));
+  } catch(err) {
+    if (isAbortError(err)) throw err;
+    console.error("Error generating capsule series:", err);
+    throw new Error("Impossible de générer la capsule. Vérifie la clé API ou la connexion.");
+  }
+};
+
+/**
+ * Comme generateCognitiveCapsule, mais la capsule arrive au fil de l'eau : `onPartial` reçoit d'abord le titre et le résumé,
+ * puis les notions, le quiz et les flashcards. Une réponse en cache arrive d'un bloc ; un long document passe par la génération découpée.
+ */
+export const streamCognitiveCapsule = async (inputText: string, explicitSourceType: SourceType | undefined, language: Language, onPartial: (partial: PartialCapsule) => void, options?: GenerationOptions, onProgress?: ProgressCallback): Promise<GeneratedCapsule> => {
+  if (isLongDocument(inputText)) return generateCognitiveCapsule(inputText, explicitSourceType, language, onProgress, options);
+  const sourceType: SourceType = explicitSourceType || detectSourceType(inputText);
+  try {
+    const request = { inputText, sourceType, language, profile: options?.profile };
+    const capsule = await cached(buildCapsulePrompt(request), language, (provider, signal) => provider.streamCapsule(request, onPartial, signal), options);
+    throwIfAborted(options?.signal);
+    return withSourceText(await adaptToLearningStyle(await validateGeneratedCapsule(capsule, language, options), language, options), inputText);
+  } catch(err) {
+    if (isAbortError(err)) throw err;
+    console.error("Error streaming cognitive capsule:", err);
+    throw new Error("Impossible de générer la capsule. Vérifie la clé API ou la connexion.");
+  }
+};
+
+/**
+ * Régénère une capsule pour un autre niveau, à partir du cours d'origine s'il a été gardé, sinon de son propre contenu.
+ * Le style d'apprentissage d'origine est conservé.
+ */
+export const regenerateCapsuleAtLevel = async (capsule: CognitiveCapsule, level: UserLevel, language: Language='fr', options?: GenerationOptions): Promise<GeneratedCapsule> => {
+  const profile: GenerationProfile = { level, learningStyle: capsule.generatedFor?.learningStyle || 'textual' };
+  if (capsule.sourceText) {
+    const regenerated = await generateCognitiveCapsule(capsule.sourceText, capsule.sourceType, language, undefined, { ...options, profile });
+    return { ...regenerated, sourceType: capsule.sourceType };
+  }
+  const inputText = [
+    capsule.title,
+    capsule.summary,
+    ...capsule.keyConcepts.map(kc => `${kc.concept} : ${kc.explanation}`),
+    ...capsule.examples,
+  ].join('\n\n');
+  const regenerated = await generateCognitiveCapsule(inputText, 'text', language, undefined, { ...options, profile });
+  // Sans cours d'origine, le contenu repris pour régénérer ne sert pas de source (ni au tuteur, ni aux citations)
+  const { sourceText: _sourceText, ...content } = regenerated;
+  return { ...content, sourceType: capsule.sourceType };
+};
+
+/**
+ * Copie liée de la capsule dans la langue `to` (voir translationService) : mêmes ids de questions et de flashcards,
+ * même historique de révision. `from` est la langue de la capsule, pour celles générées avant qu'elle soit enregistrée.
+ */
+export const translateCapsule = async (capsule: CognitiveCapsule, to: Language, from: Language = capsule.language || 'fr', options?: GenerationOptions): Promise<CognitiveCapsule> => {
+  if (from === to) throw new Error("La capsule est déjà dans cette langue.");
+  const request = { content: toTranslatableContent(capsule), from, to };
+  let translated: unknown = null;
+  try {
+    translated = await cached(buildTranslationPrompt(request), to, (provider, signal) => provider.translateCapsule(request, signal), options,
+      value => isCompleteTranslation(capsule, request.content, value));
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Capsule translation failed", e);
+  }
+  if (!isCompleteTranslation(capsule, request.content, translated)) throw new Error("La traduction de la capsule a échoué ou est incomplète.");
+  return createTranslatedCapsule(capsule, translated, from, to);
+};
+
+export const generateCognitiveCapsuleFromFile = async (file: File, language: Language = 'fr', onProgress?: ProgressCallback, options?: GenerationOptions) => {
+  const text = await file.text();
+  return generateCognitiveCapsule(text, 'text', language, onProgress, options);
+};
+
+export const createCoachingSession = async (userProfile: UserProfile, mode: CoachingMode, language: Language='fr', options?: GenerationOptions): Promise<CoachingSessionInfo> => {
+  try {
+    return await queued((provider, signal) => provider.createCoachingSession(userProfile, mode, language, signal), options);
+  } catch(err) {
+    if (isAbortError(err)) throw err;
+    console.error("Error creating coaching session:", err);
+    throw new Error("Impossible de créer la session de coaching.");
+  }
+};
+
+/**
+ * Étape suivante d'une résolution guidée : retour sur ce que l'élève vient de proposer et question pour continuer.
+ * `history` contient déjà la dernière étape de l'élève.
+ */
+export const coachSolverStep = async (capsule: Pick<CognitiveCapsule, 'title' | 'keyConcepts'>, problem: string, history: ChatMessage[], language: Language='fr', options?: GenerationOptions): Promise<SolverStep> => {
+  const request = {
+    title: capsule.title,
+    keyConcepts: capsule.keyConcepts,
+    problem: problem.trim().slice(0, MAX_SOLVER_PROBLEM_CHARS),
+    history: history.map(({ role, content }) => ({ role, content: content.slice(0, MAX_SOLVER_STEP_CHARS) })),
+    language,
+  };
+  let step: SolverStep | null = null;
+  try {
+    const raw = await cached(buildSolverPrompt(request), language, (provider, signal) => provider.coachSolverStep(request, signal), options, value => isNonEmptyText(value?.message));
+    const message = typeof raw?.message === 'string' ? raw.message.trim() : '';
+    if (message) step = { message, solved: raw.solved === true };
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Solver step failed", e);
+  }
+  if (!step) throw new Error("Le coach ne peut pas répondre pour le moment.");
+  return step;
+};
+
+export const regenerateQuiz = async (capsule: CognitiveCapsule, language: Language='fr', options?: GenerationOptions): Promise<QuizQuestion[]> => {
+  try {
+    // Les questions invalides sont écartées plutôt que montrées à l'élève
+    const questions = await queued((provider, signal) => provider.regenerateQuiz(capsule.title, language, signal), options);
+    return (Array.isArray(questions) ? questions : [])
+      .filter(Boolean)
+      .map(repairQuizQuestion)
+      .filter((q, i) => validateQuizQuestion(q, `quiz[${i}]`).length === 0);
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.warn("Regenerate quiz failed", e);
+    return [];
+  }
+};
+
+/**
+ * Cartes à trous tirées des concepts clés : une carte par trou, les textes sans trou valide sont écartés.
+ */
+export const generateClozeCards = async (capsule: CognitiveCapsule, language: Language='fr', options?: GenerationOptions): Promise<FlashcardContent[]> => {
+  const request = { title: capsule.title, keyConcepts: capsule.keyConcepts, language };
+  try {
+    const texts = await cached(buildClozePrompt(request), language, (provider, signal) => provider.generateClozeCards(request, signal), options,
+      value => Array.isArray(value) && value.some(text => typeof text === 'string' && createClozeCards(text).length > 0));
+    return (Array.isArray(texts) ? texts : [])
+      .filter((text): text is string => typeof text === 'string')
+      .flatMap(text => createClozeCards(text));
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.warn("Generate cloze cards failed", e);
+    return [];
+  }
+};
+
+/**
+ * Carte mentale ou frise chronologique d'une capsule, prête à être ajoutée à `capsule.visualizations`.
+ * Une carte mentale invalide est remplacée par celle des concepts clés ; une frise sans assez d'événements datés est une erreur.
+ */
+export const generateVisualization = async (capsule: CapsuleContent, type: VisualizationType, language: Language='fr', options?: GenerationOptions): Promise<VisualizationData> => {
+  const request = { title: capsule.title, summary: capsule.summary, keyConcepts: capsule.keyConcepts, examples: capsule.examples, language };
+  if (type === 'mindmap') {
+    try {
+      const raw = await cached(buildMindMapPrompt(request), language, (provider, signal) => provider.generateMindMap(request, signal), options, value => validateMindMap(value) !== null);
+      return { type, data: validateMindMap(raw) || buildMindMapFromConcepts(capsule) };
+    } catch(e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Generate mind map failed, using key concepts", e);
+      return { type, data: buildMindMapFromConcepts(capsule) };
+    }
+  }
+
+  let events = null;
+  try {
+    events = validateTimeline(await cached(buildTimelinePrompt(request), language, (provider, signal) => provider.generateTimeline(request, signal), options, value => validateTimeline(value) !== null));
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Generate timeline failed", e);
+  }
+  if (!events) throw new Error("Impossible de générer une frise : le contenu ne contient pas assez d'événements datés.");
+  return { type, data: events };
+};
+
+/**
+ * Script à lire à voix haute (synthèse vocale) reprenant la capsule, adapté au niveau de l'élève.
+ */
+export const generateNarrationScript = async (capsule: CapsuleContent, level: UserLevel, language: Language='fr', options?: GenerationOptions): Promise<string> => {
+  const request = { title: capsule.title, summary: capsule.summary, keyConcepts: capsule.keyConcepts, examples: capsule.examples, language, level };
+  try {
+    return (await cached(buildNarrationPrompt(request), language, (provider, signal) => provider.generateNarrationScript(request, signal), options, isNonEmptyText)).trim();
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Generate narration script failed", e);
+    throw new Error("Impossible de générer le script audio.");
+  }
+};
+
+/**
+ * Réponse du tuteur à une question sur la capsule, appuyée uniquement sur son contenu et son texte d'origine.
+ * `history` est la conversation avant la question ; seuls ses derniers messages sont envoyés.
+ */
+export const askTutor = async (capsule: CognitiveCapsule, history: ChatMessage[], question: string, language: Language='fr', options?: GenerationOptions): Promise<ChatMessage> => {
+  const request = {
+    title: capsule.title,
+    summary: capsule.summary,
+    keyConcepts: capsule.keyConcepts,
+    examples: capsule.examples,
+    language,
+    sourceText: capsule.sourceText?.slice(0, MAX_TUTOR_SOURCE_CHARS),
+    history: history.slice(-MAX_TUTOR_HISTORY).map(({ role, content }) => ({ role, content })),
+    question: question.trim().slice(0, MAX_TUTOR_QUESTION_CHARS),
+  };
+  let answer: ChatMessage | null = null;
+  try {
+    const raw = await cached(buildTutorPrompt(request), language, (provider, signal) => provider.answerTutorQuestion(request, signal), options,
+      value => normalizeTutorAnswer(value, capsule.keyConcepts) !== null);
+    answer = normalizeTutorAnswer(raw, capsule.keyConcepts);
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Tutor answer failed", e);
+  }
+  if (!answer) throw new Error("Le tuteur ne peut pas répondre pour le moment.");
+  return answer;
+};
+
+/**
+ * Corrige la réponse rédigée d'un élève à une question ouverte, selon la grille de la question.
+ */
+export const gradeOpenAnswer = async (question: QuizQuestion, answer: string, language: Language='fr', options?: GenerationOptions): Promise<OpenAnswerGrade> => {
+  const rubric = question.rubric || [];
+  const request = { question: question.question, referenceAnswer: question.correctAnswer, rubric, answer: answer.trim().slice(0, MAX_OPEN_ANSWER_CHARS), language };
+  try {
+    const grade = await cached(buildGradingPrompt(request), language, (provider, signal) => provider.gradeOpenAnswer(request, signal), options);
+    return normalizeGrade(grade, rubric);
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Grade open answer failed", e);
+    throw new Error("Impossible de corriger la réponse pour le moment.");
+  }
+};
+
+/**
+ * En mode 'deeper', l'explication est seulement affichée : un échec donne un texte de remplacement.
+ * En mode 'simpler', elle remplace l'explication enregistrée : un échec est une erreur, pour ne jamais écraser le concept.
+ */
+export const expandKeyConcept = async (title: string, concept: string, context: string, language: Language='fr', mode: 'deeper' | 'simpler' = 'deeper', options?: GenerationOptions): Promise<string> => {
+  const request = { title, concept, context, language, mode };
+  let explanation = '';
+  try {
+    explanation = await cached(buildConceptPrompt(request), language, (provider, signal) => provider.expandKeyConcept(request, signal), options, isNonEmptyText);
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Expand key concept failed", e);
+  }
+  if (explanation && explanation.trim()) return explanation;
+  if (mode === 'simpler') throw new Error("Impossible de simplifier ce concept.");
+  return "Pas d'explication disponible.";
+};
+
+export const generateMemoryAidDrawing = async (capsule: Pick<CognitiveCapsule,'title'|'summary'|'keyConcepts'>, language: Language='fr', options?: GenerationOptions): Promise<GeneratedImage> => {
+  try {
+    return await queued((provider, signal) => provider.generateImage(capsule, language, signal), options);
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Memory aid drawing failed", e);
+    throw new Error("Impossible de générer le dessin.");
+  }
+};
+
+export const synthesizeSpeech = async (text: string, language: Language='fr', options?: GenerationOptions): Promise<SpeechAudio> => {
+  try {
+    return await queued((provider, signal) => provider.synthesizeSpeech(text, language, signal), options);
+  } catch(e) {
+    if (isAbortError(e)) throw e;
+    console.error("Speech synthesis failed", e);
+    throw new Error("Impossible de générer l'audio.");
+  }
+};
@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    CalendarSettings,
+    DEFAULT_ROLLOVER_HOUR,
+    addDays,
+    addDaysToKey,
+    diffDayKeys,
+    getDayKey,
+    getDayStart,
+    getProfileCalendarSettings,
+    getStartOfDay,
+    isYesterdayKey,
+} from './calendarService';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+const PARIS: CalendarSettings = { timeZone: 'Europe/Paris', rolloverHour: 4 };
+const PARIS_MIDNIGHT: CalendarSettings = { timeZone: 'Europe/Paris', rolloverHour: 0 };
+const NEW_YORK: CalendarSettings = { timeZone: 'America/New_York', rolloverHour: 4 };
+const UTC: CalendarSettings = { timeZone: 'UTC', rolloverHour: 0 };
+
+describe('getDayKey', () => {
+    // Élève à Paris (UTC+2 en été), 1h du matin le 15 juin : 23h UTC la veille
+    const parisOneAm = Date.UTC(2026, 5, 14, 23);
+
+    it('uses the wall clock of the time zone, not UTC', () => {
+        expect(getDayKey(parisOneAm, UTC)).toBe('2026-06-14');
+        expect(getDayKey(Date.UTC(2026, 5, 14, 22, 30), PARIS_MIDNIGHT)).toBe('2026-06-15');
+    });
+
+    it('keeps the night before the rollover hour on the previous study day', () => {
+        expect(getDayKey(parisOneAm, PARIS_MIDNIGHT)).toBe('2026-06-15');
+        expect(getDayKey(parisOneAm, PARIS)).toBe('2026-06-14');
+        expect(getDayKey(Date.UTC(2026, 5, 15, 1, 59), PARIS)).toBe('2026-06-14');
+        expect(getDayKey(Date.UTC(2026, 5, 15, 2), PARIS)).toBe('2026-06-15');
+    });
+});
+
+describe('getDayStart', () => {
+    it('starts the day at the rollover hour in the time zone', () => {
+        expect(getDayStart('2026-06-15', PARIS)).toBe(Date.UTC(2026, 5, 15, 2));
+        expect(getDayStart('2026-01-15', PARIS)).toBe(Date.UTC(2026, 0, 15, 3));
+        expect(getDayStart('2026-06-15', NEW_YORK)).toBe(Date.UTC(2026, 5, 15, 8));
+    });
+
+    it('corrects the offset on the days the clocks change', () => {
+        // Passage à l'heure d'été le 29 mars 2026 à 2h, retour à l'heure d'hiver le 25 octobre à 3h
+        expect(getDayStart('2026-03-28', PARIS)).toBe(Date.UTC(2026, 2, 28, 3));
+        expect(getDayStart('2026-03-29', PARIS)).toBe(Date.UTC(2026, 2, 29, 2));
+        expect(getDayStart('2026-10-25', PARIS)).toBe(Date.UTC(2026, 9, 25, 3));
+        expect(getDayStart('2026-03-08', NEW_YORK)).toBe(Date.UTC(2026, 2, 8, 8));
+    });
+
+    it('is the first instant of the study day', () => {
+        const start = getDayStart('2026-03-29', PARIS);
+        expect(getDayKey(start, PARIS)).toBe('2026-03-29');
+        expect(getDayKey(start - 1, PARIS)).toBe('2026-03-28');
+    });
+});
+
+describe('addDays', () => {
+    it('returns the start of the study day n days later', () => {
+        const noon = Date.UTC(2026, 5, 15, 10);
+        expect(addDays(noon, 0, PARIS)).toBe(getStartOfDay(noon, PARIS));
+        expect(addDays(noon, 1, PARIS)).toBe(Date.UTC(2026, 5, 16, 2));
+        expect(addDays(noon, -1, PARIS)).toBe(Date.UTC(2026, 5, 14, 2));
+    });
+
+    it('gives 23 and 25 hour days across the clock changes', () => {
+        const beforeSpring = getDayStart('2026-03-28', PARIS);
+        expect(addDays(beforeSpring, 1, PARIS) - beforeSpring).toBe(23 * ONE_HOUR_MS);
+        const beforeAutumn = getDayStart('2026-10-24', PARIS);
+        expect(addDays(beforeAutumn, 1, PARIS) - beforeAutumn).toBe(25 * ONE_HOUR_MS);
+    });
+
+    it('counts a night review before the rollover from the previous day', () => {
+        const parisOneAm = Date.UTC(2026, 5, 14, 23);
+        expect(addDays(parisOneAm, 1, PARIS)).toBe(getDayStart('2026-06-15', PARIS));
+    });
+});
+
+describe('day keys', () => {
+    it('adds days across months and years', () => {
+        expect(addDaysToKey('2026-02-28', 1)).toBe('2026-03-01');
+        expect(addDaysToKey('2026-12-31', 1)).toBe('2027-01-01');
+        expect(addDaysToKey('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('counts whole days between keys, whatever the clock changes', () => {
+        expect(diffDayKeys('2026-03-28', '2026-03-30')).toBe(2);
+        expect(diffDayKeys('2026-10-26', '2026-10-24')).toBe(-2);
+        expect(diffDayKeys('2026-06-15', '2026-06-15')).toBe(0);
+    });
+
+    describe('isYesterdayKey', () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it('compares with the current study day', () => {
+            vi.useFakeTimers();
+            // 1h30 à Paris le 16 juin : la journée d'étude est encore le 15
+            vi.setSystemTime(Date.UTC(2026, 5, 15, 23, 30));
+            expect(isYesterdayKey('2026-06-14', PARIS)).toBe(true);
+            expect(isYesterdayKey('2026-06-15', PARIS)).toBe(false);
+            expect(isYesterdayKey('2026-06-15', PARIS_MIDNIGHT)).toBe(true);
+        });
+    });
+});
+
+describe('getProfileCalendarSettings', () => {
+    it('reads the time zone and rollover hour of the profile', () => {
+        expect(getProfileCalendarSettings({ timeZone: 'Asia/Tokyo', dayRolloverHour: 6 })).toEqual({ timeZone: 'Asia/Tokyo', rolloverHour: 6 });
+    });
+
+    it('falls back to defaults for missing or invalid values', () => {
+        const settings = getProfileCalendarSettings({ timeZone: 'Mars/Olympus', dayRolloverHour: 24 });
+        expect(settings.timeZone).not.toBe('Mars/Olympus');
+        expect(settings.rolloverHour).toBe(DEFAULT_ROLLOVER_HOUR);
+        expect(getProfileCalendarSettings({}).rolloverHour).toBe(DEFAULT_ROLLOVER_HOUR);
+    });
+});
@@ -0,0 +1,161 @@
+
+import type { UserProfile } from '../types';
+
+/**
+ * Jours "calendaires" de l'utilisateur : une journée d'étude commence à l'heure de bascule
+ * (ex: 4h) dans le fuseau horaire de l'utilisateur, et non à minuit UTC.
+ * Les jours sont identifiés par une clé 'YYYY-MM-DD'.
+ */
+
+export interface CalendarSettings {
+    timeZone: string; // Fuseau IANA (ex: 'Europe/Paris')
+    rolloverHour: number; // Heure (0-23) à laquelle commence une nouvelle journée
+}
+
+export const DEFAULT_ROLLOVER_HOUR = 4;
+
+const STORAGE_KEY = 'memoraid_calendar';
+const ONE_HOUR_MS = 60 * 60 * 1000;
+const ONE_DAY_MS = 24 * ONE_HOUR_MS;
+
+const getDeviceTimeZone = (): string => {
+    try {
+        return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    } catch {
+        return 'UTC';
+    }
+};
+
+const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const sanitizeSettings = (settings: Partial<CalendarSettings>): CalendarSettings => ({
+    timeZone: settings.timeZone && isValidTimeZone(settings.timeZone) ? settings.timeZone : getDeviceTimeZone(),
+    rolloverHour: typeof settings.rolloverHour === 'number' && settings.rolloverHour >= 0 && settings.rolloverHour < 24
+        ? Math.floor(settings.rolloverHour)
+        : DEFAULT_ROLLOVER_HOUR,
+});
+
+let activeSettings: CalendarSettings | null = null;
+
+/**
+ * Réglages en vigueur : ceux enregistrés sur l'appareil, sinon le fuseau du navigateur et la bascule par défaut.
+ */
+export const getCalendarSettings = (): CalendarSettings => {
+    if (activeSettings) return activeSettings;
+    let stored: Partial<CalendarSettings> = {};
+    try {
+        const raw = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+        if (raw) stored = JSON.parse(raw);
+    } catch (e) {
+        console.warn("Réglages de calendrier illisibles, valeurs par défaut utilisées.", e);
+    }
+    activeSettings = sanitizeSettings(stored);
+    return activeSettings;
+};
+
+/**
+ * Change les réglages utilisés par tous les calculs de jours (séries, agenda, révisions).
+ */
+export const setCalendarSettings = (settings: Partial<CalendarSettings>): CalendarSettings => {
+    activeSettings = sanitizeSettings(settings);
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(activeSettings));
+    } catch (e) {
+        console.warn("Impossible d'enregistrer les réglages de calendrier.", e);
+    }
+    return activeSettings;
+};
+
+/**
+ * Réglages de calendrier d'un profil (valeurs par défaut pour les champs absents).
+ */
+export const getProfileCalendarSettings = (user: Pick<UserProfile, 'timeZone' | 'dayRolloverHour'>): CalendarSettings =>
+    sanitizeSettings({ timeZone: user.timeZone, rolloverHour: user.dayRolloverHour });
+
+// Les formateurs Intl sont coûteux à créer : un seul par fuseau
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit',
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+};
+
+// Heure murale (année, mois, jour, heure, minute) d'un instant dans un fuseau donné, exprimée comme un timestamp UTC
+const getWallClockTime = (timestamp: number, timeZone: string): number => {
+    const parts = getFormatter(timeZone).formatToParts(timestamp);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+};
+
+const toDayKey = (utcDate: Date): string => utcDate.toISOString().split('T')[0];
+
+const parseDayKeyUTC = (dayKey: string): number => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+};
+
+/**
+ * Clé 'YYYY-MM-DD' de la journée d'étude contenant l'instant donné.
+ */
+export const getDayKey = (timestamp: number = Date.now(), settings: CalendarSettings = getCalendarSettings()): string => {
+    const wallClock = getWallClockTime(timestamp, settings.timeZone);
+    return toDayKey(new Date(wallClock - settings.rolloverHour * ONE_HOUR_MS));
+};
+
+export const getTodayKey = (settings: CalendarSettings = getCalendarSettings()): string => getDayKey(Date.now(), settings);
+
+export const addDaysToKey = (dayKey: string, days: number): string =>
+    toDayKey(new Date(parseDayKeyUTC(dayKey) + days * ONE_DAY_MS));
+
+/**
+ * Nombre de jours de `from` à `to` (positif si `to` est après `from`).
+ */
+export const diffDayKeys = (from: string, to: string): number =>
+    Math.round((parseDayKeyUTC(to) - parseDayKeyUTC(from)) / ONE_DAY_MS);
+
+export const isYesterdayKey = (dayKey: string, settings: CalendarSettings = getCalendarSettings()): boolean =>
+    diffDayKeys(dayKey, getTodayKey(settings)) === 1;
+
+/**
+ * Instant où commence la journée d'étude `dayKey` (heure de bascule dans le fuseau de l'utilisateur).
+ */
+export const getDayStart = (dayKey: string, settings: CalendarSettings = getCalendarSettings()): number => {
+    const target = parseDayKeyUTC(dayKey) + settings.rolloverHour * ONE_HOUR_MS;
+    // Décalage du fuseau, recalculé une fois pour tenir compte d'un changement d'heure
+    let start = target - (getWallClockTime(target, settings.timeZone) - target);
+    start = target - (getWallClockTime(start, settings.timeZone) - start);
+    return start;
+};
+
+export const getStartOfDay = (timestamp: number = Date.now(), settings: CalendarSettings = getCalendarSettings()): number =>
+    getDayStart(getDayKey(timestamp, settings), settings);
+
+/**
+ * Début de la journée d'étude située `days` jours après celle de l'instant donné.
+ */
+export const addDays = (timestamp: number, days: number, settings: CalendarSettings = getCalendarSettings()): number =>
+    getDayStart(addDaysToKey(getDayKey(timestamp, settings), days), settings);
+
+/**
+ * Date (à midi, heure locale) correspondant à une clé, pour l'affichage avec toLocaleDateString.
+ */
+export const dayKeyToDate = (dayKey: string): Date => {
+    const [year, month, day] = dayKey.split('-').map(Number);
+    return new Date(year, month - 1, day, 12);
+};
@@ -0,0 +1,248 @@
+
+import type { FlashcardContent, KeyConcept, QuizQuestion, ValidationIssue, ValidationIssueCode } from '../types';
+import type { Language } from '../i18n/translations';
+import type { GeneratedCapsule } from './aiProvider';
+import { getClozeIndices, isClozeCard } from './clozeService';
+import { isOpenQuestion } from './openQuestionService';
+
+/**
+ * Contrôle du contenu produit par le modèle avant qu'il n'atteigne l'élève :
+ * - les petits défauts (espaces, doublons, bonne réponse écrite autrement qu'une option) sont corrigés ici ;
+ * - les défauts restants sont décrits champ par champ pour que le modèle ne corrige que ceux-là ;
+ * - ce qui n'a pas pu être corrigé est retiré (questions, flashcards) ou signalé (titre, résumé).
+ */
+
+export const MIN_QUIZ_OPTIONS = 2;
+
+const issue = (path: string, code: ValidationIssueCode): ValidationIssue => ({ path, code });
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const normalize = (text: string) =>
+    text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// --- Langue ---
+const STOPWORDS: Record<Language, Set<string>> = {
+    fr: new Set(['le', 'la', 'les', 'des', 'est', 'une', 'un', 'et', 'du', 'que', 'qui', 'pour', 'dans', 'sur', 'pas', 'au', 'aux', 'ce', 'ces', 'sont', 'avec', 'par', 'il', 'elle']),
+    en: new Set(['the', 'of', 'and', 'is', 'are', 'to', 'that', 'for', 'with', 'on', 'as', 'by', 'this', 'it', 'an', 'be', 'from', 'which', 'was', 'its']),
+};
+const MIN_STOPWORDS_TO_DECIDE = 3;
+
+/**
+ * Langue probable d'un texte (mots outils les plus fréquents), ou null si le texte est trop court pour conclure.
+ */
+export const detectLanguage = (text: string): Language | null => {
+    const words = text.toLowerCase().split(/[^\p{L}']+/u).filter(Boolean);
+    const fr = words.filter(w => STOPWORDS.fr.has(w)).length;
+    const en = words.filter(w => STOPWORDS.en.has(w)).length;
+    if (fr + en < MIN_STOPWORDS_TO_DECIDE || fr === en) return null;
+    return fr > en ? 'fr' : 'en';
+};
+
+// --- Validation ---
+export const validateQuizQuestion = (question: QuizQuestion, path: string): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const options = Array.isArray(question.options) ? question.options : [];
+    if (!str(question.question)) issues.push(issue(`${path}.question`, 'missing_field'));
+    // Question ouverte : pas d'options, mais une réponse de référence et une grille
+    if (isOpenQuestion(question)) {
+        if (!str(question.correctAnswer)) issues.push(issue(`${path}.correctAnswer`, 'missing_field'));
+        if (!question.rubric?.some(point => str(point))) issues.push(issue(`${path}.rubric`, 'empty_list'));
+        return issues;
+    }
+    if (options.filter(o => str(o)).length < MIN_QUIZ_OPTIONS) issues.push(issue(`${path}.options`, 'too_few_options'));
+    if (!str(question.correctAnswer)) issues.push(issue(`${path}.correctAnswer`, 'missing_field'));
+    else if (!options.includes(question.correctAnswer)) issues.push(issue(`${path}.correctAnswer`, 'answer_not_in_options'));
+    return issues;
+};
+
+// Une carte à trous n'a pas besoin de verso, mais son trou doit exister dans le texte
+export const validateFlashcard = (card: FlashcardContent, path: string): ValidationIssue[] => {
+    if (isClozeCard(card)) return getClozeIndices(str(card.front)).includes(card.clozeIndex ?? 1) ? [] : [issue(path, 'invalid_cloze')];
+    return !str(card.front) || !str(card.back) ? [issue(path, 'empty_flashcard')] : [];
+};
+
+export const validateCapsule = (capsule: GeneratedCapsule, language: Language): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    if (!str(capsule.title)) issues.push(issue('title', 'missing_field'));
+    if (!str(capsule.summary)) issues.push(issue('summary', 'missing_field'));
+
+    const detected = detectLanguage(`${capsule.title} ${capsule.summary}`);
+    if (detected && detected !== language) {
+        issues.push(issue('title', 'wrong_language'), issue('summary', 'wrong_language'));
+    }
+
+    (capsule.keyConcepts || []).forEach((kc, i) => {
+        if (!str(kc.concept) || !str(kc.explanation)) issues.push(issue(`keyConcepts[${i}]`, 'missing_field'));
+    });
+
+    if (!capsule.quiz?.length) issues.push(issue('quiz', 'empty_list'));
+    (capsule.quiz || []).forEach((q, i) => issues.push(...validateQuizQuestion(q, `quiz[${i}]`)));
+
+    if (!capsule.flashcards?.length) issues.push(issue('flashcards', 'empty_list'));
+    (capsule.flashcards || []).forEach((card, i) => issues.push(...validateFlashcard(card, `flashcards[${i}]`)));
+
+    return issues;
+};
+
+// --- Réparation automatique ---
+const uniqueOptions = (options: unknown): string[] => {
+    const seen = new Set<string>();
+    return (Array.isArray(options) ? options : []).map(str).filter(option => {
+        const key = normalize(option);
+        if (!option || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Retrouve l'option visée par une réponse écrite autrement : casse, lettre ("B", "b)"), numéro ("2") ou libellé partiel
+const matchAnswer = (answer: string, options: string[]): string | null => {
+    if (options.includes(answer)) return answer;
+    const key = normalize(answer);
+    const byText = options.find(o => normalize(o) === key);
+    if (byText) return byText;
+
+    const letter = answer.match(/^\(?([a-h])[).:]?$/i);
+    if (letter) return options[letter[1].toLowerCase().charCodeAt(0) - 97] ?? null;
+    const number = answer.match(/^\(?(\d)[).:]?$/);
+    if (number && !options.some(o => /^\d+$/.test(o))) return options[Number(number[1]) - 1] ?? null;
+    // "A) Paris" ou "Paris, France" pour l'option "Paris" : accepté seulement si une seule option correspond
+    const partial = options.filter(o => normalize(o) && (key.includes(normalize(o)) || normalize(o).includes(key)));
+    return key && partial.length === 1 ? partial[0] : null;
+};
+
+export const repairQuizQuestion = (question: QuizQuestion): QuizQuestion => {
+    if (isOpenQuestion(question)) {
+        return {
+            ...question,
+            question: str(question.question),
+            options: [],
+            correctAnswer: str(question.correctAnswer),
+            rubric: uniqueOptions(question.rubric),
+            explanation: str(question.explanation),
+        };
+    }
+    const options = uniqueOptions(question.options);
+    const answer = str(question.correctAnswer);
+    return {
+        ...question,
+        question: str(question.question),
+        options,
+        correctAnswer: (answer && matchAnswer(answer, options)) || answer,
+        explanation: str(question.explanation),
+    };
+};
+
+const repairFlashcard = (card: FlashcardContent): FlashcardContent => ({ ...card, front: str(card.front), back: str(card.back) });
+
+const isBlankFlashcard = (card: FlashcardContent) => !card.front && !card.back;
+const isBlankConcept = (kc: KeyConcept) => !str(kc.concept) && !str(kc.explanation);
+
+/**
+ * Corrige sans appel au modèle tout ce qui peut l'être de façon sûre.
+ */
+export const autoRepairCapsule = (capsule: GeneratedCapsule): GeneratedCapsule => ({
+    ...capsule,
+    title: str(capsule.title),
+    summary: str(capsule.summary),
+    keyConcepts: (Array.isArray(capsule.keyConcepts) ? capsule.keyConcepts : [])
+        .filter(kc => kc && !isBlankConcept(kc))
+        .map(kc => ({ ...kc, concept: str(kc.concept), explanation: str(kc.explanation) })),
+    examples: (Array.isArray(capsule.examples) ? capsule.examples : []).map(str).filter(Boolean),
+    quiz: (Array.isArray(capsule.quiz) ? capsule.quiz : []).filter(Boolean).map(repairQuizQuestion),
+    flashcards: (Array.isArray(capsule.flashcards) ? capsule.flashcards : []).filter(Boolean).map(repairFlashcard).filter(card => !isBlankFlashcard(card)),
+});
+
+// --- Corrections demandées au modèle ---
+export interface FieldRepairRequest {
+    path: string; // Champ de premier niveau ('title') ou élément d'une liste ('quiz[2]')
+    value: unknown;
+    problems: ValidationIssueCode[];
+}
+
+export interface FieldFix {
+    path: string;
+    value: unknown;
+}
+
+// 'quiz[2].correctAnswer' -> 'quiz[2]' : le modèle réécrit l'élément entier, pas un sous-champ isolé
+const getRepairPath = (path: string) => path.split('.')[0];
+
+const parsePath = (path: string): { field: keyof GeneratedCapsule; index?: number } | null => {
+    const match = path.match(/^(\w+)(?:\[(\d+)\])?$/);
+    return match ? { field: match[1] as keyof GeneratedCapsule, index: match[2] !== undefined ? Number(match[2]) : undefined } : null;
+};
+
+const getAtPath = (capsule: GeneratedCapsule, path: string): unknown => {
+    const parsed = parsePath(path);
+    if (!parsed) return undefined;
+    const value = capsule[parsed.field];
+    return parsed.index !== undefined && Array.isArray(value) ? value[parsed.index] : value;
+};
+
+/**
+ * Regroupe les problèmes par champ à corriger, avec la valeur actuelle de ce champ.
+ */
+export const buildRepairRequests = (capsule: GeneratedCapsule, issues: ValidationIssue[]): FieldRepairRequest[] => {
+    const byPath = new Map<string, ValidationIssueCode[]>();
+    issues.forEach(({ path, code }) => {
+        const repairPath = getRepairPath(path);
+        byPath.set(repairPath, [...(byPath.get(repairPath) || []), code]);
+    });
+    return Array.from(byPath.entries()).map(([path, problems]) => ({ path, value: getAtPath(capsule, path) ?? null, problems }));
+};
+
+// Champs que le modèle peut réécrire : textes de premier niveau, listes entières ou l'un de leurs éléments
+type TextField = 'title' | 'summary';
+type ListField = 'keyConcepts' | 'quiz' | 'flashcards';
+const TEXT_FIELDS: readonly string[] = ['title', 'summary'] satisfies TextField[];
+const LIST_FIELDS: readonly string[] = ['keyConcepts', 'quiz', 'flashcards'] satisfies ListField[];
+
+const isTextField = (field: string): field is TextField => TEXT_FIELDS.includes(field);
+const isListField = (field: string): field is ListField => LIST_FIELDS.includes(field);
+
+// L'élément corrigé complète l'original : un champ oublié par le modèle garde sa valeur
+const mergeItem = <T extends object>(items: T[], index: number, fix: Partial<T>): T[] =>
+    items.map((item, i) => (i === index ? { ...item, ...fix } : item));
+
+const applyFieldFix = (capsule: GeneratedCapsule, { path, value }: FieldFix): GeneratedCapsule => {
+    const parsed = parsePath(path);
+    if (!parsed || value === undefined || value === null) return capsule;
+    const { field, index } = parsed;
+    if (index === undefined) {
+        if (isTextField(field) && typeof value === 'string') return { ...capsule, [field]: value };
+        if (isListField(field) && Array.isArray(value)) return { ...capsule, [field]: value as GeneratedCapsule[ListField] };
+        return capsule;
+    }
+    if (!isListField(field) || typeof value !== 'object' || Array.isArray(value) || index >= (capsule[field] || []).length) return capsule;
+    switch (field) {
+        case 'keyConcepts': return { ...capsule, keyConcepts: mergeItem(capsule.keyConcepts, index, value) };
+        case 'quiz': return { ...capsule, quiz: mergeItem(capsule.quiz, index, value) };
+        case 'flashcards': return { ...capsule, flashcards: mergeItem(capsule.flashcards, index, value) };
+    }
+};
+
+/**
+ * Applique les corrections du modèle. Les chemins inconnus, hors limites ou d'un type inattendu sont ignorés.
+ */
+export const applyFieldFixes = (capsule: GeneratedCapsule, fixes: FieldFix[]): GeneratedCapsule =>
+    fixes.reduce(applyFieldFix, capsule);
+
+/**
+ * Retire les notions, questions et flashcards encore invalides (mieux vaut une question de moins qu'une question fausse).
+ * Les problèmes correspondants sont marqués `removed` ; les autres (titre, résumé...) restent signalés tels quels.
+ */
+export const dropInvalidItems = (capsule: GeneratedCapsule, issues: ValidationIssue[]): { capsule: GeneratedCapsule; issues: ValidationIssue[] } => {
+    const invalid = new Set(issues.map(i => getRepairPath(i.path)));
+    const keep = (field: 'keyConcepts' | 'quiz' | 'flashcards') => <T>(_: T, i: number) => !invalid.has(`${field}[${i}]`);
+    return {
+        capsule: {
+            ...capsule,
+            keyConcepts: (capsule.keyConcepts || []).filter(keep('keyConcepts')),
+            quiz: (capsule.quiz || []).filter(keep('quiz')),
+            flashcards: (capsule.flashcards || []).filter(keep('flashcards')),
+        },
+        issues: issues.map(i => (/\[\d+\]/.test(getRepairPath(i.path)) ? { ...i, removed: true } : i)),
+    };
+};
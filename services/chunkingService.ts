@@ -0,0 +1,124 @@
+
+/**
+ * Découpage des longs documents (cours, PDF de plusieurs centaines de pages) en morceaux
+ * qui tiennent dans le contexte du modèle, en respectant titres et paragraphes.
+ */
+
+export interface TextChunk {
+    index: number;
+    heading?: string; // Titre de la section qui occupe la plus grande partie du morceau
+    text: string;
+}
+
+// ~3000 tokens : laisse la place aux consignes et à la réponse
+export const MAX_CHUNK_CHARS = 12000;
+
+interface Section {
+    heading?: string;
+    paragraphs: string[];
+}
+
+const HEADING_PATTERNS = [
+    /^#{1,6}\s+\S/, // Markdown
+    /^(chapitre|chapter|partie|part|section|leçon|lesson|module|unité|unit)\b.{0,80}$/i,
+    /^(\d+(\.\d+)*\.?|[IVXLC]+\.)\s+\S.{0,80}$/, // 1. / 2.3 / IV.
+];
+
+const isHeading = (line: string): boolean => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.length > 90) return false;
+    if (HEADING_PATTERNS.some(pattern => pattern.test(trimmed))) return true;
+    // Ligne courte tout en majuscules (titres extraits des PDF)
+    return trimmed.length >= 4 && /\p{Lu}/u.test(trimmed) && trimmed === trimmed.toUpperCase() && !/[.!?]$/.test(trimmed);
+};
+
+const cleanHeading = (line: string) => line.trim().replace(/^#+\s*/, '');
+
+const toSections = (text: string): Section[] => {
+    const sections: Section[] = [{ paragraphs: [] }];
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        if (paragraph.length > 0) sections[sections.length - 1].paragraphs.push(paragraph.join('\n'));
+        paragraph = [];
+    };
+
+    text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+        if (!line.trim()) {
+            flushParagraph();
+        } else if (isHeading(line)) {
+            flushParagraph();
+            sections.push({ heading: cleanHeading(line), paragraphs: [] });
+        } else {
+            paragraph.push(line.trim());
+        }
+    });
+    flushParagraph();
+
+    return sections.filter(section => section.heading || section.paragraphs.length > 0);
+};
+
+// Séparateurs du plus au moins naturel pour couper un bloc trop long
+const SPLITTERS = [/\n/, /(?<=[.!?…])\s+/, /\s+/];
+
+const splitOversized = (text: string, maxChars: number, level = 0): string[] => {
+    if (text.length <= maxChars) return [text];
+    if (level >= SPLITTERS.length) {
+        const parts: string[] = [];
+        for (let i = 0; i < text.length; i += maxChars) parts.push(text.slice(i, i + maxChars));
+        return parts;
+    }
+    const pieces = text.split(SPLITTERS[level]).filter(Boolean);
+    const separator = level === 0 ? '\n' : ' ';
+    const result: string[] = [];
+    let current = '';
+    pieces.flatMap(piece => splitOversized(piece, maxChars, level + 1)).forEach(piece => {
+        if (current && current.length + separator.length + piece.length > maxChars) {
+            result.push(current);
+            current = piece;
+        } else {
+            current = current ? current + separator + piece : piece;
+        }
+    });
+    if (current) result.push(current);
+    return result;
+};
+
+/**
+ * Découpe un texte en morceaux d'au plus `maxChars` caractères.
+ * Une nouvelle section (titre) ouvre un nouveau morceau dès que le morceau courant est à moitié plein ;
+ * les paragraphes ne sont coupés que s'ils dépassent à eux seuls la taille maximale.
+ */
+export const chunkText = (text: string, maxChars: number = MAX_CHUNK_CHARS): TextChunk[] => {
+    const chunks: TextChunk[] = [];
+    let current: { parts: string[]; length: number; sectionSizes: Map<string | undefined, number> } | null = null;
+
+    const flush = () => {
+        if (current && current.parts.length > 0) {
+            const [heading] = Array.from(current.sectionSizes.entries()).reduce((a, b) => (b[1] > a[1] ? b : a));
+            chunks.push({ index: chunks.length, heading, text: current.parts.join('\n\n') });
+        }
+        current = null;
+    };
+
+    const append = (block: string, heading?: string) => {
+        if (current && current.length + block.length + 2 > maxChars) flush();
+        if (!current) current = { parts: [], length: 0, sectionSizes: new Map() };
+        current.parts.push(block);
+        current.length += block.length + 2;
+        current.sectionSizes.set(heading, (current.sectionSizes.get(heading) || 0) + block.length);
+    };
+
+    toSections(text).forEach(section => {
+        if (section.heading && current && current.length >= maxChars / 2) flush();
+        const blocks = section.heading ? [section.heading, ...section.paragraphs] : section.paragraphs;
+        blocks
+            .flatMap(block => splitOversized(block, maxChars))
+            .forEach(block => append(block, section.heading));
+    });
+    flush();
+
+    return chunks;
+};
+
+export const isLongDocument = (text: string, maxChars: number = MAX_CHUNK_CHARS): boolean => text.length > maxChars;
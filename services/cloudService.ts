@@ -2,6 +2,7 @@
 import { db } from './firebase';
 import { collection, doc, setDoc, deleteDoc, onSnapshot, query, orderBy, writeBatch, getDoc, where, updateDoc, arrayUnion, getDocs } from "firebase/firestore";
 import type { CognitiveCapsule, Group, GroupMember, Comment, CollaborativeTask, MemberProgress } from '../types';
+import { assignItemIds } from './srsService';
 
 // Nom de la collection racine pour les utilisateurs
 const USERS_COLLECTION = 'users';
@@ -12,14 +13,16 @@ const CAPSULES_SUBCOLLECTION = 'capsules';
 
 export const saveCapsuleToCloud = async (userId: string, capsule: CognitiveCapsule) => {
     if (!db || !userId) return;
+    // Cartes et questions enregistrées avec leur identifiant : leur planning ne dépend plus de leur position
+    const stored = assignItemIds(capsule);
     try {
         // Si c'est une capsule de groupe, on la sauvegarde dans le groupe
-        if (capsule.groupId) {
-            await updateGroupCapsule(capsule.groupId, capsule, userId);
+        if (stored.groupId) {
+            await updateGroupCapsule(stored.groupId, stored, userId);
         } else {
             // Sinon sauvegarde perso
-            const capsuleRef = doc(db, USERS_COLLECTION, userId, CAPSULES_SUBCOLLECTION, capsule.id);
-            await setDoc(capsuleRef, capsule, { merge: true });
+            const capsuleRef = doc(db, USERS_COLLECTION, userId, CAPSULES_SUBCOLLECTION, stored.id);
+            await setDoc(capsuleRef, stored, { merge: true });
         }
     } catch (error) {
         console.error("Erreur sauvegarde cloud:", error);
@@ -48,7 +51,7 @@ export const migrateLocalDataToCloud = async (userId: string, localCapsules: Cog
         const capsuleRef = doc(db, USERS_COLLECTION, userId, CAPSULES_SUBCOLLECTION, capsule.id);
         const docSnap = await getDoc(capsuleRef);
         if (!docSnap.exists()) {
-            batch.set(capsuleRef, capsule);
+            batch.set(capsuleRef, assignItemIds(capsule));
             operationCount++;
         }
     }
@@ -69,7 +72,7 @@ export const subscribeToCapsules = (userId: string, onUpdate: (capsules: Cogniti
     return onSnapshot(capsulesQuery, (snapshot) => {
         const capsules: CognitiveCapsule[] = [];
         snapshot.forEach((doc) => {
-            capsules.push(doc.data() as CognitiveCapsule);
+            capsules.push(assignItemIds(doc.data() as CognitiveCapsule));
         });
         onUpdate(capsules);
     }, (error) => {
@@ -177,7 +180,7 @@ export const shareCapsuleToGroup = async (userId: string, group: Group, capsule:
     if (!db) return;
 
     const sharedCapsule: CognitiveCapsule = {
-        ...capsule,
+        ...assignItemIds(capsule),
         id: `shared_${capsule.id}_${Date.now()}`, // Nouvel ID pour la version partagée
         groupId: group.id,
         groupName: group.name,
@@ -224,7 +227,7 @@ export const subscribeToGroupCapsules = (groupId: string, onUpdate: (capsules: C
     return onSnapshot(q, (snapshot) => {
         const capsules: CognitiveCapsule[] = [];
         snapshot.forEach((doc) => {
-            capsules.push(doc.data() as CognitiveCapsule);
+            capsules.push(assignItemIds(doc.data() as CognitiveCapsule));
         });
         onUpdate(capsules);
     });
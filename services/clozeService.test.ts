@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { CognitiveCapsule } from '../types';
+import {
+    CLOZE_PLACEHOLDER,
+    createClozeCards,
+    getClozeIndices,
+    getClozeSegments,
+    getFlashcardText,
+    hasCloze,
+    insertCloze,
+} from './clozeService';
+import { assignItemIds, getDueFlashcards, recordItemReview } from './srsService';
+
+const TEXT = "La {{c1::mitochondrie}} produit l'{{c2::ATP::molécule}}, stockée dans la {{c1::mitochondrie}}.";
+
+describe('getClozeIndices', () => {
+    it('lists each deletion number once, in order', () => {
+        expect(getClozeIndices(TEXT)).toEqual([1, 2]);
+        expect(getClozeIndices('{{c3::a}} {{c1::b}} {{c3::c}}')).toEqual([1, 3]);
+    });
+
+    it('ignores empty or malformed deletions', () => {
+        expect(getClozeIndices('{{c1::  }} {{c::a}} {c2::b}')).toEqual([]);
+        expect(hasCloze('Pas de trou ici')).toBe(false);
+    });
+});
+
+describe('createClozeCards', () => {
+    it('creates one card per deletion number', () => {
+        const cards = createClozeCards(`  ${TEXT}  `, ' Organite ');
+        expect(cards).toEqual([
+            { front: TEXT, back: 'Organite', cardType: 'cloze', clozeIndex: 1 },
+            { front: TEXT, back: 'Organite', cardType: 'cloze', clozeIndex: 2 },
+        ]);
+    });
+
+    it('creates no card from a text without deletion', () => {
+        expect(createClozeCards('La mitochondrie produit l’ATP.')).toEqual([]);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('schedules each deletion as its own flashcard', () => {
+        const now = Date.UTC(2026, 5, 15, 12);
+        vi.useFakeTimers();
+        vi.setSystemTime(now);
+        const capsule: CognitiveCapsule = assignItemIds({
+            id: 'cellule', title: 'La cellule', summary: '', keyConcepts: [], examples: [], quiz: [],
+            flashcards: createClozeCards(TEXT), createdAt: now - 10 * 24 * 60 * 60 * 1000, lastReviewed: null, reviewStage: 0,
+        });
+        const [first, second] = capsule.flashcards!;
+        expect(first.id).not.toBe(second.id);
+
+        const reviewed = recordItemReview(capsule, 'flashcard', first.id!, 100, now);
+        expect(reviewed.flashcards![0].memory).toBeDefined();
+        expect(reviewed.flashcards![1].memory).toBeUndefined();
+        expect(getDueFlashcards(reviewed).map(card => card.clozeIndex)).toEqual([2]);
+    });
+});
+
+describe('getClozeSegments', () => {
+    it('hides the deletion of the card and shows the others', () => {
+        expect(getClozeSegments(TEXT, 2, false).map(segment => [segment.kind, segment.text])).toEqual([
+            ['plain', 'La '],
+            ['other', 'mitochondrie'],
+            ['plain', " produit l'"],
+            ['hidden', '[molécule]'],
+            ['plain', ', stockée dans la '],
+            ['other', 'mitochondrie'],
+            ['plain', '.'],
+        ]);
+    });
+
+    it('hides every occurrence of the same number and reveals them as answers', () => {
+        const hidden = getClozeSegments(TEXT, 1, false).filter(segment => segment.kind === 'hidden');
+        expect(hidden.map(segment => segment.text)).toEqual([CLOZE_PLACEHOLDER, CLOZE_PLACEHOLDER]);
+        const answers = getClozeSegments(TEXT, 1, true).filter(segment => segment.kind === 'answer');
+        expect(answers.map(segment => segment.text)).toEqual(['mitochondrie', 'mitochondrie']);
+    });
+});
+
+describe('getFlashcardText', () => {
+    it('gives the question and the answer of a cloze card as plain text', () => {
+        const [card] = createClozeCards(TEXT, 'Organite');
+        expect(getFlashcardText(card, 'front')).toBe(`La ${CLOZE_PLACEHOLDER} produit l'ATP, stockée dans la ${CLOZE_PLACEHOLDER}.`);
+        expect(getFlashcardText(card, 'back')).toBe("La mitochondrie produit l'ATP, stockée dans la mitochondrie.\n\nOrganite");
+    });
+
+    it('keeps the sides of a basic card', () => {
+        expect(getFlashcardText({ front: 'Recto', back: 'Verso' }, 'back')).toBe('Verso');
+    });
+});
+
+describe('insertCloze', () => {
+    it('wraps the selection in the next deletion number', () => {
+        const text = "La {{c1::mitochondrie}} produit l'ATP.";
+        const start = text.indexOf('ATP');
+        expect(insertCloze(text, start, start + 3)).toBe("La {{c1::mitochondrie}} produit l'{{c2::ATP}}.");
+        expect(insertCloze('Texte', 0, 0)).toBe('{{c1::...}}Texte');
+    });
+});
@@ -0,0 +1,76 @@
+
+import type { FlashcardContent } from '../types';
+
+/**
+ * Cartes à trous (syntaxe Anki) : "La {{c1::mitochondrie}} produit l'{{c2::ATP::molécule}}".
+ * Un texte donne une carte par numéro de trou ; chaque carte masque son trou et laisse les autres visibles,
+ * ce qui permet de planifier chaque trou séparément avec le reste des flashcards (srsService).
+ */
+
+// {{c<n>::réponse}} ou {{c<n>::réponse::indice}}
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export const CLOZE_PLACEHOLDER = '[...]';
+
+export interface ClozeSegment {
+    text: string;
+    kind: 'plain' | 'hidden' | 'answer' | 'other'; // 'other' : trou d'une autre carte, affiché en clair
+}
+
+export const isClozeCard = (card: FlashcardContent): boolean => card.cardType === 'cloze';
+
+/**
+ * Numéros de trous présents dans le texte, triés et sans doublon.
+ */
+export const getClozeIndices = (text: string): number[] => {
+    const indices = new Set<number>();
+    for (const match of text.matchAll(CLOZE_PATTERN)) {
+        if (match[2].trim()) indices.add(Number(match[1]));
+    }
+    return Array.from(indices).sort((a, b) => a - b);
+};
+
+export const hasCloze = (text: string): boolean => getClozeIndices(text).length > 0;
+
+/**
+ * Découpe le texte pour l'affichage de la carte `index` : son trou est masqué (ou montré comme réponse si `revealed`).
+ */
+export const getClozeSegments = (text: string, index: number, revealed: boolean): ClozeSegment[] => {
+    const segments: ClozeSegment[] = [];
+    let last = 0;
+    for (const match of text.matchAll(CLOZE_PATTERN)) {
+        const start = match.index ?? 0;
+        if (start > last) segments.push({ text: text.slice(last, start), kind: 'plain' });
+        const [, number, answer, hint] = match;
+        if (Number(number) !== index) segments.push({ text: answer, kind: 'other' });
+        else if (revealed) segments.push({ text: answer, kind: 'answer' });
+        else segments.push({ text: hint ? `[${hint}]` : CLOZE_PLACEHOLDER, kind: 'hidden' });
+        last = start + match[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.slice(last), kind: 'plain' });
+    return segments;
+};
+
+/**
+ * Texte brut d'une face de carte (exports PDF, synthèse vocale), pour tous les types de cartes.
+ */
+export const getFlashcardText = (card: FlashcardContent, side: 'front' | 'back'): string => {
+    if (!isClozeCard(card)) return side === 'front' ? card.front : card.back;
+    const text = getClozeSegments(card.front, card.clozeIndex ?? 1, side === 'back').map(s => s.text).join('');
+    return side === 'back' && card.back.trim() ? `${text}\n\n${card.back}` : text;
+};
+
+/**
+ * Une carte par trou du texte (aucune si le texte n'a pas de trou valide).
+ */
+export const createClozeCards = (text: string, extra: string = ''): FlashcardContent[] =>
+    getClozeIndices(text).map(clozeIndex => ({ front: text.trim(), back: extra.trim(), cardType: 'cloze', clozeIndex }));
+
+/**
+ * Entoure la sélection [start, end[ d'un nouveau trou (numéro suivant le plus grand déjà utilisé).
+ */
+export const insertCloze = (text: string, start: number, end: number): string => {
+    const next = Math.max(0, ...getClozeIndices(text)) + 1;
+    const selected = text.slice(start, end) || '...';
+    return `${text.slice(0, start)}{{c${next}::${selected}}}${text.slice(end)}`;
+};
@@ -0,0 +1,188 @@
+
+import type { ChatMessage, CoachingMode, CognitiveCapsule, OpenAnswerGrade, QuizQuestion } from '../types';
+import type { Language } from '../i18n/translations';
+import type { SolverStep } from './aiProvider';
+import { getQuizQuestions } from './srsService';
+import { getItemDurationSeconds } from './reviewSessionService';
+
+/**
+ * Séances de coaching sur une capsule, chacune décrite comme une suite d'états :
+ * - oral : chaque question est lue à voix haute, l'élève répond oralement (transcription Web Speech), la réponse est corrigée ;
+ * - examen : questions chronométrées, sans indice ni correction avant le bilan final noté ;
+ * - résolution guidée : le coach accompagne l'élève étape par étape sans jamais donner la réponse.
+ * Les transitions sont des fonctions pures : le composant appelle le modèle et passe le résultat à la transition suivante.
+ * Le score final est journalisé dans l'historique de la capsule (voir recordCoachingResult).
+ */
+
+export type GuidedCoachingMode = Exclude<CoachingMode, 'standard'>;
+
+export const MAX_ORAL_QUESTIONS = 5;
+export const MAX_EXAM_QUESTIONS = 10;
+export const MAX_SOLVER_PROBLEM_CHARS = 2000;
+export const MAX_SOLVER_STEP_CHARS = 1000;
+const SOLVER_STEP_PENALTY = 10; // Points retirés par étape au-delà de la première
+const MIN_SOLVED_SCORE = 50; // Un problème résolu, même très guidé, vaut au moins ce score
+
+// --- Oral et examen : une suite de questions ---
+
+export type QuestionSessionPhase = 'asking' | 'grading' | 'feedback' | 'finished';
+
+export interface CoachingAnswer {
+    questionId: string;
+    answer: string;
+    score: number; // 0-100
+    feedback: string;
+    missingPoints: string[];
+    timedOut?: boolean;
+}
+
+export interface QuestionSessionState {
+    mode: 'oral' | 'exam';
+    questions: QuizQuestion[];
+    index: number;
+    phase: QuestionSessionPhase; // 'feedback' n'existe qu'à l'oral : l'examen ne corrige qu'au bilan
+    answers: CoachingAnswer[];
+    questionStartedAt: number;
+}
+
+/**
+ * Questions de l'oral : un concept clé à expliquer avec ses mots, corrigé comme une question ouverte
+ * dont la réponse de référence est l'explication du concept.
+ */
+export const buildOralQuestions = (capsule: Pick<CognitiveCapsule, 'keyConcepts'>, language: Language): QuizQuestion[] =>
+    capsule.keyConcepts.slice(0, MAX_ORAL_QUESTIONS).map((kc, i) => ({
+        id: `oral-${i}`,
+        question: language === 'fr' ? `Expliquez avec vos mots : « ${kc.concept} ».` : `Explain in your own words: "${kc.concept}".`,
+        options: [],
+        correctAnswer: kc.explanation,
+        explanation: '',
+        questionType: 'open',
+        rubric: [kc.explanation],
+    }));
+
+export const buildExamQuestions = (capsule: CognitiveCapsule): QuizQuestion[] =>
+    getQuizQuestions(capsule).slice(0, MAX_EXAM_QUESTIONS);
+
+// Même estimation que pour les sessions de révision : plus de temps pour une réponse à rédiger
+export const getTimeLimitSeconds = (question: QuizQuestion): number => getItemDurationSeconds({ kind: 'quiz', question });
+
+export const startQuestionSession = (mode: 'oral' | 'exam', questions: QuizQuestion[], now: number = Date.now()): QuestionSessionState => ({
+    mode,
+    questions,
+    index: 0,
+    phase: questions.length > 0 ? 'asking' : 'finished',
+    answers: [],
+    questionStartedAt: now,
+});
+
+export const getCurrentQuestion = (state: QuestionSessionState): QuizQuestion | null =>
+    state.phase === 'finished' ? null : state.questions[state.index] || null;
+
+export const getRemainingSeconds = (state: QuestionSessionState, now: number = Date.now()): number => {
+    const question = getCurrentQuestion(state);
+    if (!question) return 0;
+    return Math.max(0, getTimeLimitSeconds(question) - Math.floor((now - state.questionStartedAt) / 1000));
+};
+
+// La réponse part en correction : plus de saisie possible
+export const submitAnswer = (state: QuestionSessionState): QuestionSessionState =>
+    state.phase === 'asking' ? { ...state, phase: 'grading' } : state;
+
+// La correction a échoué : l'élève peut renvoyer sa réponse
+export const cancelGrading = (state: QuestionSessionState): QuestionSessionState =>
+    state.phase === 'grading' ? { ...state, phase: 'asking' } : state;
+
+export const gradeMultipleChoice = (question: QuizQuestion, answer: string): CoachingAnswer => ({
+    questionId: question.id || '',
+    answer,
+    score: answer === question.correctAnswer ? 100 : 0,
+    feedback: question.explanation,
+    missingPoints: [],
+});
+
+export const toCoachingAnswer = (question: QuizQuestion, answer: string, grade: OpenAnswerGrade): CoachingAnswer => ({
+    questionId: question.id || '',
+    answer,
+    score: grade.score,
+    feedback: grade.feedback,
+    missingPoints: grade.missingPoints,
+});
+
+export const nextQuestion = (state: QuestionSessionState, now: number = Date.now()): QuestionSessionState => {
+    if (state.phase === 'finished') return state;
+    const index = state.index + 1;
+    return index < state.questions.length
+        ? { ...state, index, phase: 'asking', questionStartedAt: now }
+        : { ...state, phase: 'finished' };
+};
+
+/**
+ * Enregistre la réponse corrigée. À l'oral, la correction s'affiche avant la question suivante ;
+ * à l'examen, on passe directement à la suite.
+ */
+export const recordAnswer = (state: QuestionSessionState, answer: CoachingAnswer, now: number = Date.now()): QuestionSessionState => {
+    if (state.phase !== 'asking' && state.phase !== 'grading') return state;
+    const answered = { ...state, answers: [...state.answers, answer] };
+    return state.mode === 'oral' ? { ...answered, phase: 'feedback' } : nextQuestion(answered, now);
+};
+
+// Temps écoulé à l'examen : la question compte comme fausse
+export const timeOutQuestion = (state: QuestionSessionState, now: number = Date.now()): QuestionSessionState => {
+    const question = getCurrentQuestion(state);
+    if (!question || state.phase !== 'asking') return state;
+    return recordAnswer(state, { questionId: question.id || '', answer: '', score: 0, feedback: '', missingPoints: [], timedOut: true }, now);
+};
+
+// Moyenne sur toutes les questions : celles restées sans réponse comptent 0
+export const getQuestionSessionScore = (state: QuestionSessionState): number =>
+    state.questions.length > 0
+        ? Math.round(state.answers.reduce((acc, answer) => acc + answer.score, 0) / state.questions.length)
+        : 0;
+
+// --- Résolution guidée ---
+
+export type SolverPhase = 'thinking' | 'awaiting_step' | 'solved' | 'abandoned';
+
+export interface SolverState {
+    problem: string;
+    messages: ChatMessage[];
+    phase: SolverPhase;
+}
+
+// Le coach parle en premier : il reformule le problème et pose la première question
+export const startSolver = (problem: string): SolverState => ({
+    problem: problem.trim().slice(0, MAX_SOLVER_PROBLEM_CHARS),
+    messages: [],
+    phase: 'thinking',
+});
+
+export const addStudentStep = (state: SolverState, step: string, now: number = Date.now()): SolverState => {
+    const content = step.trim().slice(0, MAX_SOLVER_STEP_CHARS);
+    if (state.phase !== 'awaiting_step' || !content) return state;
+    return { ...state, messages: [...state.messages, { role: 'user', content, createdAt: now }], phase: 'thinking' };
+};
+
+export const applyCoachStep = (state: SolverState, step: SolverStep, now: number = Date.now()): SolverState => {
+    if (state.phase !== 'thinking') return state;
+    return {
+        ...state,
+        messages: [...state.messages, { role: 'model', content: step.message, createdAt: now }],
+        phase: step.solved ? 'solved' : 'awaiting_step',
+    };
+};
+
+// Le coach n'a pas pu répondre : l'élève peut reformuler son étape
+export const resumeSolver = (state: SolverState): SolverState =>
+    state.phase === 'thinking' ? { ...state, phase: 'awaiting_step' } : state;
+
+export const abandonSolver = (state: SolverState): SolverState =>
+    state.phase === 'solved' ? state : { ...state, phase: 'abandoned' };
+
+export const getStudentStepCount = (state: SolverState): number =>
+    state.messages.filter(message => message.role === 'user').length;
+
+// Résolu en une étape : 100 ; chaque étape guidée supplémentaire coûte des points ; abandon : 0
+export const getSolverScore = (state: SolverState): number =>
+    state.phase === 'solved'
+        ? Math.max(MIN_SOLVED_SCORE, 100 - SOLVER_STEP_PENALTY * (getStudentStepCount(state) - 1))
+        : 0;
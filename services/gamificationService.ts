@@ -1,5 +1,6 @@
 
 import type { Badge, BadgeId, GamificationStats, CognitiveCapsule } from '../types';
+import { getTodayKey, isYesterdayKey } from './calendarService';
 
 // --- CONSTANTS ---
 
@@ -20,19 +21,6 @@ const BADGES_DEFINITIONS: Badge[] = [
     { id: 'social_butterfly', name: 'Collaborateur', description: 'Rejoignez un groupe.', icon: 'users' },
 ];
 
-// --- HELPERS ---
-
-const getTodayDateString = () => new Date().toISOString().split('T')[0];
-
-const isYesterday = (dateString: string) => {
-    const today = new Date();
-    const date = new Date(dateString);
-    const diffTime = Math.abs(today.getTime() - date.getTime());
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-    // Approx, robust enough for streaks
-    return diffDays <= 2 && diffDays >= 1 && today.getDate() !== date.getDate();
-};
-
 // --- CORE LOGIC ---
 
 export const calculateLevel = (xp: number): number => {
@@ -85,9 +73,10 @@ export const processGamificationAction = (
     const levelUp = newStats.level > oldLevel;
 
     // 2. Update Streak
-    const today = getTodayDateString();
+    // Journées découpées dans le fuseau de l'utilisateur, avec l'heure de bascule (voir calendarService)
+    const today = getTodayKey();
     if (newStats.lastStudyDate !== today) {
-        if (newStats.lastStudyDate && isYesterday(newStats.lastStudyDate)) {
+        if (newStats.lastStudyDate && isYesterdayKey(newStats.lastStudyDate)) {
             newStats.currentStreak += 1;
         } else if (newStats.lastStudyDate !== today) {
             newStats.currentStreak = 1; // Reset if missed a day, or start new
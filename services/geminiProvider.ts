@@ -0,0 +1,320 @@
+// services/geminiProvider.ts
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import type { QuizQuestion } from '../types';
+import type { Language } from '../i18n/translations';
+import {
+  AIProvider,
+  cleanJsonResponse,
+  getLangName,
+  throwIfAborted,
+  withRetries,
+} from './aiProvider';
+import { createCapsuleStreamParser } from './streamingJsonService';
+import {
+  buildCapsulePartPrompt,
+  buildCapsulePrompt,
+  buildCoachingPrompt,
+  buildClozePrompt,
+  buildConceptPrompt,
+  buildDrawingPrompt,
+  buildGradingPrompt,
+  buildMergePrompt,
+  buildMindMapPrompt,
+  buildNarrationPrompt,
+  buildQuizPrompt,
+  buildRepairPrompt,
+  buildSolverPrompt,
+  buildTimelinePrompt,
+  buildTranslationPrompt,
+  buildTutorPrompt,
+} from './promptService';
+
+const TEXT_MODEL = "gemini-2.5-flash";
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const TTS_SAMPLE_RATE = 24000;
+
+// --- Schemas ---
+const sourceSchema = { type: Type.OBJECT, properties: { quote: { type: Type.STRING } }, required: ['quote'] };
+
+const quizQuestionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    questionType: { type: Type.STRING, enum: ['multiple_choice', 'open'] },
+    question: { type: Type.STRING },
+    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+    correctAnswer: { type: Type.STRING },
+    rubric: { type: Type.ARRAY, items: { type: Type.STRING } },
+    explanation: { type: Type.STRING },
+    source: sourceSchema
+  },
+  required: ['question','options','correctAnswer','explanation']
+};
+
+const flashcardSchema = (lang: Language) => ({
+  type: Type.ARRAY,
+  description: `List of 5 to 8 flashcards (front/back) in ${getLangName(lang)}`,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      front: { type: Type.STRING },
+      back: { type: Type.STRING },
+      source: sourceSchema
+    },
+    required: ['front','back']
+  }
+});
+
+const capsuleSchema = (lang: Language) => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    keyConcepts: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { concept: { type: Type.STRING }, explanation: { type: Type.STRING }, source: sourceSchema },
+        required: ['concept','explanation']
+      }
+    },
+    examples: { type: Type.ARRAY, items: { type: Type.STRING } },
+    quiz: { type: Type.ARRAY, items: quizQuestionSchema },
+    flashcards: flashcardSchema(lang),
+    sourceType: { type: Type.STRING }
+  },
+  required: ['title','summary','keyConcepts','examples','quiz','flashcards']
+});
+
+const gradeSchema = {
+  type: Type.OBJECT,
+  properties: {
+    score: { type: Type.NUMBER },
+    missingPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    feedback: { type: Type.STRING }
+  },
+  required: ['score','missingPoints','feedback']
+};
+
+const tutorSchema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    citedConcepts: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ['answer','citedConcepts']
+};
+
+const solverSchema = {
+  type: Type.OBJECT,
+  properties: {
+    message: { type: Type.STRING },
+    solved: { type: Type.BOOLEAN }
+  },
+  required: ['message','solved']
+};
+
+const stringList = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+const translationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    summary: { type: Type.STRING },
+    keyConcepts: {
+      type: Type.ARRAY,
+      items: { type: Type.OBJECT, properties: { concept: { type: Type.STRING }, explanation: { type: Type.STRING } }, required: ['concept','explanation'] }
+    },
+    examples: stringList,
+    quiz: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          question: { type: Type.STRING },
+          options: stringList,
+          correctAnswer: { type: Type.STRING },
+          explanation: { type: Type.STRING },
+          rubric: stringList
+        },
+        required: ['id','question','options','correctAnswer','explanation']
+      }
+    },
+    flashcards: {
+      type: Type.ARRAY,
+      items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, front: { type: Type.STRING }, back: { type: Type.STRING } }, required: ['id','front','back'] }
+    }
+  },
+  required: ['title','summary','keyConcepts','examples','quiz','flashcards']
+};
+
+const mindMapLeafSchema = { type: Type.OBJECT, properties: { label: { type: Type.STRING } }, required: ['label'] };
+
+// Profondeur fixe (racine, branches, sous-branches) : le schéma ne peut pas être récursif
+const mindMapSchema = {
+  type: Type.OBJECT,
+  properties: {
+    label: { type: Type.STRING },
+    children: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: { label: { type: Type.STRING }, children: { type: Type.ARRAY, items: mindMapLeafSchema } },
+        required: ['label']
+      }
+    }
+  },
+  required: ['label','children']
+};
+
+const timelineSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: { date: { type: Type.STRING }, title: { type: Type.STRING }, description: { type: Type.STRING } },
+    required: ['date','title','description']
+  }
+};
+
+const partSummarySchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    summary: { type: Type.STRING }
+  },
+  required: ['title','summary']
+};
+
+const coachingSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sessionId: { type: Type.STRING },
+    startTime: { type: Type.STRING },
+    instructions: { type: Type.STRING }
+  },
+  required: ['sessionId','startTime','instructions']
+};
+
+/**
+ * Adaptateur Gemini. Le client n'est créé qu'au premier appel : l'absence de clé API
+ * ne fait échouer que les requêtes, pas l'import du module.
+ */
+export const createGeminiProvider = (apiKey: string | undefined = import.meta.env.VITE_GOOGLE_GENAI_API_KEY): AIProvider => {
+  let ai: GoogleGenAI | null = null;
+  const getClient = () => {
+    if (!apiKey) throw new Error("VITE_GOOGLE_GENAI_API_KEY environment variable not set");
+    if (!ai) ai = new GoogleGenAI({ apiKey });
+    return ai;
+  };
+
+  // Le schéma n'est imposé qu'au premier essai : certains contenus le font échouer
+  const generateJson = (prompt: string, schema: any, signal?: AbortSignal) => withRetries(async attempt => {
+    const config: any = { responseMimeType: "application/json", abortSignal: signal };
+    if(attempt===0) config.responseSchema = schema;
+    const response = await getClient().models.generateContent({ model: TEXT_MODEL, contents: { parts: [{ text: prompt }] }, config });
+    return JSON.parse(cleanJsonResponse(response.text || ''));
+  });
+
+  return {
+    name: 'gemini',
+    model: TEXT_MODEL,
+
+    generateCapsule: (request, signal) => generateJson(buildCapsulePrompt(request), capsuleSchema(request.language), signal),
+
+    // Pas de nouvel essai en streaming : l'élève a déjà vu le début de la capsule
+    streamCapsule: async (request, onPartial, signal) => {
+      const stream = await getClient().models.generateContentStream({
+        model: TEXT_MODEL,
+        contents: { parts: [{ text: buildCapsulePrompt(request) }] },
+        config: { responseMimeType: "application/json", responseSchema: capsuleSchema(request.language), abortSignal: signal },
+      });
+      const parser = createCapsuleStreamParser(onPartial);
+      for await (const chunk of stream) {
+        throwIfAborted(signal);
+        parser.push(chunk.text || '');
+      }
+      return JSON.parse(cleanJsonResponse(parser.text));
+    },
+
+    generateCapsulePart: (request, signal) => generateJson(buildCapsulePartPrompt(request), capsuleSchema(request.language), signal),
+
+    mergePartSummaries: (parts, language, signal) => generateJson(buildMergePrompt(parts, language), partSummarySchema, signal),
+
+    // Les valeurs corrigées sont de types variés (texte, question, liste) : pas de schéma
+    repairFields: async (title, requests, language, signal) => {
+      const result = await generateJson(buildRepairPrompt(title, requests, language), undefined, signal);
+      return Array.isArray(result?.fixes) ? result.fixes : [];
+    },
+
+    regenerateQuiz: async (title, language, signal): Promise<QuizQuestion[]> => {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: buildQuizPrompt(title, language),
+        config: { responseMimeType: "application/json", responseSchema: { type: Type.ARRAY, items: quizQuestionSchema }, abortSignal: signal }
+      });
+      return JSON.parse(cleanJsonResponse(response.text || ''));
+    },
+
+    expandKeyConcept: async (request, signal) => {
+      const response = await getClient().models.generateContent({ model: TEXT_MODEL, contents: buildConceptPrompt(request), config: { abortSignal: signal } });
+      return response.text || '';
+    },
+
+    generateClozeCards: async (request, signal) => {
+      const result = await generateJson(buildClozePrompt(request), { type: Type.ARRAY, items: { type: Type.STRING } }, signal);
+      return Array.isArray(result) ? result : [];
+    },
+
+    gradeOpenAnswer: (request, signal) => generateJson(buildGradingPrompt(request), gradeSchema, signal),
+
+    generateMindMap: (request, signal) => generateJson(buildMindMapPrompt(request), mindMapSchema, signal),
+
+    generateTimeline: (request, signal) => generateJson(buildTimelinePrompt(request), timelineSchema, signal),
+
+    generateNarrationScript: async (request, signal) => {
+      const response = await getClient().models.generateContent({ model: TEXT_MODEL, contents: buildNarrationPrompt(request), config: { abortSignal: signal } });
+      return response.text || '';
+    },
+
+    answerTutorQuestion: (request, signal) => generateJson(buildTutorPrompt(request), tutorSchema, signal),
+
+    coachSolverStep: (request, signal) => generateJson(buildSolverPrompt(request), solverSchema, signal),
+
+    translateCapsule: (request, signal) => generateJson(buildTranslationPrompt(request), translationSchema, signal),
+
+    createCoachingSession: (userProfile, mode, language, signal) =>
+      generateJson(buildCoachingPrompt(userProfile, mode, language), coachingSchema, signal),
+
+    generateImage: async (capsule, language, signal) => {
+      const imageResponse = await getClient().models.generateContent({
+        model: IMAGE_MODEL,
+        contents: { parts: [{ text: buildDrawingPrompt(capsule.title, language) }] },
+        config: { responseModalities: [Modality.IMAGE], abortSignal: signal }
+      });
+      const part = imageResponse.candidates?.[0]?.content?.parts?.[0];
+      return {
+        imageData: part?.inlineData?.data || '',
+        mimeType: part?.inlineData?.mimeType || 'image/png',
+        description: `Sketchnote for ${capsule.title}`,
+      };
+    },
+
+    synthesizeSpeech: async (text, _language, signal) => {
+      const response = await getClient().models.generateContent({
+        model: TTS_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          abortSignal: signal,
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
+          },
+        },
+      });
+      const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!audioData) throw new Error("Aucune donnée audio reçue.");
+      return { audioData, mimeType: 'audio/pcm', sampleRate: TTS_SAMPLE_RATE };
+    },
+  };
+};
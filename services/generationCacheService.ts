@@ -0,0 +1,152 @@
+
+import type { Language } from '../i18n/translations';
+
+/**
+ * Cache IndexedDB des réponses du modèle, devant la couche IA.
+ * La clé est l'empreinte SHA-256 de (fournisseur, modèle, prompt, langue) : le même PDF ou le même concept
+ * redemandé ne coûte plus d'appel. Les entrées expirent (TTL) et les moins récemment utilisées sont
+ * évincées au-delà des limites de nombre et de taille. Sans IndexedDB, tout passe directement au modèle.
+ */
+
+const DB_NAME = 'focus-generation-cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+export const DEFAULT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 jours
+export const MAX_CACHE_ENTRIES = 500;
+export const MAX_CACHE_BYTES = 20 * 1024 * 1024; // Taille approximative (longueur du JSON)
+// Le nettoyage parcourt tout l'index : il n'est lancé qu'une fois toutes les N écritures (limites dépassées d'au plus N entrées)
+const PRUNE_EVERY_WRITES = 20;
+
+interface CacheEntry {
+    key: string;
+    value: unknown;
+    size: number;
+    createdAt: number;
+    lastAccess: number;
+}
+
+export interface GenerationCacheKey {
+    provider: string;
+    model: string;
+    prompt: string;
+    language: Language;
+}
+
+export interface CacheOptions {
+    forceRegenerate?: boolean; // Ignore l'entrée existante et la remplace par une nouvelle réponse
+    ttlMs?: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let writesSincePrune = 0;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') return resolve(null);
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+                store.createIndex('lastAccess', 'lastAccess');
+            };
+            request.onsuccess = () => resolve(request.result);
+            // Navigation privée, quota refusé... : le cache est simplement désactivé
+            request.onerror = () => resolve(null);
+            request.onblocked = () => resolve(null);
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => Promise<T>): Promise<T | null> => {
+    const db = await openDatabase();
+    if (!db) return null;
+    return action(db.transaction(STORE, mode).objectStore(STORE));
+};
+
+export const hashCacheKey = async ({ provider, model, prompt, language }: GenerationCacheKey): Promise<string> => {
+    const data = new TextEncoder().encode(JSON.stringify([provider, model, language, prompt]));
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readEntry = (key: string, ttlMs: number) => withStore('readwrite', async store => {
+    const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+    if (!entry) return null;
+    if (Date.now() - entry.createdAt > ttlMs) {
+        store.delete(key);
+        return null;
+    }
+    store.put({ ...entry, lastAccess: Date.now() });
+    return entry;
+});
+
+/**
+ * Supprime les entrées expirées, puis les moins récemment utilisées tant que les limites sont dépassées.
+ */
+export const pruneGenerationCache = (ttlMs: number = DEFAULT_CACHE_TTL_MS) => withStore('readwrite', store =>
+    new Promise<void>((resolve, reject) => {
+        const now = Date.now();
+        let keptCount = 0;
+        let keptBytes = 0;
+        const cursorRequest = store.index('lastAccess').openCursor(null, 'prev'); // Les plus récentes d'abord
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return resolve();
+            const entry = cursor.value as CacheEntry;
+            if (now - entry.createdAt > ttlMs || keptCount >= MAX_CACHE_ENTRIES || keptBytes + entry.size > MAX_CACHE_BYTES) {
+                cursor.delete();
+            } else {
+                keptCount++;
+                keptBytes += entry.size;
+            }
+            cursor.continue();
+        };
+    }));
+
+const writeEntry = (key: string, value: unknown) => withStore('readwrite', async store => {
+    const size = JSON.stringify(value)?.length ?? 0;
+    if (size > MAX_CACHE_BYTES) return; // Trop gros pour être gardé
+    const now = Date.now();
+    await requestToPromise(store.put({ key, value, size, createdAt: now, lastAccess: now } as CacheEntry));
+});
+
+export const clearGenerationCache = () => withStore('readwrite', store => requestToPromise(store.clear()));
+
+/**
+ * Renvoie la réponse en cache pour cette clé, ou appelle `generate` et garde son résultat.
+ * Une erreur du cache ne bloque jamais la génération ; une erreur de `generate` n'est pas mise en cache.
+ * `isValid` écarte les réponses inutilisables : elles ne sont ni gardées, ni servies depuis le cache (une nouvelle demande retourne au modèle).
+ */
+export const getOrGenerate = async <T>(cacheKey: GenerationCacheKey, generate: () => Promise<T>, options: CacheOptions = {}, isValid: (value: T) => boolean = () => true): Promise<T> => {
+    const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+    let key: string | null = null;
+    try {
+        key = await hashCacheKey(cacheKey);
+        if (!options.forceRegenerate) {
+            const entry = await readEntry(key, ttlMs);
+            if (entry && isValid(entry.value as T)) return entry.value as T;
+        }
+    } catch (err) {
+        console.warn("Generation cache read failed", err);
+    }
+
+    const value = await generate();
+
+    if (key && isValid(value)) {
+        const shouldPrune = ++writesSincePrune >= PRUNE_EVERY_WRITES;
+        if (shouldPrune) writesSincePrune = 0;
+        writeEntry(key, value)
+            .then(() => shouldPrune ? pruneGenerationCache(ttlMs) : undefined)
+            .catch(err => console.warn("Generation cache write failed", err));
+    }
+    return value;
+};
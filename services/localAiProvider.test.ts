@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLocalAiProvider } from './localAiProvider';
+
+const CONFIG = { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' };
+const REQUEST = { inputText: 'La photosynthèse', sourceType: 'text' as const, language: 'fr' as const };
+const CAPSULE = { title: 'La photosynthèse', summary: 'Résumé', keyConcepts: [], examples: [], quiz: [], flashcards: [] };
+
+const sseLine = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+
+// Réponse en streaming découpée en morceaux arbitraires, comme le réseau peut les livrer
+const streamResponse = (chunks: string[]) => new Response(new ReadableStream<Uint8Array>({
+  start(controller) {
+    const encoder = new TextEncoder();
+    chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+    controller.close();
+  },
+}));
+
+const mockFetch = (response: () => Response) => {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => response());
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+// Capsule envoyée en deux moitiés, chacune dans sa ligne "data:"
+const capsuleLines = () => {
+  const json = JSON.stringify(CAPSULE);
+  const middle = Math.floor(json.length / 2);
+  return [sseLine(json.slice(0, middle)), sseLine(json.slice(middle))];
+};
+
+describe('local provider streaming', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the last data line when it has no trailing newline', async () => {
+    const [first, last] = capsuleLines();
+    mockFetch(() => streamResponse([`${first}\n\n`, last]));
+    const capsule = await createLocalAiProvider(CONFIG).streamCapsule(REQUEST, () => {});
+    expect(capsule).toEqual(CAPSULE);
+  });
+
+  it('reads lines split across network chunks', async () => {
+    const [first, last] = capsuleLines();
+    const body = `${first}\n\n${last}\n\ndata: [DONE]\n\n`;
+    mockFetch(() => streamResponse([body.slice(0, 10), body.slice(10, 45), body.slice(45)]));
+    const capsule = await createLocalAiProvider(CONFIG).streamCapsule(REQUEST, () => {});
+    expect(capsule).toEqual(CAPSULE);
+  });
+
+  it('skips keep-alive comments and unreadable lines', async () => {
+    const [first, last] = capsuleLines();
+    mockFetch(() => streamResponse([`: keep-alive\n${first}\ndata: {"choices": [\n${last}\n`]));
+    const capsule = await createLocalAiProvider(CONFIG).streamCapsule(REQUEST, () => {});
+    expect(capsule).toEqual(CAPSULE);
+  });
+
+  it('fails on an error sent by the server during the stream', async () => {
+    const [first] = capsuleLines();
+    mockFetch(() => streamResponse([`${first}\ndata: {"error": {"message": "model crashed"}}\n`]));
+    await expect(createLocalAiProvider(CONFIG).streamCapsule(REQUEST, () => {})).rejects.toThrow('model crashed');
+  });
+});
+
+describe('local provider requests', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('passes the abort signal to fetch', async () => {
+    const fetchMock = mockFetch(() => Response.json({ choices: [{ message: { content: 'Explication' } }] }));
+    const controller = new AbortController();
+    const explanation = await createLocalAiProvider(CONFIG).expandKeyConcept(
+      { title: 'La photosynthèse', concept: 'Chlorophylle', context: 'Pigment vert', mode: 'deeper', language: 'fr' },
+      controller.signal
+    );
+
+    expect(explanation).toBe('Explication');
+    expect(fetchMock.mock.calls[0][1]?.signal).toBe(controller.signal);
+  });
+});
@@ -0,0 +1,219 @@
+
+import type { QuizQuestion } from '../types';
+import {
+  AIProvider,
+  arrayBufferToBase64,
+  cleanJsonResponse,
+  createHttpError,
+  parseRetryAfter,
+  throwIfAborted,
+  withRetries,
+} from './aiProvider';
+import { createCapsuleStreamParser } from './streamingJsonService';
+import {
+  buildCapsulePartPrompt,
+  buildCapsulePrompt,
+  buildCoachingPrompt,
+  buildClozePrompt,
+  buildConceptPrompt,
+  buildDrawingPrompt,
+  buildGradingPrompt,
+  buildMergePrompt,
+  buildMindMapPrompt,
+  buildNarrationPrompt,
+  buildQuizPrompt,
+  buildRepairPrompt,
+  buildSolverPrompt,
+  buildTimelinePrompt,
+  buildTranslationPrompt,
+  buildTutorPrompt,
+} from './promptService';
+
+/**
+ * Adaptateur pour un serveur local exposant l'API OpenAI (Ollama, LM Studio, llama.cpp, vLLM...).
+ * Les images et la synthèse vocale ne sont disponibles que si un modèle est configuré pour chacune.
+ */
+
+export interface LocalAiConfig {
+  baseUrl: string; // ex: 'http://localhost:11434/v1'
+  model: string;
+  imageModel?: string;
+  speechModel?: string;
+  voice?: string;
+  apiKey?: string; // La plupart des serveurs locaux l'ignorent
+}
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+export const getLocalAiConfigFromEnv = (): LocalAiConfig => ({
+  baseUrl: import.meta.env.VITE_LOCAL_AI_URL || DEFAULT_BASE_URL,
+  model: import.meta.env.VITE_LOCAL_AI_MODEL || DEFAULT_MODEL,
+  imageModel: import.meta.env.VITE_LOCAL_AI_IMAGE_MODEL,
+  speechModel: import.meta.env.VITE_LOCAL_AI_TTS_MODEL,
+  apiKey: import.meta.env.VITE_LOCAL_AI_API_KEY,
+});
+
+const JSON_SYSTEM_PROMPT = "You are an educational assistant. Answer with a single raw JSON object, without markdown.";
+
+export const createLocalAiProvider = (config: LocalAiConfig = getLocalAiConfigFromEnv()): AIProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: object, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw createHttpError(`Serveur IA local : erreur ${response.status} sur ${path}`, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+  };
+
+  const jsonMessages = (prompt: string) => [
+    { role: 'system', content: JSON_SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+
+  const chat = async (prompt: string, json: boolean, signal?: AbortSignal): Promise<string> => {
+    const response = await post('/chat/completions', {
+      model: config.model,
+      messages: json ? jsonMessages(prompt) : [{ role: 'user', content: prompt }],
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
+    }, signal);
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || '';
+  };
+
+  // Texte d'un morceau du flux. Une ligne illisible (coupée, ou envoyée par un proxy pour garder la connexion) est ignorée ;
+  // une erreur signalée par le serveur en cours de flux interrompt la réception
+  const parseStreamChunk = (data: string): string => {
+    let chunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return '';
+    }
+    if (chunk?.error) throw new Error(`Serveur IA local : ${chunk.error.message || 'erreur pendant le streaming'}`);
+    return chunk?.choices?.[0]?.delta?.content || '';
+  };
+
+  // Réponse en Server-Sent Events : une ligne "data: {...}" par morceau, "data: [DONE]" à la fin
+  const streamChat = async (prompt: string, onText: (text: string) => void, signal?: AbortSignal) => {
+    const response = await post('/chat/completions', {
+      model: config.model,
+      messages: jsonMessages(prompt),
+      response_format: { type: 'json_object' },
+      stream: true,
+    }, signal);
+    if (!response.body) throw new Error("Serveur IA local : réponse en streaming vide");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const readLine = (line: string) => {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') return;
+      const text = parseStreamChunk(data);
+      if (text) onText(text);
+    };
+    let pending = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      throwIfAborted(signal);
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop() || '';
+      lines.forEach(readLine);
+    }
+    // Dernière ligne du flux, que le serveur peut ne pas terminer par un saut de ligne
+    (pending + decoder.decode()).split('\n').forEach(readLine);
+  };
+
+  const generateJson = (prompt: string, signal?: AbortSignal) =>
+    withRetries(async () => JSON.parse(cleanJsonResponse(await chat(prompt, true, signal))));
+
+  return {
+    name: 'local',
+    model: config.model,
+
+    generateCapsule: (request, signal) => generateJson(buildCapsulePrompt(request), signal),
+
+    streamCapsule: async (request, onPartial, signal) => {
+      const parser = createCapsuleStreamParser(onPartial);
+      await streamChat(buildCapsulePrompt(request), text => parser.push(text), signal);
+      return JSON.parse(cleanJsonResponse(parser.text));
+    },
+
+    generateCapsulePart: (request, signal) => generateJson(buildCapsulePartPrompt(request), signal),
+
+    mergePartSummaries: (parts, language, signal) => generateJson(buildMergePrompt(parts, language), signal),
+
+    repairFields: async (title, requests, language, signal) => {
+      const result = await generateJson(buildRepairPrompt(title, requests, language), signal);
+      return Array.isArray(result?.fixes) ? result.fixes : [];
+    },
+
+    regenerateQuiz: async (title, language, signal): Promise<QuizQuestion[]> => {
+      // Le mode JSON d'OpenAI impose un objet racine : le tableau est attendu sous "questions"
+      const result = await generateJson(`${buildQuizPrompt(title, language)} Wrap it as {"questions": [...]}.`, signal);
+      return Array.isArray(result) ? result : (result.questions || []);
+    },
+
+    expandKeyConcept: (request, signal) => chat(buildConceptPrompt(request), false, signal),
+
+    generateClozeCards: async (request, signal) => {
+      const result = await generateJson(`${buildClozePrompt(request)} Wrap it as {"cards": [...]}.`, signal);
+      return Array.isArray(result) ? result : (result.cards || []);
+    },
+
+    gradeOpenAnswer: (request, signal) => generateJson(buildGradingPrompt(request), signal),
+
+    generateMindMap: (request, signal) => generateJson(buildMindMapPrompt(request), signal),
+
+    generateTimeline: async (request, signal) => {
+      const result = await generateJson(`${buildTimelinePrompt(request)} Wrap it as {"events": [...]}.`, signal);
+      return Array.isArray(result) ? result : (result.events || []);
+    },
+
+    generateNarrationScript: (request, signal) => chat(buildNarrationPrompt(request), false, signal),
+
+    answerTutorQuestion: (request, signal) => generateJson(buildTutorPrompt(request), signal),
+
+    coachSolverStep: (request, signal) => generateJson(buildSolverPrompt(request), signal),
+
+    translateCapsule: (request, signal) => generateJson(buildTranslationPrompt(request), signal),
+
+    createCoachingSession: (userProfile, mode, language, signal) => generateJson(buildCoachingPrompt(userProfile, mode, language), signal),
+
+    generateImage: async (capsule, language, signal) => {
+      if (!config.imageModel) throw new Error("Aucun modèle d'image configuré pour le serveur IA local.");
+      const response = await post('/images/generations', {
+        model: config.imageModel,
+        prompt: buildDrawingPrompt(capsule.title, language),
+        response_format: 'b64_json',
+      }, signal);
+      const data = await response.json();
+      return {
+        imageData: data.data?.[0]?.b64_json || '',
+        mimeType: 'image/png',
+        description: `Sketchnote for ${capsule.title}`,
+      };
+    },
+
+    synthesizeSpeech: async (text, _language, signal) => {
+      if (!config.speechModel) throw new Error("Aucun modèle de synthèse vocale configuré pour le serveur IA local.");
+      const response = await post('/audio/speech', {
+        model: config.speechModel,
+        input: text,
+        voice: config.voice || 'alloy',
+        response_format: 'wav',
+      }, signal);
+      return { audioData: arrayBufferToBase64(await response.arrayBuffer()), mimeType: 'audio/wav' };
+    },
+  };
+};
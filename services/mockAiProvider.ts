@@ -0,0 +1,366 @@
+
+import type { QuizQuestion, TimelineEvent } from '../types';
+import type { Language } from '../i18n/translations';
+import { AIProvider, GeneratedCapsule, throwIfAborted } from './aiProvider';
+import {
+  buildCapsulePartPrompt,
+  buildCapsulePrompt,
+  buildCoachingPrompt,
+  buildClozePrompt,
+  buildConceptPrompt,
+  buildGradingPrompt,
+  buildMergePrompt,
+  buildMindMapPrompt,
+  buildNarrationPrompt,
+  buildQuizPrompt,
+  buildRepairPrompt,
+  buildSolverPrompt,
+  buildTimelinePrompt,
+  buildTranslationPrompt,
+  buildTutorPrompt,
+} from './promptService';
+import { createCapsuleStreamParser } from './streamingJsonService';
+
+/**
+ * Fournisseur déterministe, sans réseau : renvoie toujours les mêmes données pour une même requête.
+ * Sert au développement hors ligne et aux tests de toute la chaîne de création de capsules.
+ * Activé avec VITE_AI_PROVIDER=mock.
+ */
+
+export interface MockFixtures {
+  capsule: Record<Language, GeneratedCapsule>;
+  quiz: Record<Language, QuizQuestion[]>;
+  timeline: Record<Language, TimelineEvent[]>;
+  imageData: string; // PNG en base64
+}
+
+// PNG 1x1 transparent
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const SPEECH_SAMPLE_RATE = 24000;
+const SPEECH_SECONDS = 0.5;
+// Le streaming découpe le JSON de la fixture en morceaux réguliers, comme le ferait un vrai modèle
+const STREAM_CHUNK_CHARS = 60;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+export const DEFAULT_MOCK_FIXTURES: MockFixtures = {
+  capsule: {
+    fr: {
+      title: 'La photosynthèse',
+      summary: "La photosynthèse permet aux plantes de transformer la lumière, l'eau et le dioxyde de carbone en glucose et en oxygène.",
+      keyConcepts: [
+        { concept: 'Chlorophylle', explanation: 'Pigment vert qui capte l’énergie lumineuse dans les chloroplastes.' },
+        { concept: 'Phase lumineuse', explanation: "La lumière sert à produire de l'ATP et à libérer de l'oxygène à partir de l'eau." },
+        { concept: 'Cycle de Calvin', explanation: "Le CO2 est fixé et transformé en glucose grâce à l'ATP produit." },
+      ],
+      examples: ['Une feuille exposée au soleil produit des bulles d’oxygène dans l’eau.', 'Les cultures sous serre reçoivent un apport de CO2 pour pousser plus vite.'],
+      quiz: [
+        {
+          question: 'Quel gaz est libéré par la photosynthèse ?',
+          options: ['Oxygène', 'Azote', 'Dioxyde de carbone', 'Hydrogène'],
+          correctAnswer: 'Oxygène',
+          explanation: "L'oxygène provient de la décomposition de l'eau pendant la phase lumineuse.",
+        },
+        {
+          question: 'Où se déroule la photosynthèse ?',
+          options: ['Dans les mitochondries', 'Dans les chloroplastes', 'Dans le noyau', 'Dans les racines'],
+          correctAnswer: 'Dans les chloroplastes',
+          explanation: 'Les chloroplastes contiennent la chlorophylle.',
+        },
+        {
+          questionType: 'open',
+          question: 'Expliquez comment une plante produit du glucose.',
+          options: [],
+          correctAnswer: "La chlorophylle capte la lumière, qui sert à produire de l'ATP ; le cycle de Calvin utilise cet ATP pour fixer le CO2 et fabriquer du glucose.",
+          rubric: ['La chlorophylle capte la lumière', "La lumière produit de l'ATP", 'Le cycle de Calvin fixe le CO2'],
+          explanation: "Les deux phases s'enchaînent : l'énergie de la phase lumineuse alimente le cycle de Calvin.",
+        },
+      ],
+      flashcards: [
+        { front: 'Produits de la photosynthèse ?', back: 'Glucose et oxygène' },
+        { front: 'Rôle de la chlorophylle ?', back: "Capter l'énergie lumineuse" },
+        { front: 'Que fixe le cycle de Calvin ?', back: 'Le dioxyde de carbone' },
+      ],
+      sourceType: 'text',
+    },
+    en: {
+      title: 'Photosynthesis',
+      summary: 'Photosynthesis lets plants turn light, water and carbon dioxide into glucose and oxygen.',
+      keyConcepts: [
+        { concept: 'Chlorophyll', explanation: 'Green pigment that captures light energy inside chloroplasts.' },
+        { concept: 'Light reactions', explanation: 'Light is used to make ATP and release oxygen from water.' },
+        { concept: 'Calvin cycle', explanation: 'CO2 is fixed and turned into glucose using the ATP produced.' },
+      ],
+      examples: ['A leaf in sunlight releases oxygen bubbles under water.', 'Greenhouse crops get extra CO2 to grow faster.'],
+      quiz: [
+        {
+          question: 'Which gas is released by photosynthesis?',
+          options: ['Oxygen', 'Nitrogen', 'Carbon dioxide', 'Hydrogen'],
+          correctAnswer: 'Oxygen',
+          explanation: 'Oxygen comes from splitting water during the light reactions.',
+        },
+        {
+          question: 'Where does photosynthesis take place?',
+          options: ['In mitochondria', 'In chloroplasts', 'In the nucleus', 'In the roots'],
+          correctAnswer: 'In chloroplasts',
+          explanation: 'Chloroplasts contain chlorophyll.',
+        },
+        {
+          questionType: 'open',
+          question: 'Explain how a plant produces glucose.',
+          options: [],
+          correctAnswer: 'Chlorophyll captures light, which is used to make ATP; the Calvin cycle uses this ATP to fix CO2 and build glucose.',
+          rubric: ['Chlorophyll captures light', 'Light is used to make ATP', 'The Calvin cycle fixes CO2'],
+          explanation: 'Both stages are linked: the energy from the light reactions drives the Calvin cycle.',
+        },
+      ],
+      flashcards: [
+        { front: 'Products of photosynthesis?', back: 'Glucose and oxygen' },
+        { front: 'Role of chlorophyll?', back: 'Capturing light energy' },
+        { front: 'What does the Calvin cycle fix?', back: 'Carbon dioxide' },
+      ],
+      sourceType: 'text',
+    },
+  },
+  quiz: {
+    fr: [
+      {
+        question: 'De quoi la plante a-t-elle besoin pour la photosynthèse ?',
+        options: ['Lumière, eau et CO2', 'Oxygène et glucose', 'Azote seulement', 'Obscurité'],
+        correctAnswer: 'Lumière, eau et CO2',
+        explanation: 'Ce sont les trois ingrédients de la réaction.',
+      },
+    ],
+    en: [
+      {
+        question: 'What does a plant need for photosynthesis?',
+        options: ['Light, water and CO2', 'Oxygen and glucose', 'Nitrogen only', 'Darkness'],
+        correctAnswer: 'Light, water and CO2',
+        explanation: 'They are the three ingredients of the reaction.',
+      },
+    ],
+  },
+  timeline: {
+    fr: [
+      { id: 'event-0', date: '1779', title: 'Rôle de la lumière', description: "Jan Ingenhousz montre que les plantes ne produisent de l'oxygène qu'à la lumière." },
+      { id: 'event-1', date: '1804', title: 'Eau et CO2', description: 'Nicolas de Saussure établit que la plante utilise le CO2 et l’eau.' },
+      { id: 'event-2', date: '1954', title: 'Cycle de Calvin', description: 'Melvin Calvin décrit la fixation du CO2 en glucose.' },
+    ],
+    en: [
+      { id: 'event-0', date: '1779', title: 'Role of light', description: 'Jan Ingenhousz shows that plants only release oxygen in light.' },
+      { id: 'event-1', date: '1804', title: 'Water and CO2', description: 'Nicolas de Saussure shows that plants use CO2 and water.' },
+      { id: 'event-2', date: '1954', title: 'Calvin cycle', description: 'Melvin Calvin describes how CO2 is fixed into glucose.' },
+    ],
+  },
+  imageData: PIXEL_PNG,
+};
+
+// Silence en PCM 16 bits : assez pour tester la lecture audio
+const createSilentSpeech = (): string => {
+  const bytes = new Uint8Array(Math.round(SPEECH_SAMPLE_RATE * SPEECH_SECONDS) * 2);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const significantWords = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 3);
+
+// Chaque élément cite une phrase du texte reçu, à tour de rôle : l'attribution des sources reste vérifiable
+const withSourceQuotes = (capsule: GeneratedCapsule, inputText: string): GeneratedCapsule => {
+  const sentences = inputText.split(/(?<=[.!?])\s+/).map(sentence => sentence.trim()).filter(Boolean);
+  if (sentences.length === 0) return capsule;
+  let next = 0;
+  const cite = <T extends object>(item: T): T => ({ ...item, source: { quote: sentences[next++ % sentences.length] } });
+  return { ...capsule, keyConcepts: capsule.keyConcepts.map(cite), quiz: capsule.quiz.map(cite), flashcards: capsule.flashcards.map(cite) };
+};
+
+/**
+ * `onPrompt` reçoit le prompt qu'un vrai fournisseur de texte aurait envoyé : de quoi vérifier
+ * ce que verrait le modèle (délimiteurs, contenu neutralisé) sans appel réseau.
+ */
+export const createMockProvider = (fixtures: MockFixtures = DEFAULT_MOCK_FIXTURES, onPrompt?: (prompt: string) => void): AIProvider => ({
+  name: 'mock',
+  model: 'mock-fixtures',
+
+  generateCapsule: async request => {
+    onPrompt?.(buildCapsulePrompt(request));
+    return { ...withSourceQuotes(clone(fixtures.capsule[request.language]), request.inputText), sourceType: request.sourceType };
+  },
+
+  streamCapsule: async (request, onPartial, signal) => {
+    onPrompt?.(buildCapsulePrompt(request));
+    const json = JSON.stringify(withSourceQuotes(fixtures.capsule[request.language], request.inputText));
+    const parser = createCapsuleStreamParser(onPartial);
+    for (let i = 0; i < json.length; i += STREAM_CHUNK_CHARS) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+      throwIfAborted(signal);
+      parser.push(json.slice(i, i + STREAM_CHUNK_CHARS));
+    }
+    return { ...JSON.parse(parser.text), sourceType: request.sourceType };
+  },
+
+  // Chaque morceau ajoute une notion tirée de son titre : la fusion des parties reste vérifiable
+  generateCapsulePart: async request => {
+    onPrompt?.(buildCapsulePartPrompt(request));
+    const { inputText, sourceType, language, partIndex, partCount, heading } = request;
+    const capsule = withSourceQuotes(clone(fixtures.capsule[language]), inputText);
+    const concept = heading || `${capsule.title} ${partIndex + 1}/${partCount}`;
+    return {
+      ...capsule,
+      title: concept,
+      keyConcepts: [{ concept, explanation: inputText.slice(0, 200) }, ...capsule.keyConcepts],
+      sourceType,
+    };
+  },
+
+  mergePartSummaries: async (parts, language) => {
+    onPrompt?.(buildMergePrompt(parts, language));
+    return {
+      title: fixtures.capsule[language].title,
+      summary: parts.map(part => part.summary).join(' '),
+    };
+  },
+
+  // Le mock ne corrige rien : les problèmes restants sont signalés par la validation
+  repairFields: async (title, requests, language) => {
+    onPrompt?.(buildRepairPrompt(title, requests, language));
+    return [];
+  },
+
+  regenerateQuiz: async (title, language) => {
+    onPrompt?.(buildQuizPrompt(title, language));
+    return clone(fixtures.quiz[language]);
+  },
+
+  expandKeyConcept: async request => {
+    onPrompt?.(buildConceptPrompt(request));
+    const { concept, context, language, mode } = request;
+    if (language === 'fr') {
+      return mode === 'simpler'
+        ? `En termes simples, « ${concept} » : ${context}`
+        : `« ${concept} » en détail : ${context}`;
+    }
+    return mode === 'simpler'
+      ? `Put simply, "${concept}": ${context}`
+      : `"${concept}" in depth: ${context}`;
+  },
+
+  // Un point de la grille est couvert si la réponse reprend au moins la moitié de ses mots significatifs
+  gradeOpenAnswer: async request => {
+    onPrompt?.(buildGradingPrompt(request));
+    const answerWords = new Set(significantWords(request.answer));
+    const missingPoints = request.rubric.filter(point => {
+      const words = significantWords(point);
+      return words.filter(word => answerWords.has(word)).length * 2 < words.length;
+    });
+    const score = request.rubric.length ? Math.round(((request.rubric.length - missingPoints.length) / request.rubric.length) * 100) : 0;
+    const complete = missingPoints.length === 0;
+    const feedback = request.language === 'fr'
+      ? (complete ? 'Réponse complète.' : `Il manque ${missingPoints.length} point(s) de la réponse attendue.`)
+      : (complete ? 'Complete answer.' : `${missingPoints.length} expected point(s) are missing.`);
+    return { score, missingPoints, feedback };
+  },
+
+  // Une branche par concept, détaillée par le début de son explication
+  generateMindMap: async request => {
+    onPrompt?.(buildMindMapPrompt(request));
+    return {
+      id: 'root',
+      label: request.title,
+      children: request.keyConcepts.map((kc, i) => ({
+        id: `root-${i}`,
+        label: kc.concept,
+        children: [{ id: `root-${i}-0`, label: kc.explanation.split(/\s+/).slice(0, 5).join(' ') }],
+      })),
+    };
+  },
+
+  generateTimeline: async request => {
+    onPrompt?.(buildTimelinePrompt(request));
+    return clone(fixtures.timeline[request.language]);
+  },
+
+  // Le script reprend le titre, le résumé puis chaque concept, une phrase par élément
+  generateNarrationScript: async request => {
+    onPrompt?.(buildNarrationPrompt(request));
+    return [request.title, request.summary, ...request.keyConcepts.map(kc => `${kc.concept}. ${kc.explanation}`)].join('\n\n');
+  },
+
+  // Répond avec l'explication des concepts dont le nom partage un mot significatif avec la question
+  answerTutorQuestion: async request => {
+    onPrompt?.(buildTutorPrompt(request));
+    const questionWords = new Set(significantWords(request.question));
+    const cited = request.keyConcepts.filter(kc => significantWords(kc.concept).some(word => questionWords.has(word)));
+    if (cited.length === 0) {
+      return {
+        answer: request.language === 'fr' ? "La capsule n'aborde pas cette question." : 'The capsule does not cover this question.',
+        citedConcepts: [],
+      };
+    }
+    return { answer: cited.map(kc => kc.explanation).join(' '), citedConcepts: cited.map(kc => kc.concept) };
+  },
+
+  // Une question par concept clé ; le problème est considéré résolu à la troisième étape de l'élève
+  coachSolverStep: async request => {
+    onPrompt?.(buildSolverPrompt(request));
+    const steps = request.history.filter(message => message.role === 'user').length;
+    if (steps >= 3) {
+      return { message: request.language === 'fr' ? 'Bravo, vous avez trouvé la solution !' : 'Well done, you found the solution!', solved: true };
+    }
+    const concept = request.keyConcepts[steps % Math.max(1, request.keyConcepts.length)]?.concept || request.title;
+    return {
+      message: request.language === 'fr'
+        ? `Étape ${steps + 1} : comment « ${concept} » s'applique-t-il ici ?`
+        : `Step ${steps + 1}: how does "${concept}" apply here?`,
+      solved: false,
+    };
+  },
+
+  // Chaque texte est préfixé par la langue cible ([EN] ...) : structure, identifiants et trous restent intacts
+  translateCapsule: async request => {
+    onPrompt?.(buildTranslationPrompt(request));
+    const tag = (text: string) => `[${request.to.toUpperCase()}] ${text}`;
+    const { content } = request;
+    return {
+      title: tag(content.title),
+      summary: tag(content.summary),
+      keyConcepts: content.keyConcepts.map(kc => ({ concept: tag(kc.concept), explanation: tag(kc.explanation) })),
+      examples: content.examples.map(tag),
+      quiz: content.quiz.map(question => ({
+        ...question,
+        question: tag(question.question),
+        options: question.options.map(tag),
+        correctAnswer: tag(question.correctAnswer),
+        explanation: tag(question.explanation),
+        rubric: question.rubric?.map(tag),
+      })),
+      flashcards: content.flashcards.map(card => ({ id: card.id, front: tag(card.front), back: tag(card.back) })),
+    };
+  },
+
+  generateClozeCards: async request => {
+    onPrompt?.(buildClozePrompt(request));
+    return request.keyConcepts.map(kc => `{{c1::${kc.concept}}} : ${kc.explanation}`);
+  },
+
+  createCoachingSession: async (userProfile, mode, language) => {
+    onPrompt?.(buildCoachingPrompt(userProfile, mode, language));
+    return {
+      sessionId: `mock_${mode}`,
+      startTime: new Date(0).toISOString(),
+      instructions: language === 'fr'
+        ? `Session ${mode} pour ${userProfile.name} : répondez aux questions une par une.`
+        : `${mode} session for ${userProfile.name}: answer the questions one at a time.`,
+    };
+  },
+
+  generateImage: async capsule => ({
+    imageData: fixtures.imageData,
+    mimeType: 'image/png',
+    description: `Sketchnote for ${capsule.title}`,
+  }),
+
+  synthesizeSpeech: async () => ({ audioData: createSilentSpeech(), mimeType: 'audio/pcm', sampleRate: SPEECH_SAMPLE_RATE }),
+});
@@ -0,0 +1,33 @@
+
+import type { OpenAnswerGrade, QuizQuestion } from '../types';
+
+/**
+ * Questions ouvertes : l'élève rédige sa réponse, le modèle la compare à la réponse de référence
+ * point par point (grille) et renvoie un score sur 100, les points manquants et un commentaire.
+ * Le score est journalisé comme celui d'une question à choix multiples.
+ */
+
+export const OPEN_ANSWER_PASS_SCORE = 60; // À partir de ce score, la réponse compte comme juste
+export const MAX_OPEN_ANSWER_CHARS = 4000;
+
+export const isOpenQuestion = (question: QuizQuestion): boolean => question.questionType === 'open';
+
+export const isPassingGrade = (grade: OpenAnswerGrade): boolean => grade.score >= OPEN_ANSWER_PASS_SCORE;
+
+/**
+ * Remet en forme la correction renvoyée par le modèle : score borné et entier,
+ * points manquants limités à ceux de la grille quand le modèle les a recopiés.
+ */
+export const normalizeGrade = (raw: unknown, rubric: string[] = []): OpenAnswerGrade => {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const score = Number(value.score);
+    const missing = (Array.isArray(value.missingPoints) ? value.missingPoints : [])
+        .filter((point): point is string => typeof point === 'string' && point.trim() !== '')
+        .map(point => point.trim());
+    const fromRubric = missing.filter(point => rubric.includes(point));
+    return {
+        score: Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : 0,
+        missingPoints: fromRubric.length > 0 ? fromRubric : missing,
+        feedback: typeof value.feedback === 'string' ? value.feedback.trim() : '',
+    };
+};
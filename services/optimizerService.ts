@@ -0,0 +1,152 @@
+
+import type { CognitiveCapsule, MemoryModelParameters, MemoryState, ReviewLog } from '../types';
+import {
+    DEFAULT_SCHEDULER_PARAMETERS,
+    DEFAULT_WEIGHTS,
+    SchedulerParameters,
+    forgettingCurve,
+    getLogRating,
+    reviewMemoryState,
+} from './srsService';
+import { throwIfAborted } from './aiProvider';
+
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Below this number of scored reviews, the defaults predict better than a personal fit.
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 50;
+
+// Reviews closer than this to the previous one only test short-term memory and are not scored.
+const MIN_ELAPSED_DAYS = 1;
+
+const MAX_ITERATIONS = 30;
+const INITIAL_STEP = 0.2; // Relative step applied to each weight
+const MIN_STEP = 0.005;
+
+// Bounds keeping every weight in a range where the model stays well-behaved.
+const WEIGHT_BOUNDS: [number, number][] = [
+    [0.1, 100], [0.1, 100], [0.1, 100], [0.1, 100],
+    [1, 10], [0.1, 4], [0.1, 4], [0, 0.75],
+    [0, 4.5], [0, 0.8], [0.01, 3.5],
+    [0.1, 5], [0.01, 0.25], [0.01, 0.9], [0, 4],
+    [0, 1], [1, 6],
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Every review history of the base: one per flashcard/quiz question reviewed individually,
+ * plus the capsule-level history. Logs are sorted by date.
+ */
+const collectHistories = (capsules: CognitiveCapsule[]): ReviewLog[][] => {
+    const histories: ReviewLog[][] = [];
+    capsules.forEach(capsule => {
+        const items: { history?: ReviewLog[] }[] = [capsule, ...(capsule.flashcards || []), ...(capsule.quiz || [])];
+        items.forEach(item => {
+            if (item.history && item.history.length > 1) {
+                histories.push([...item.history].sort((a, b) => a.date - b.date));
+            }
+        });
+    });
+    return histories;
+};
+
+const isScored = (previous: ReviewLog, log: ReviewLog) => (log.date - previous.date) / ONE_DAY_IN_MS >= MIN_ELAPSED_DAYS;
+
+/**
+ * Number of reviews the optimizer can learn from (every review but the first of each history,
+ * when enough time has passed since the previous one).
+ */
+export const countOptimizableReviews = (capsules: CognitiveCapsule[]): number =>
+    collectHistories(capsules).reduce((acc, history) =>
+        acc + history.slice(1).filter((log, i) => isScored(history[i], log)).length, 0);
+
+/**
+ * Average log loss of the recall predictions made by the model over the given histories.
+ */
+const computeLogLoss = (histories: ReviewLog[][], params: SchedulerParameters): number => {
+    let total = 0;
+    let count = 0;
+
+    histories.forEach(history => {
+        let state: MemoryState | null = null;
+        history.forEach((log, i) => {
+            const rating = getLogRating(log);
+            if (state && i > 0 && isScored(history[i - 1], log)) {
+                const elapsedDays = (log.date - state.lastReview) / ONE_DAY_IN_MS;
+                const predicted = clamp(forgettingCurve(elapsedDays, state.stability), 0.0001, 0.9999);
+                const recalled = rating > 1;
+                total += recalled ? -Math.log(predicted) : -Math.log(1 - predicted);
+                count++;
+            }
+            state = reviewMemoryState(state, rating, log.date, params);
+        });
+    });
+
+    return count === 0 ? 0 : total / count;
+};
+
+export interface OptimizeOptions {
+    onProgress?: (progress: number) => void; // Share of the iterations done, between 0 and 1
+    signal?: AbortSignal; // Cancels the fit: the promise then rejects with an AbortError
+}
+
+// Hands control back to the browser so that the page stays responsive between two passes.
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Fits the memory model weights to the user's review history (coordinate descent on the log loss,
+ * starting from the defaults). Runs entirely offline, one weight at a time, yielding between passes.
+ * Resolves to null when the history is too short to give a reliable fit.
+ */
+export const optimizeMemoryParameters = async (
+    capsules: CognitiveCapsule[],
+    { onProgress, signal }: OptimizeOptions = {}
+): Promise<MemoryModelParameters | null> => {
+    const reviewCount = countOptimizableReviews(capsules);
+    if (reviewCount < MIN_REVIEWS_FOR_OPTIMIZATION) return null;
+
+    const histories = collectHistories(capsules);
+    const lossFor = (weights: number[]) => computeLogLoss(histories, { ...DEFAULT_SCHEDULER_PARAMETERS, weights });
+
+    let weights = [...DEFAULT_WEIGHTS];
+    let bestLoss = lossFor(weights);
+    let step = INITIAL_STEP;
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS && step >= MIN_STEP; iteration++) {
+        let improved = false;
+
+        for (let i = 0; i < weights.length; i++) {
+            await yieldToBrowser();
+            throwIfAborted(signal);
+
+            const [min, max] = WEIGHT_BOUNDS[i];
+            // Additive floor so that weights at zero can still move
+            const delta = Math.max(Math.abs(weights[i]) * step, step * 0.1);
+
+            for (const direction of [1, -1]) {
+                const candidate = [...weights];
+                candidate[i] = clamp(weights[i] + direction * delta, min, max);
+                if (candidate[i] === weights[i]) continue;
+
+                const loss = lossFor(candidate);
+                if (loss < bestLoss) {
+                    weights = candidate;
+                    bestLoss = loss;
+                    improved = true;
+                    break;
+                }
+            }
+        }
+
+        if (!improved) step /= 2;
+        onProgress?.((iteration + 1) / MAX_ITERATIONS);
+    }
+
+    onProgress?.(1);
+    return {
+        weights: weights.map(w => Math.round(w * 10000) / 10000),
+        reviewCount,
+        logLoss: Math.round(bestLoss * 10000) / 10000,
+        optimizedAt: Date.now(),
+    };
+};
@@ -1,5 +1,6 @@
 
 import { PDFDocument, rgb, PDFFont, StandardFonts, PDFPage } from 'pdf-lib';
+import { getFlashcardText } from './clozeService';
 import type { CognitiveCapsule, FlashcardContent } from '../types';
 
 // Utility to trigger blob download.
@@ -309,7 +310,7 @@ const drawFlashcards = async (doc: PDFDocument, flashcards: FlashcardContent[])
 
         // Fit Recto Text
         const { fontSize: rectoSize, lines: rectoLines } = calculateFitFontSize(
-            card.front, 
+            getFlashcardText(card, 'front'),
             font, 
             contentWidth, 
             rectoContentMaxHeight, 
@@ -355,7 +356,7 @@ const drawFlashcards = async (doc: PDFDocument, flashcards: FlashcardContent[])
         
         // Fit Verso Text
         const { fontSize: versoSize, lines: versoLines } = calculateFitFontSize(
-            card.back, 
+            getFlashcardText(card, 'back'),
             font, 
             contentWidth, 
             versoContentMaxHeight, 
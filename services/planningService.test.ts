@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CognitiveCapsule, FlashcardContent, MemoryState } from '../types';
+import { simulateDailyReviewMinutes } from './planningService';
+
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 15, 12);
+
+const cards = (memory?: MemoryState): FlashcardContent[] =>
+    Array.from({ length: 10 }, (_, i) => ({ front: `Carte ${i}`, back: 'Réponse', memory }));
+
+const makeCapsules = (overrides: Partial<CognitiveCapsule>): CognitiveCapsule[] =>
+    Array.from({ length: 20 }, (_, i) => ({
+        id: `capsule_${i}`,
+        title: `Capsule ${i}`,
+        summary: '',
+        keyConcepts: [],
+        examples: [],
+        quiz: [],
+        createdAt: NOW - 200 * ONE_DAY_IN_MS,
+        lastReviewed: null,
+        reviewStage: 0,
+        ...overrides,
+    }));
+
+describe('simulateDailyReviewMinutes', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('starts from the state of cards reviewed one by one', () => {
+        const wellKnown: MemoryState = {
+            stability: 200, difficulty: 3, lastReview: NOW - 100 * ONE_DAY_IN_MS, due: NOW + 100 * ONE_DAY_IN_MS, reps: 8, lapses: 0,
+        };
+        const reviewedByCard = makeCapsules({ lastReviewed: wellKnown.lastReview, flashcards: cards(wellKnown) });
+        const neverReviewed = makeCapsules({ flashcards: cards() });
+
+        expect(simulateDailyReviewMinutes(reviewedByCard, 0.9)).toBeLessThan(simulateDailyReviewMinutes(neverReviewed, 0.9));
+    });
+
+    it('costs more for a higher retention target', () => {
+        const capsules = makeCapsules({ flashcards: cards() });
+        const minutes = [0.7, 0.8, 0.9, 0.97].map(target => simulateDailyReviewMinutes(capsules, target));
+        expect([...minutes].sort((a, b) => a - b)).toEqual(minutes);
+        expect(minutes[3]).toBeGreaterThan(minutes[0]);
+    });
+
+    it('gives the same result for the same library', () => {
+        const capsules = makeCapsules({ flashcards: cards() });
+        expect(simulateDailyReviewMinutes(capsules, 0.85)).toBe(simulateDailyReviewMinutes(capsules, 0.85));
+    });
+
+    it('costs nothing for an empty library', () => {
+        expect(simulateDailyReviewMinutes([], 0.9)).toBe(0);
+    });
+});
@@ -1,14 +1,13 @@
 
-import type { CognitiveCapsule, DailySession, StudyPlan, StudyTask } from '../types';
-import { calculateMasteryScore } from './srsService';
-
-const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+import type { CognitiveCapsule, DailySession, MemoryState, StudyPlan, StudyTask } from '../types';
+import { calculateMasteryScore, getItemStates, reviewMemoryState, SchedulerParameters, DEFAULT_SCHEDULER_PARAMETERS } from './srsService';
+import { addDaysToKey, diffDayKeys, getDayKey, getTodayKey } from './calendarService';
 
 /**
  * Estime le temps nécessaire (en minutes) pour étudier une capsule
  * basé sur sa complexité (longueur du contenu) et la maîtrise actuelle.
  */
-const estimateStudyTime = (capsule: CognitiveCapsule): number => {
+export const estimateStudyTime = (capsule: CognitiveCapsule): number => {
     let baseTime = 15; // Temps de base minimal
     
     // Ajout basé sur la quantité de contenu
@@ -23,6 +22,57 @@ const estimateStudyTime = (capsule: CognitiveCapsule): number => {
     return Math.round(baseTime * masteryFactor);
 };
 
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Horizon sur lequel la charge de révision est moyennée
+const SIMULATION_HORIZON_DAYS = 365;
+
+/**
+ * Estime le temps de révision quotidien moyen (en minutes) de la bibliothèque pour une rétention visée.
+ * Chaque flashcard et question (ou la capsule si elle n'en a pas) est simulée sur un an depuis son état mémoire :
+ * une révision à chaque échéance, dont une part (1 - rétention) d'oublis notés « À revoir », qui font retomber la stabilité.
+ * Les oublis sont répartis régulièrement sur l'ensemble des révisions, pour un résultat stable d'un appel à l'autre.
+ * Une révision d'élément coûte sa part du temps d'étude estimé de la capsule.
+ */
+export const simulateDailyReviewMinutes = (
+    capsules: CognitiveCapsule[],
+    desiredRetention: number,
+    params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS
+): number => {
+    const now = Date.now();
+    const horizon = now + SIMULATION_HORIZON_DAYS * ONE_DAY_MS;
+    const simulationParams = { ...params, desiredRetention };
+    let pendingLapses = 0;
+
+    const totalMinutes = capsules.reduce((acc, capsule) => {
+        const itemCount = Math.max(1, (capsule.flashcards?.length || 0) + (capsule.quiz?.length || 0));
+        const states = getItemStates(capsule, params);
+        // Rien n'a encore été révisé : tous les éléments partent de zéro
+        const initialStates: (MemoryState | null)[] = states.length > 0 ? states : Array(itemCount).fill(null);
+        const minutesPerReview = estimateStudyTime(capsule) / initialStates.length;
+
+        let reviews = 0;
+        initialStates.forEach(initialState => {
+            let state = initialState;
+            let reviewDate = state ? Math.max(now, state.due) : now;
+            while (reviewDate < horizon) {
+                let forgotten = false;
+                if (state) {
+                    pendingLapses += 1 - desiredRetention;
+                    forgotten = pendingLapses >= 1;
+                    if (forgotten) pendingLapses -= 1;
+                }
+                state = reviewMemoryState(state, forgotten ? 1 : 3, reviewDate, simulationParams);
+                reviews++;
+                reviewDate = state.due;
+            }
+        });
+        return acc + reviews * minutesPerReview;
+    }, 0);
+
+    return Math.round(totalMinutes / SIMULATION_HORIZON_DAYS);
+};
+
 /**
  * Génère un plan d'étude distribué jusqu'à la date d'examen.
  */
@@ -33,7 +83,8 @@ export const generateStudyPlan = (
     dailyMinutesAvailable: number
 ): StudyPlan => {
     const now = Date.now();
-    const daysUntilExam = Math.ceil((examDate - now) / ONE_DAY_MS);
+    const today = getTodayKey();
+    const daysUntilExam = diffDayKeys(today, getDayKey(examDate));
 
     if (daysUntilExam <= 0) {
         throw new Error("La date d'examen doit être dans le futur.");
@@ -65,7 +116,7 @@ export const generateStudyPlan = (
     let currentTaskIndex = 0;
 
     for (let i = 0; i < daysUntilExam; i++) {
-        const currentDate = new Date(now + (i * ONE_DAY_MS)).toISOString().split('T')[0];
+        const currentDate = addDaysToKey(today, i);
         const dailyTasks: StudyTask[] = [];
         let dailyTimeUsed = 0;
 
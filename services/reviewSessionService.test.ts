@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CognitiveCapsule, FlashcardContent, MemoryState, QuizQuestion } from '../types';
+import { buildReviewSession, estimateSessionMinutes, getItemDurationSeconds } from './reviewSessionService';
+
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 5, 15, 12);
+
+const dueIn = (days: number): MemoryState => ({
+    stability: 10,
+    difficulty: 5,
+    lastReview: NOW - 10 * ONE_DAY_IN_MS,
+    due: NOW + days * ONE_DAY_IN_MS,
+    reps: 2,
+    lapses: 0,
+});
+
+const card = (front: string, memory?: MemoryState): FlashcardContent => ({ front, back: front, memory });
+
+const question = (text: string, overrides: Partial<QuizQuestion> = {}): QuizQuestion => ({
+    question: text, options: ['A', 'B'], correctAnswer: 'A', explanation: '', ...overrides,
+});
+
+// Capsule jamais révisée : tous ses éléments sont dus depuis sa création
+const makeCapsule = (id: string, category: string, flashcards: FlashcardContent[], overrides: Partial<CognitiveCapsule> = {}): CognitiveCapsule => ({
+    id,
+    title: id,
+    summary: '',
+    keyConcepts: [],
+    examples: [],
+    quiz: [],
+    flashcards,
+    category,
+    createdAt: NOW - 30 * ONE_DAY_IN_MS,
+    lastReviewed: null,
+    reviewStage: 0,
+    ...overrides,
+});
+
+describe('buildReviewSession', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('never puts two items of the same category in a row while another category is left', () => {
+        const session = buildReviewSession([
+            makeCapsule('algebre', 'maths', [card('a1', dueIn(-1)), card('a2', dueIn(-1))]),
+            makeCapsule('geometrie', 'maths', [card('g1', dueIn(-1))]),
+            makeCapsule('revolution', 'histoire', [card('r1', dueIn(-2)), card('r2', dueIn(-2))]),
+        ]);
+
+        expect(session.map(item => item.category)).toEqual(['histoire', 'maths', 'histoire', 'maths', 'maths']);
+    });
+
+    it('alternates the capsules of a category', () => {
+        const session = buildReviewSession([
+            makeCapsule('algebre', 'maths', [card('a1', dueIn(-3)), card('a2', dueIn(-2))]),
+            makeCapsule('geometrie', 'maths', [card('g1', dueIn(-1)), card('g2', dueIn(-1))]),
+        ]);
+
+        expect(session.map(item => item.capsuleId)).toEqual(['algebre', 'geometrie', 'algebre', 'geometrie']);
+        expect(session.map(item => item.flashcard?.front)).toEqual(['a1', 'g1', 'a2', 'g2']);
+    });
+
+    it('starts with the most overdue category', () => {
+        const session = buildReviewSession([
+            makeCapsule('algebre', 'maths', [card('a1', dueIn(-1))]),
+            makeCapsule('revolution', 'histoire', [card('r1', dueIn(-5))]),
+        ]);
+        expect(session[0].capsuleId).toBe('revolution');
+    });
+
+    it('leaves out items not due yet and capsules out of the rotation', () => {
+        const session = buildReviewSession([
+            makeCapsule('algebre', 'maths', [card('a1', dueIn(-1)), card('a2', dueIn(5))]),
+            makeCapsule('suspendue', 'maths', [card('s1')], { suspended: true }),
+            makeCapsule('enfouie', 'maths', [card('e1')], { buriedUntil: NOW + ONE_DAY_IN_MS }),
+            makeCapsule('reportee', 'maths', [card('p1')], { snoozedUntil: NOW + 3 * ONE_DAY_IN_MS }),
+        ]);
+        expect(session.map(item => item.flashcard?.front)).toEqual(['a1']);
+    });
+
+    it('includes the due quiz questions with their item id', () => {
+        const session = buildReviewSession([makeCapsule('algebre', 'maths', [], { quiz: [question('2 + 2 ?')] })]);
+        expect(session).toHaveLength(1);
+        expect(session[0]).toMatchObject({ kind: 'quiz', itemId: 'algebre_q_0', capsuleTitle: 'algebre' });
+    });
+
+    it('stops at the item cap', () => {
+        const capsule = makeCapsule('algebre', 'maths', ['1', '2', '3', '4', '5'].map(front => card(front)));
+        expect(buildReviewSession([capsule], { maxItems: 3 })).toHaveLength(3);
+    });
+
+    it('stops before going over the time cap', () => {
+        // 20 s par flashcard : 3 cartes tiennent dans une minute, pas 4
+        const capsule = makeCapsule('algebre', 'maths', ['1', '2', '3', '4', '5'].map(front => card(front)));
+        const session = buildReviewSession([capsule], { maxMinutes: 1 });
+        expect(session).toHaveLength(3);
+        expect(estimateSessionMinutes(session)).toBeLessThanOrEqual(1);
+    });
+});
+
+describe('session duration', () => {
+    it('gives open questions more time than cards and multiple choice questions', () => {
+        const flashcard = getItemDurationSeconds({ kind: 'flashcard' });
+        const multipleChoice = getItemDurationSeconds({ kind: 'quiz', question: question('2 + 2 ?') });
+        const open = getItemDurationSeconds({ kind: 'quiz', question: question('Pourquoi ?', { questionType: 'open', options: [] }) });
+        expect(flashcard).toBeLessThan(multipleChoice);
+        expect(multipleChoice).toBeLessThan(open);
+    });
+
+    it('rounds the estimate up to the minute', () => {
+        expect(estimateSessionMinutes([])).toBe(0);
+        expect(estimateSessionMinutes([{ kind: 'flashcard' }])).toBe(1);
+        expect(estimateSessionMinutes([{ kind: 'flashcard' }, { kind: 'flashcard' }, { kind: 'flashcard' }, { kind: 'flashcard' }])).toBe(2);
+    });
+});
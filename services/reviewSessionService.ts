@@ -0,0 +1,117 @@
+
+import type { CognitiveCapsule, FlashcardContent, QuizQuestion } from '../types';
+import {
+    ReviewItemKind,
+    getCapsuleAvailability,
+    getDueFlashcards,
+    getDueQuizQuestions,
+    getMemoryState,
+} from './srsService';
+import { isOpenQuestion } from './openQuestionService';
+
+// Temps moyen estimé par élément, pour limiter une session en minutes
+const SECONDS_PER_FLASHCARD = 20;
+const SECONDS_PER_QUIZ_QUESTION = 45;
+const SECONDS_PER_OPEN_QUESTION = 120; // Réponse à rédiger
+
+const UNCATEGORIZED = '';
+
+export interface ReviewSessionItem {
+    capsuleId: string;
+    capsuleTitle: string;
+    category: string; // Chaîne vide pour les capsules sans catégorie
+    kind: ReviewItemKind;
+    itemId: string;
+    due: number;
+    flashcard?: FlashcardContent;
+    question?: QuizQuestion;
+}
+
+export interface ReviewSessionLimits {
+    maxItems?: number;
+    maxMinutes?: number;
+}
+
+export const getItemDurationSeconds = (item: Pick<ReviewSessionItem, 'kind' | 'question'>): number => {
+    if (item.kind === 'flashcard') return SECONDS_PER_FLASHCARD;
+    return item.question && isOpenQuestion(item.question) ? SECONDS_PER_OPEN_QUESTION : SECONDS_PER_QUIZ_QUESTION;
+};
+
+/**
+ * Durée estimée (en minutes) d'une liste d'éléments de révision.
+ */
+export const estimateSessionMinutes = (items: Pick<ReviewSessionItem, 'kind' | 'question'>[]): number =>
+    Math.ceil(items.reduce((acc, item) => acc + getItemDurationSeconds(item), 0) / 60);
+
+/**
+ * Tous les éléments dus (flashcards et questions) d'une capsule, du plus en retard au plus récent.
+ */
+const getCapsuleDueItems = (capsule: CognitiveCapsule): ReviewSessionItem[] => {
+    const capsuleDue = getMemoryState(capsule)?.due ?? capsule.createdAt;
+    const base = { capsuleId: capsule.id, capsuleTitle: capsule.title, category: capsule.category || UNCATEGORIZED };
+    const items: ReviewSessionItem[] = [
+        ...getDueFlashcards(capsule).map(card => ({
+            ...base, kind: 'flashcard' as const, itemId: card.id!, due: card.memory?.due ?? capsuleDue, flashcard: card,
+        })),
+        ...getDueQuizQuestions(capsule).map(question => ({
+            ...base, kind: 'quiz' as const, itemId: question.id!, due: question.memory?.due ?? capsuleDue, question,
+        })),
+    ];
+    return items.sort((a, b) => a.due - b.due);
+};
+
+/**
+ * Alterne les éléments de plusieurs files (une file après l'autre) jusqu'à les épuiser.
+ */
+const roundRobin = <T>(queues: T[][]): T[] => {
+    const result: T[] = [];
+    const pending = queues.map(queue => [...queue]).filter(queue => queue.length > 0);
+    while (pending.length > 0) {
+        for (let i = 0; i < pending.length; i++) {
+            result.push(pending[i].shift()!);
+            if (pending[i].length === 0) {
+                pending.splice(i, 1);
+                i--;
+            }
+        }
+    }
+    return result;
+};
+
+/**
+ * Construit une session de révision mixte : les flashcards et questions dues de toutes les capsules
+ * actives, entrelacées par catégorie (puis par capsule au sein d'une catégorie) pour ne jamais
+ * enchaîner deux éléments du même sujet quand c'est évitable.
+ * La session est limitée en nombre d'éléments et/ou en minutes estimées.
+ */
+export const buildReviewSession = (capsules: CognitiveCapsule[], limits: ReviewSessionLimits = {}): ReviewSessionItem[] => {
+    const now = Date.now();
+    const byCategory = new Map<string, ReviewSessionItem[][]>();
+
+    capsules
+        .filter(capsule => getCapsuleAvailability(capsule, now) === 'active')
+        .forEach(capsule => {
+            const items = getCapsuleDueItems(capsule);
+            if (items.length === 0) return;
+            const category = capsule.category || UNCATEGORIZED;
+            byCategory.set(category, [...(byCategory.get(category) || []), items]);
+        });
+
+    // Les catégories les plus en retard passent en premier
+    const categoryQueues = Array.from(byCategory.values())
+        .map(capsuleQueues => roundRobin(capsuleQueues.sort((a, b) => a[0].due - b[0].due)))
+        .sort((a, b) => Math.min(...a.map(i => i.due)) - Math.min(...b.map(i => i.due)));
+
+    const interleaved = roundRobin(categoryQueues);
+
+    const session: ReviewSessionItem[] = [];
+    let seconds = 0;
+    for (const item of interleaved) {
+        if (limits.maxItems !== undefined && session.length >= limits.maxItems) break;
+        const duration = getItemDurationSeconds(item);
+        if (limits.maxMinutes !== undefined && seconds + duration > limits.maxMinutes * 60) break;
+        session.push(item);
+        seconds += duration;
+    }
+    return session;
+};
@@ -0,0 +1,99 @@
+
+import type { SourceSpan } from '../types';
+import type { GeneratedCapsule } from './aiProvider';
+
+/**
+ * Attribution des sources : pour chaque concept clé, question et flashcard, le modèle cite le passage du texte
+ * d'origine qui le justifie. La citation est ensuite retrouvée dans le texte pour en connaître la position ;
+ * une citation introuvable signale un élément à vérifier (le modèle a pu l'inventer).
+ */
+
+const MIN_QUOTE_CHARS = 8; // En dessous, une citation se retrouverait n'importe où dans le texte
+const ELLIPSIS = /\s*(?:\[\s*(?:\.\.\.|…)\s*\]|\(\s*(?:\.\.\.|…)\s*\)|\.\.\.|…)\s*/;
+const EDGE_PUNCTUATION = /^[\s"'«»“”‘’…]+|[\s"'«»“”‘’…]+$/g;
+
+// Texte ramené à une forme comparable (minuscules, espaces simples, apostrophes et guillemets droits),
+// avec pour chaque caractère obtenu sa position dans le texte d'origine
+export interface NormalizedText {
+    normalized: string;
+    positions: number[];
+}
+
+export const normalizeWithPositions = (text: string): NormalizedText => {
+    let normalized = '';
+    const positions: number[] = [];
+    let previousIsSpace = true;
+    for (let i = 0; i < text.length; i++) {
+        let char = text[i];
+        if (/\s/.test(char)) {
+            if (previousIsSpace) continue;
+            char = ' ';
+            previousIsSpace = true;
+        } else {
+            const lower = char.toLowerCase();
+            char = (lower.length === 1 ? lower : char).replace(/[‘’`]/, "'").replace(/[«»“”]/, '"');
+            previousIsSpace = false;
+        }
+        normalized += char;
+        positions.push(i);
+    }
+    return { normalized: normalized.trimEnd(), positions };
+};
+
+const findNormalized = (source: NormalizedText, quote: string, from: number = 0) => {
+    const needle = normalizeWithPositions(quote).normalized;
+    if (needle.length < MIN_QUOTE_CHARS) return null;
+    const index = source.normalized.indexOf(needle, from);
+    if (index === -1) return null;
+    return { start: source.positions[index], end: source.positions[index + needle.length - 1] + 1, normalizedEnd: index + needle.length };
+};
+
+/**
+ * Position d'une citation dans le texte d'origine, ou null si elle n'y figure pas.
+ * Tolère les différences de casse, d'espaces et de guillemets, ainsi qu'une coupure marquée par « ... »
+ * (le passage va alors du premier au dernier fragment).
+ * `normalizedSource` évite de renormaliser le texte d'origine quand on y cherche plusieurs citations.
+ */
+export const locateQuote = (sourceText: string, quote: string, normalizedSource?: NormalizedText): { start: number; end: number } | null => {
+    const cleaned = quote.replace(EDGE_PUNCTUATION, '');
+    if (cleaned.length < MIN_QUOTE_CHARS) return null;
+
+    const exact = sourceText.indexOf(cleaned);
+    if (exact !== -1) return { start: exact, end: exact + cleaned.length };
+
+    const source = normalizedSource ?? normalizeWithPositions(sourceText);
+    const match = findNormalized(source, cleaned);
+    if (match) return { start: match.start, end: match.end };
+
+    const fragments = cleaned.split(ELLIPSIS).map(fragment => fragment.trim()).filter(fragment => fragment.length >= MIN_QUOTE_CHARS);
+    if (fragments.length < 2) return null;
+    const first = findNormalized(source, fragments[0]);
+    const last = first && findNormalized(source, fragments[fragments.length - 1], first.normalizedEnd);
+    return first && last ? { start: first.start, end: last.end } : null;
+};
+
+export const isSourceLocated = (span: SourceSpan): boolean => span.start !== undefined && span.end !== undefined;
+
+// Le modèle renvoie { quote } (parfois directement la chaîne) : on garde la citation et on y ajoute sa position
+const attachSpan = <T extends { source?: SourceSpan }>(item: T, sourceText: string, normalizedSource: NormalizedText): T => {
+    const raw = item.source as unknown;
+    const quote = (typeof raw === 'string' ? raw : typeof (raw as SourceSpan | undefined)?.quote === 'string' ? (raw as SourceSpan).quote : '').trim();
+    const { source: _source, ...rest } = item;
+    if (!quote) return rest as T;
+    const span = sourceText ? locateQuote(sourceText, quote, normalizedSource) : null;
+    return { ...rest, source: span ? { quote, ...span } : { quote } } as T;
+};
+
+/**
+ * Relie chaque concept clé, question et flashcard de la capsule à son passage dans le texte d'origine.
+ */
+export const attachSourceSpans = (capsule: GeneratedCapsule, sourceText: string): GeneratedCapsule => {
+    // Le texte d'origine n'est normalisé qu'une fois pour toutes les citations de la capsule
+    const normalizedSource = normalizeWithPositions(sourceText);
+    return {
+        ...capsule,
+        keyConcepts: capsule.keyConcepts.map(kc => attachSpan(kc, sourceText, normalizedSource)),
+        quiz: capsule.quiz.map(question => attachSpan(question, sourceText, normalizedSource)),
+        flashcards: capsule.flashcards.map(card => attachSpan(card, sourceText, normalizedSource)),
+    };
+};
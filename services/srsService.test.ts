@@ -0,0 +1,392 @@
+import { describe, expect, it } from 'vitest';
+import type { CognitiveCapsule, MemoryState, ReviewLog, ReviewRating } from '../types';
+import {
+    DEFAULT_SCHEDULER_PARAMETERS,
+    DEFAULT_WEIGHTS,
+    LEECH_THRESHOLD,
+    analyzeGlobalPerformance,
+    assignItemIds,
+    buryCapsule,
+    calculateMasteryScore,
+    getBuryEndDate,
+    getCapsuleAvailability,
+    getFlashcards,
+    getIntervalDays,
+    getLeechItems,
+    getReviewForecast,
+    getReviewLoad,
+    isLeech,
+    ratingToScore,
+    recordItemReview,
+    recordReview,
+    restoreCapsule,
+    reviewMemoryState,
+    scoreToRating,
+    snoozeCapsule,
+    splitCapsule,
+    suspendCapsule,
+} from './srsService';
+import { addDays, getStartOfDay } from './calendarService';
+
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15, 12);
+const RATINGS: ReviewRating[] = [1, 2, 3, 4];
+
+const makeCapsule = (overrides: Partial<CognitiveCapsule> = {}): CognitiveCapsule => ({
+    id: 'capsule',
+    title: 'Photosynthèse',
+    summary: 'Conversion de la lumière en énergie chimique.',
+    keyConcepts: [],
+    examples: [],
+    quiz: [],
+    createdAt: NOW - 60 * ONE_DAY_IN_MS,
+    lastReviewed: null,
+    reviewStage: 0,
+    ...overrides,
+});
+
+const makeState = (stability: number, difficulty: number = 5): MemoryState => ({
+    stability,
+    difficulty,
+    lastReview: NOW - stability * ONE_DAY_IN_MS,
+    due: NOW,
+    reps: 3,
+    lapses: 0,
+});
+
+const makeHistory = (ratings: ReviewRating[]): ReviewLog[] =>
+    ratings.map((rating, i) => ({ date: NOW - (ratings.length - i) * ONE_DAY_IN_MS, type: 'flashcard', score: ratingToScore(rating), rating }));
+
+const daysUntilDue = (state: MemoryState) => (state.due - state.lastReview) / ONE_DAY_IN_MS;
+
+describe('ratings', () => {
+    it.each(RATINGS)('converts rating %i to a score and back', rating => {
+        expect(scoreToRating(ratingToScore(rating))).toBe(rating);
+    });
+});
+
+describe('reviewMemoryState', () => {
+    it('starts from the initial stability of the first rating', () => {
+        RATINGS.forEach(rating => {
+            const state = reviewMemoryState(null, rating, NOW);
+            expect(state.stability).toBeCloseTo(DEFAULT_WEIGHTS[rating - 1]);
+            expect(state.reps).toBe(1);
+            expect(state.lapses).toBe(rating === 1 ? 1 : 0);
+        });
+    });
+
+    it('gives a lower initial difficulty to better ratings', () => {
+        const difficulties = RATINGS.map(rating => reviewMemoryState(null, rating, NOW).difficulty);
+        expect(difficulties[2]).toBeCloseTo(DEFAULT_WEIGHTS[4]);
+        expect([...difficulties].sort((a, b) => b - a)).toEqual(difficulties);
+    });
+
+    it('grows stability on recall, more for better ratings', () => {
+        const state = makeState(10);
+        const [hard, good, easy] = ([2, 3, 4] as ReviewRating[]).map(rating => reviewMemoryState(state, rating, NOW).stability);
+        expect(hard).toBeGreaterThan(state.stability);
+        expect(good).toBeGreaterThan(hard);
+        expect(easy).toBeGreaterThan(good);
+    });
+
+    it('never grows stability on a lapse and counts it', () => {
+        const state = makeState(30);
+        const next = reviewMemoryState(state, 1, NOW);
+        expect(next.stability).toBeLessThanOrEqual(state.stability);
+        expect(next.stability).toBeGreaterThanOrEqual(0.1);
+        expect(next.lapses).toBe(state.lapses + 1);
+        expect(next.reps).toBe(state.reps + 1);
+    });
+
+    it('raises difficulty after a lapse and lowers it after an easy review', () => {
+        const state = makeState(10, 5);
+        expect(reviewMemoryState(state, 1, NOW).difficulty).toBeGreaterThan(state.difficulty);
+        expect(reviewMemoryState(state, 4, NOW).difficulty).toBeLessThan(state.difficulty);
+    });
+
+    it.each([1, 4] as ReviewRating[])('keeps difficulty between 1 and 10 after repeated %i ratings', rating => {
+        let state: MemoryState | null = null;
+        for (let i = 0; i < 30; i++) state = reviewMemoryState(state, rating, NOW + i * ONE_DAY_IN_MS);
+        expect(state!.difficulty).toBeGreaterThanOrEqual(1);
+        expect(state!.difficulty).toBeLessThanOrEqual(10);
+    });
+
+    it('uses the given weights', () => {
+        const weights = [...DEFAULT_WEIGHTS];
+        weights[2] = 7;
+        const state = reviewMemoryState(null, 3, NOW, { ...DEFAULT_SCHEDULER_PARAMETERS, weights });
+        expect(state.stability).toBe(7);
+    });
+});
+
+describe('getIntervalDays', () => {
+    it('schedules the review when recall drops to the desired retention', () => {
+        expect(getIntervalDays(10)).toBe(10);
+        expect(getIntervalDays(10, { ...DEFAULT_SCHEDULER_PARAMETERS, desiredRetention: 0.95 })).toBeLessThan(10);
+        expect(getIntervalDays(10, { ...DEFAULT_SCHEDULER_PARAMETERS, desiredRetention: 0.8 })).toBeGreaterThan(10);
+    });
+
+    it('stays between one day and the maximum interval', () => {
+        expect(getIntervalDays(0.1)).toBe(1);
+        expect(getIntervalDays(10000)).toBe(DEFAULT_SCHEDULER_PARAMETERS.maximumIntervalDays);
+    });
+});
+
+describe('calculateMasteryScore', () => {
+    const flashcards = [
+        { id: 'card_1', front: 'Chlorophylle', back: 'Pigment vert' },
+        { id: 'card_2', front: 'Stomate', back: 'Pore de la feuille' },
+    ];
+
+    it('takes the performance of a capsule with items from the reviews of its items', () => {
+        const reviewed = recordReview(makeCapsule({ flashcards }), 100, 'quiz', NOW - 10 * ONE_DAY_IN_MS);
+        const failed = ['card_1', 'card_2'].reduce((capsule, id) => recordItemReview(capsule, 'flashcard', id, 0, NOW), reviewed);
+        const passed = ['card_1', 'card_2'].reduce((capsule, id) => recordItemReview(capsule, 'flashcard', id, 100, NOW), reviewed);
+
+        expect(failed.history).toEqual(reviewed.history);
+        expect(calculateMasteryScore(failed)).toBeLessThan(calculateMasteryScore(reviewed));
+        expect(calculateMasteryScore(passed)).toBeGreaterThan(calculateMasteryScore(failed));
+    });
+
+    it('gives the 40 performance points from the latest item scores', () => {
+        const memory = makeState(10);
+        const withScores = (scores: number[]) => makeCapsule({
+            lastReviewed: NOW,
+            history: [{ date: NOW - ONE_DAY_IN_MS, type: 'quiz', score: 100, rating: 4 }],
+            flashcards: flashcards.map((card, i) => ({ ...card, memory, history: [{ date: NOW, type: 'flashcard', score: scores[i] }] })),
+        });
+        expect(calculateMasteryScore(withScores([100, 100])) - calculateMasteryScore(withScores([0, 0]))).toBe(40);
+        expect(calculateMasteryScore(withScores([100, 0]))).toBe(calculateMasteryScore(withScores([0, 0])) + 20);
+    });
+
+    it('counts the capsule reviews for items never reviewed on their own', () => {
+        const reviewed = recordReview(makeCapsule({ flashcards }), 100, 'quiz', NOW - 10 * ONE_DAY_IN_MS);
+        const oneFailed = recordItemReview(reviewed, 'flashcard', 'card_1', 0, NOW);
+        const bothFailed = recordItemReview(oneFailed, 'flashcard', 'card_2', 0, NOW);
+        expect(calculateMasteryScore(bothFailed)).toBeLessThan(calculateMasteryScore(oneFailed));
+    });
+
+    it('uses the last sessions of a capsule without items', () => {
+        const capsule = makeCapsule();
+        const good = recordReview(recordReview(capsule, 100, 'quiz', NOW - 10 * ONE_DAY_IN_MS), 100, 'quiz', NOW);
+        const bad = recordReview(recordReview(capsule, 100, 'quiz', NOW - 10 * ONE_DAY_IN_MS), 0, 'quiz', NOW);
+        expect(calculateMasteryScore(good)).toBeGreaterThan(calculateMasteryScore(bad));
+    });
+});
+
+describe('assignItemIds', () => {
+    const cards = [
+        { front: 'Chlorophylle', back: 'Pigment vert' },
+        { front: 'Stomate', back: 'Pore de la feuille' },
+    ];
+
+    it('keeps the id of a card when another one is inserted before it', () => {
+        const capsule = assignItemIds(makeCapsule({ flashcards: cards, quiz: [{ question: 'Gaz rejeté ?', options: ['O2', 'CO2'], correctAnswer: 'O2', explanation: '' }] }));
+        const stomateId = capsule.flashcards![1].id;
+        const inserted = assignItemIds({ ...capsule, flashcards: [{ front: 'Sève', back: 'Liquide nourricier' }, ...capsule.flashcards!] });
+
+        expect(getFlashcards(inserted).find(card => card.front === 'Stomate')!.id).toBe(stomateId);
+        expect(capsule.quiz[0].id).toBe('capsule_q_0');
+    });
+
+    it('never gives a new card the id of an existing one', () => {
+        const capsule = assignItemIds(makeCapsule({ flashcards: cards }));
+        const afterDelete = assignItemIds({ ...capsule, flashcards: [capsule.flashcards![1], { front: 'Sève', back: 'Liquide nourricier' }] });
+        const ids = afterDelete.flashcards!.map(card => card.id);
+        expect(new Set(ids).size).toBe(2);
+        expect(ids[0]).toBe(capsule.flashcards![1].id);
+    });
+
+    it('leaves a capsule whose items all have an id untouched', () => {
+        const capsule = assignItemIds(makeCapsule({ flashcards: cards }));
+        expect(assignItemIds(capsule)).toBe(capsule);
+    });
+});
+
+describe('interval fuzz', () => {
+    // Spread allowed around the theoretical interval (same ranges as FUZZ_RANGES)
+    const fuzzDelta = (interval: number) =>
+        1 + 0.15 * Math.max(Math.min(interval, 7) - 2.5, 0) + 0.1 * Math.max(Math.min(interval, 20) - 7, 0) + 0.05 * Math.max(interval - 20, 0);
+
+    it('keeps fuzzed intervals within the allowed range and spreads them', () => {
+        const memory = makeState(20);
+        const interval = daysUntilDue(reviewMemoryState(memory, 3, NOW));
+        const delta = fuzzDelta(interval);
+
+        const days = Array.from({ length: 50 }, (_, i) =>
+            daysUntilDue(recordReview(makeCapsule({ id: `capsule_${i}`, memory, lastReviewed: memory.lastReview }), ratingToScore(3), 'quiz', NOW).memory!));
+
+        days.forEach(day => {
+            expect(Number.isInteger(day)).toBe(true);
+            expect(day).toBeGreaterThanOrEqual(Math.max(2, Math.round(interval - delta)));
+            expect(day).toBeLessThanOrEqual(Math.round(interval + delta));
+        });
+        expect(new Set(days).size).toBeGreaterThan(1);
+    });
+
+    it('gives the same due date for the same review', () => {
+        const memory = makeState(20);
+        const capsule = makeCapsule({ memory, lastReviewed: memory.lastReview });
+        expect(recordReview(capsule, 80, 'quiz', NOW).memory!.due).toBe(recordReview(capsule, 80, 'quiz', NOW).memory!.due);
+    });
+
+    it('does not fuzz short intervals', () => {
+        const reviewed = recordReview(makeCapsule(), ratingToScore(2), 'quiz', NOW);
+        expect(reviewed.memory!.due).toBe(reviewMemoryState(null, 2, NOW).due);
+    });
+
+    it('moves the due date to the least loaded day of the range', () => {
+        const memory = makeState(20);
+        const capsule = makeCapsule({ memory, lastReviewed: memory.lastReview });
+        const interval = daysUntilDue(reviewMemoryState(memory, 3, NOW));
+        const delta = fuzzDelta(interval);
+        const minDays = Math.max(2, Math.round(interval - delta));
+        const maxDays = Math.round(interval + delta);
+        const quietDay = minDays + 1;
+
+        const load = new Map<number, number>();
+        for (let days = minDays; days <= maxDays; days++) {
+            if (days !== quietDay) load.set(addDays(NOW, days), 10);
+        }
+        expect(daysUntilDue(recordReview(capsule, 80, 'quiz', NOW, DEFAULT_SCHEDULER_PARAMETERS, load).memory!)).toBe(quietDay);
+    });
+
+    it('never goes beyond the maximum interval', () => {
+        const memory = makeState(3000, 1);
+        const reviewed = recordReview(makeCapsule({ memory, lastReviewed: memory.lastReview }), ratingToScore(4), 'quiz', NOW);
+        expect(daysUntilDue(reviewed.memory!)).toBeLessThanOrEqual(DEFAULT_SCHEDULER_PARAMETERS.maximumIntervalDays);
+    });
+});
+
+describe('review workload', () => {
+    const dueIn = (days: number, stability: number = 10): MemoryState => ({ ...makeState(stability), due: NOW + days * ONE_DAY_IN_MS });
+    const card = (front: string, memory?: MemoryState) => ({ front, back: front, memory });
+
+    it('counts every item on the day it is due and overdue items today', () => {
+        const capsule = makeCapsule({
+            lastReviewed: NOW - ONE_DAY_IN_MS,
+            flashcards: [card('A', dueIn(3)), card('B', dueIn(3)), card('C', dueIn(-5))],
+        });
+        const load = getReviewLoad([capsule], NOW);
+        expect(load.get(getStartOfDay(NOW + 3 * ONE_DAY_IN_MS))).toBe(2);
+        expect(load.get(getStartOfDay(NOW))).toBe(1);
+    });
+
+    it('counts a capsule without items once and leaves suspended capsules out', () => {
+        const capsule = makeCapsule({ memory: dueIn(2), lastReviewed: NOW - ONE_DAY_IN_MS });
+        const load = getReviewLoad([capsule, { ...capsule, id: 'suspended', suspended: true }], NOW);
+        expect([...load.values()]).toEqual([1]);
+    });
+
+    it('moves the reviews of a buried capsule to the end of the pause', () => {
+        const buriedUntil = NOW + 4 * ONE_DAY_IN_MS;
+        const capsule = makeCapsule({ memory: dueIn(1), lastReviewed: NOW - ONE_DAY_IN_MS, buriedUntil });
+        expect(getReviewLoad([capsule], NOW).get(getStartOfDay(buriedUntil))).toBe(1);
+    });
+
+    it('projects the load over the next days', () => {
+        const capsule = makeCapsule({
+            lastReviewed: NOW - ONE_DAY_IN_MS,
+            flashcards: [card('A', dueIn(0)), card('B', dueIn(2)), card('C', dueIn(2)), card('D', dueIn(40))],
+        });
+        const forecast = getReviewForecast([capsule], 7, NOW);
+        expect(forecast).toHaveLength(7);
+        expect(forecast.map(day => day.date)).toEqual(Array.from({ length: 7 }, (_, i) => addDays(NOW, i)));
+        expect(forecast.map(day => day.count)).toEqual([1, 0, 2, 0, 0, 0, 0]);
+    });
+});
+
+describe('leeches', () => {
+    const lapses = (count: number): ReviewRating[] => Array.from({ length: count }, () => 1);
+
+    it('flags an item failed LEECH_THRESHOLD times in a row', () => {
+        const capsule = makeCapsule({
+            flashcards: [
+                { front: 'Chlorophylle', back: 'Pigment vert', history: makeHistory([3, ...lapses(LEECH_THRESHOLD)]) },
+                { front: 'Stomate', back: 'Pore de la feuille', history: makeHistory(lapses(LEECH_THRESHOLD - 1)) },
+            ],
+        });
+        expect(getLeechItems(capsule).map(item => item.id)).toEqual(['capsule_fc_0']);
+        expect(isLeech(capsule)).toBe(true);
+    });
+
+    it('only counts failures at the end of the history', () => {
+        const capsule = makeCapsule({
+            flashcards: [{ front: 'Chlorophylle', back: 'Pigment vert', history: makeHistory([...lapses(LEECH_THRESHOLD), 3]) }],
+        });
+        expect(isLeech(capsule)).toBe(false);
+    });
+
+    it('flags a capsule failed as a whole', () => {
+        expect(isLeech(makeCapsule({ history: makeHistory(lapses(LEECH_THRESHOLD)) }))).toBe(true);
+        expect(isLeech(makeCapsule({ history: makeHistory(lapses(LEECH_THRESHOLD - 1)) }))).toBe(false);
+    });
+
+    it('accepts a custom threshold', () => {
+        const capsule = makeCapsule({ history: makeHistory(lapses(2)) });
+        expect(isLeech(capsule, 2)).toBe(true);
+        expect(isLeech(capsule, 3)).toBe(false);
+    });
+    it('splits a leech capsule into two halves with a fresh schedule', () => {
+        const capsule = makeCapsule({
+            memory: makeState(2),
+            lastReviewed: NOW,
+            history: makeHistory(lapses(LEECH_THRESHOLD)),
+            flashcards: ['A', 'B', 'C'].map(front => ({ front, back: front, history: makeHistory(lapses(LEECH_THRESHOLD)) })),
+        });
+        const [first, second] = splitCapsule(capsule, NOW);
+
+        expect(first.flashcards!.map(card => card.front)).toEqual(['A', 'B']);
+        expect(second.flashcards!.map(card => card.front)).toEqual(['C']);
+        [first, second].forEach(part => {
+            expect(part.memory).toBeUndefined();
+            expect(part.history).toEqual([]);
+            expect(part.lastReviewed).toBeNull();
+            expect(isLeech(part)).toBe(false);
+        });
+        expect(first.id).not.toBe(second.id);
+    });
+});
+
+describe('capsule availability', () => {
+    const capsule = makeCapsule();
+
+    it('is active by default and after a restore', () => {
+        expect(getCapsuleAvailability(capsule, NOW)).toBe('active');
+        expect(getCapsuleAvailability({ ...capsule, ...suspendCapsule(), ...restoreCapsule() }, NOW)).toBe('active');
+    });
+
+    it('keeps a suspended capsule out until it is restored', () => {
+        expect(getCapsuleAvailability({ ...capsule, ...suspendCapsule() }, NOW + 1000 * ONE_DAY_IN_MS)).toBe('suspended');
+    });
+
+    it('buries a capsule until the start of the next study day', () => {
+        const buried = { ...capsule, ...buryCapsule(NOW) };
+        expect(buried.buriedUntil).toBe(getBuryEndDate(NOW));
+        expect(buried.buriedUntil).toBe(addDays(NOW, 1));
+        expect(getCapsuleAvailability(buried, NOW)).toBe('buried');
+        expect(getCapsuleAvailability(buried, buried.buriedUntil!)).toBe('active');
+    });
+
+    it('snoozes a capsule until the chosen date', () => {
+        const until = NOW + 3 * ONE_DAY_IN_MS;
+        const snoozed = { ...capsule, ...snoozeCapsule(until) };
+        expect(getCapsuleAvailability(snoozed, until - 1)).toBe('snoozed');
+        expect(getCapsuleAvailability(snoozed, until)).toBe('active');
+    });
+
+    it('lets suspension win over bury and snooze, and replaces one pause by another', () => {
+        expect(getCapsuleAvailability({ ...capsule, ...buryCapsule(NOW), suspended: true }, NOW)).toBe('suspended');
+        const snoozedThenBuried = { ...capsule, ...snoozeCapsule(NOW + 10 * ONE_DAY_IN_MS), ...buryCapsule(NOW) };
+        expect(snoozedThenBuried.snoozedUntil).toBeUndefined();
+        expect(getCapsuleAvailability(snoozedThenBuried, addDays(NOW, 1))).toBe('active');
+    });
+
+    it('leaves suspended capsules out of the global performance', () => {
+        const reviewed = recordReview(capsule, 100, 'quiz', NOW);
+        const performance = analyzeGlobalPerformance([reviewed, { ...reviewed, id: 'suspended', ...suspendCapsule() }]);
+        expect(performance.suspendedCount).toBe(1);
+        expect(performance.globalMastery).toBe(calculateMasteryScore(reviewed));
+        expect(performance.dueCount + performance.upcomingCount).toBe(1);
+    });
+});
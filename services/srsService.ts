@@ -1,18 +1,385 @@
 
-import type { CognitiveCapsule } from '../types';
+import type { CoachingMode, CognitiveCapsule, FlashcardContent, MemoryState, QuizQuestion, ReviewLog, ReviewRating, UserProfile } from '../types';
+import { addDays, getStartOfDay } from './calendarService';
 
-// Review intervals in days for each stage, as requested.
-export const REVIEW_INTERVALS_DAYS = [1, 3, 7, 14, 30, 60, 90, 120];
 const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
 
+// --- MEMORY MODEL PARAMETERS ---
+
+/**
+ * Default weights of the stability/difficulty model (FSRS v4.5 defaults).
+ * w[0..3]: initial stability per rating, w[4..7]: difficulty, w[8..10]: recall, w[11..14]: lapse,
+ * w[15]: hard penalty, w[16]: easy bonus.
+ */
+export const DEFAULT_WEIGHTS = [
+    0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+    0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+export interface SchedulerParameters {
+    weights: number[];
+    desiredRetention: number; // Target recall probability at the due date (0-1)
+    maximumIntervalDays: number;
+}
+
+export const DEFAULT_SCHEDULER_PARAMETERS: SchedulerParameters = {
+    weights: DEFAULT_WEIGHTS,
+    desiredRetention: 0.9,
+    maximumIntervalDays: 365,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Range of retention targets a user can pick: below, forgetting is the norm; above, the workload explodes.
+export const MIN_DESIRED_RETENTION = 0.7;
+export const MAX_DESIRED_RETENTION = 0.97;
+
+/**
+ * Scheduler parameters of a user: personal weights when the optimizer has been run, and the
+ * retention target chosen in the profile. Defaults otherwise.
+ */
+export const getSchedulerParameters = (user?: UserProfile | null): SchedulerParameters => {
+    const weights = user?.memoryParameters?.weights;
+    return {
+        ...DEFAULT_SCHEDULER_PARAMETERS,
+        weights: weights && weights.length === DEFAULT_WEIGHTS.length ? weights : DEFAULT_WEIGHTS,
+        desiredRetention: user?.desiredRetention
+            ? clamp(user.desiredRetention, MIN_DESIRED_RETENTION, MAX_DESIRED_RETENTION)
+            : DEFAULT_SCHEDULER_PARAMETERS.desiredRetention,
+    };
+};
+
+// Power forgetting curve: R(t, S) = (1 + FACTOR * t / S) ^ DECAY, with R(S, S) = 90%.
+const DECAY = -0.5;
+const FACTOR = Math.pow(0.9, 1 / DECAY) - 1;
+
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+
+// Stability (in days) at which the consistency part of the mastery score is maxed out.
+const MASTERY_STABILITY_DAYS = 90;
+
+// Number of failed reviews in a row after which an item is flagged as a leech.
+export const LEECH_THRESHOLD = 4;
+
+// Former fixed ladder, only used to migrate capsules reviewed before the memory model existed.
+const LEGACY_INTERVALS_DAYS = [1, 3, 7, 14, 30, 60, 90, 120];
+
+// Fuzz applied to intervals: each range adds `factor` days of spread per day of interval inside it.
+const FUZZ_RANGES = [
+    { start: 2.5, end: 7, factor: 0.15 },
+    { start: 7, end: 20, factor: 0.1 },
+    { start: 20, end: Infinity, factor: 0.05 },
+];
+
+// Items are due for the whole study day (see calendarService) on which their due date falls
+const isDueBy = (due: number, now: number): boolean => due < addDays(now, 1);
+
+// Deterministic pseudo-random number in [0, 1) derived from a string
+const seededRandom = (seed: string): number => {
+    let hash = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    return (hash >>> 0) / 4294967296;
+};
+
+// --- CORE MODEL ---
+
+/**
+ * Converts a review score (0-100) into a rating.
+ */
+export const scoreToRating = (score: number): ReviewRating => {
+    if (score < 50) return 1;
+    if (score < 70) return 2;
+    if (score < 90) return 3;
+    return 4;
+};
+
+/**
+ * Converts a self-assessed rating into the score stored in the review log.
+ * `scoreToRating(ratingToScore(r)) === r` for every rating.
+ */
+export const ratingToScore = (rating: ReviewRating): number => {
+    switch (rating) {
+        case 1: return 0;
+        case 2: return 60;
+        case 3: return 80;
+        case 4: return 100;
+    }
+};
+
+/**
+ * Rating of a logged review. Logs written before ratings existed only have a score.
+ */
+export const getLogRating = (log: ReviewLog): ReviewRating => log.rating || scoreToRating(log.score);
+
+/**
+ * Probability (0-1) of recalling an item `elapsedDays` after its last review.
+ */
+export const forgettingCurve = (elapsedDays: number, stability: number): number => {
+    if (stability <= 0) return 0;
+    return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY);
+};
+
+/**
+ * Number of days after which the recall probability reaches the desired retention.
+ */
+export const getIntervalDays = (stability: number, params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS): number => {
+    const days = (stability / FACTOR) * (Math.pow(params.desiredRetention, 1 / DECAY) - 1);
+    return clamp(Math.round(days), 1, params.maximumIntervalDays);
+};
+
+const initialStability = (rating: ReviewRating, w: number[]) => Math.max(0.1, w[rating - 1]);
+
+const initialDifficulty = (rating: ReviewRating, w: number[]) =>
+    clamp(w[4] - (rating - 3) * w[5], MIN_DIFFICULTY, MAX_DIFFICULTY);
+
+const nextDifficulty = (difficulty: number, rating: ReviewRating, w: number[]) => {
+    const next = difficulty - w[6] * (rating - 3);
+    // Mean reversion towards the default difficulty to avoid "ease hell"
+    const reverted = w[7] * initialDifficulty(4, w) + (1 - w[7]) * next;
+    return clamp(reverted, MIN_DIFFICULTY, MAX_DIFFICULTY);
+};
+
+const stabilityAfterRecall = (difficulty: number, stability: number, retrievability: number, rating: ReviewRating, w: number[]) => {
+    const hardPenalty = rating === 2 ? w[15] : 1;
+    const easyBonus = rating === 4 ? w[16] : 1;
+    return stability * (1 + Math.exp(w[8])
+        * (11 - difficulty)
+        * Math.pow(stability, -w[9])
+        * (Math.exp((1 - retrievability) * w[10]) - 1)
+        * hardPenalty
+        * easyBonus);
+};
+
+const stabilityAfterLapse = (difficulty: number, stability: number, retrievability: number, w: number[]) => {
+    const next = w[11]
+        * Math.pow(difficulty, -w[12])
+        * (Math.pow(stability + 1, w[13]) - 1)
+        * Math.exp((1 - retrievability) * w[14]);
+    return Math.min(stability, Math.max(0.1, next));
+};
+
+/**
+ * Computes the memory state after a review with the given rating.
+ * `state` is null for an item that has never been reviewed.
+ */
+export const reviewMemoryState = (
+    state: MemoryState | null,
+    rating: ReviewRating,
+    now: number = Date.now(),
+    params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS
+): MemoryState => {
+    const w = params.weights;
+    let stability: number;
+    let difficulty: number;
+
+    if (!state) {
+        stability = initialStability(rating, w);
+        difficulty = initialDifficulty(rating, w);
+    } else {
+        const elapsedDays = (now - state.lastReview) / ONE_DAY_IN_MS;
+        const retrievability = forgettingCurve(elapsedDays, state.stability);
+        stability = rating === 1
+            ? stabilityAfterLapse(state.difficulty, state.stability, retrievability, w)
+            : stabilityAfterRecall(state.difficulty, state.stability, retrievability, rating, w);
+        difficulty = nextDifficulty(state.difficulty, rating, w);
+    }
+
+    return {
+        stability,
+        difficulty,
+        lastReview: now,
+        due: now + getIntervalDays(stability, params) * ONE_DAY_IN_MS,
+        reps: (state?.reps || 0) + 1,
+        lapses: (state?.lapses || 0) + (rating === 1 ? 1 : 0),
+    };
+};
+
+/**
+ * Rebuilds a memory state by replaying a review history with the given parameters.
+ * Returns null for an empty history.
+ */
+export const replayHistory = (
+    history: ReviewLog[],
+    params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS
+): MemoryState | null =>
+    history.reduce<MemoryState | null>((state, log) => reviewMemoryState(state, getLogRating(log), log.date, params), null);
+
+// --- WORKLOAD ---
+
+/**
+ * Number of items due per day, keyed by the timestamp of the start of the day.
+ */
+export type ReviewLoad = Map<number, number>;
+
+export interface ReviewForecastDay {
+    date: number; // Start of the day
+    count: number; // Items (flashcards, quiz questions or capsules without items) due that day
+}
+
+/**
+ * Spreads the due date of a freshly computed memory state: the interval is fuzzed around its
+ * theoretical value and, within that range, the least loaded day is picked so that reviews
+ * do not pile up on a single day. The seed keeps the result stable for a given review.
+ */
+const spreadDueDate = (
+    memory: MemoryState,
+    seed: string,
+    params: SchedulerParameters,
+    load?: ReviewLoad
+): MemoryState => {
+    const interval = (memory.due - memory.lastReview) / ONE_DAY_IN_MS;
+    if (interval < FUZZ_RANGES[0].start) return memory;
+
+    const delta = FUZZ_RANGES.reduce((acc, range) =>
+        acc + range.factor * Math.max(Math.min(interval, range.end) - range.start, 0), 1);
+    const minDays = Math.max(2, Math.round(interval - delta));
+    const maxDays = Math.max(minDays, Math.min(Math.round(interval + delta), params.maximumIntervalDays));
+
+    // Random target inside the range, used when several days share the same load
+    const target = minDays + seededRandom(seed) * (maxDays - minDays);
+    let bestDays = minDays;
+    let bestCost = Infinity;
+    for (let days = minDays; days <= maxDays; days++) {
+        const dayLoad = load?.get(addDays(memory.lastReview, days)) || 0;
+        const cost = dayLoad + Math.abs(days - target) / (maxDays - minDays + 1);
+        if (cost < bestCost) {
+            bestCost = cost;
+            bestDays = days;
+        }
+    }
+
+    return { ...memory, due: memory.lastReview + bestDays * ONE_DAY_IN_MS };
+};
+
+// --- CAPSULE HELPERS ---
+
+/**
+ * Returns the memory state of a capsule, or null if it has never been reviewed as a whole.
+ * Capsules reviewed with the former fixed ladder are migrated on the fly.
+ */
+export const getMemoryState = (capsule: CognitiveCapsule): MemoryState | null => {
+    if (capsule.memory) return capsule.memory;
+    if (capsule.lastReviewed === null) return null;
+    // Only reviewed item by item: there is no capsule-level state to migrate
+    const items: { memory?: MemoryState }[] = [...(capsule.flashcards || []), ...(capsule.quiz || [])];
+    if (items.some(item => item.memory)) return null;
+
+    const stage = Math.min(capsule.reviewStage, LEGACY_INTERVALS_DAYS.length - 1);
+    const stability = LEGACY_INTERVALS_DAYS[stage];
+    return {
+        stability,
+        difficulty: initialDifficulty(3, DEFAULT_WEIGHTS),
+        lastReview: capsule.lastReviewed,
+        due: capsule.lastReviewed + stability * ONE_DAY_IN_MS,
+        reps: capsule.reviewStage,
+        lapses: 0,
+    };
+};
+
+// --- FLASHCARD & QUIZ ITEMS ---
+
+export type ReviewItemKind = 'flashcard' | 'quiz';
+
+type ReviewableItem = FlashcardContent | QuizQuestion;
+
+/**
+ * Identifier of a flashcard or quiz question, derived from its position
+ * when none is stored yet (see `assignItemIds`).
+ */
+const getItemId = (capsule: CognitiveCapsule, kind: ReviewItemKind, item: ReviewableItem, index: number): string =>
+    item.id || `${capsule.id}_${kind === 'flashcard' ? 'fc' : 'q'}_${index}`;
+
+/**
+ * Stores an id on every flashcard and quiz question, so that inserting or removing an item later does not
+ * hand its schedule to another one. To be applied when a capsule is created or loaded.
+ * Items keep the positional id they may already have been reviewed or translated under, unless it is taken.
+ */
+export const assignItemIds = (capsule: CognitiveCapsule): CognitiveCapsule => {
+    const items: ReviewableItem[] = [...(capsule.flashcards || []), ...(capsule.quiz || [])];
+    if (items.every(item => item.id)) return capsule;
+
+    const usedIds = new Set(items.map(item => item.id).filter(Boolean));
+    const withId = (kind: ReviewItemKind) => <T extends ReviewableItem>(item: T, index: number): T => {
+        if (item.id) return item;
+        const positionalId = getItemId(capsule, kind, item, index);
+        let id = positionalId;
+        for (let n = 2; usedIds.has(id); n++) id = `${positionalId}_${n}`;
+        usedIds.add(id);
+        return { ...item, id };
+    };
+    return {
+        ...capsule,
+        quiz: (capsule.quiz || []).map(withId('quiz')),
+        flashcards: capsule.flashcards ? capsule.flashcards.map(withId('flashcard')) : undefined,
+    };
+};
+
+export const getFlashcards = (capsule: CognitiveCapsule): FlashcardContent[] =>
+    (capsule.flashcards || []).map((card, i) => ({ ...card, id: getItemId(capsule, 'flashcard', card, i) }));
+
+export const getQuizQuestions = (capsule: CognitiveCapsule): QuizQuestion[] =>
+    (capsule.quiz || []).map((question, i) => ({ ...question, id: getItemId(capsule, 'quiz', question, i) }));
+
+/**
+ * Memory state of a single item. Items that were never reviewed individually
+ * follow the capsule-level schedule.
+ */
+const getItemMemoryState = (capsule: CognitiveCapsule, item: ReviewableItem): MemoryState | null =>
+    item.memory || getMemoryState(capsule);
+
+const isItemDue = (capsule: CognitiveCapsule, item: ReviewableItem, now: number): boolean => {
+    const state = getItemMemoryState(capsule, item);
+    return isDueBy(state ? state.due : capsule.createdAt, now);
+};
+
+export const getDueFlashcards = (capsule: CognitiveCapsule): FlashcardContent[] => {
+    const now = Date.now();
+    return getFlashcards(capsule).filter(card => isItemDue(capsule, card, now));
+};
+
+export const getDueQuizQuestions = (capsule: CognitiveCapsule): QuizQuestion[] => {
+    const now = Date.now();
+    return getQuizQuestions(capsule).filter(question => isItemDue(capsule, question, now));
+};
+
 /**
- * Calculates the next review interval in milliseconds for a given review stage.
+ * Interval (in days) the item would get for each possible rating, for grading buttons.
  */
-const getReviewInterval = (stage: number): number => {
-    const days = stage >= REVIEW_INTERVALS_DAYS.length 
-        ? REVIEW_INTERVALS_DAYS[REVIEW_INTERVALS_DAYS.length - 1]
-        : REVIEW_INTERVALS_DAYS[stage];
-    return days * ONE_DAY_IN_MS;
+export const previewItemIntervals = (
+    capsule: CognitiveCapsule,
+    item: FlashcardContent | QuizQuestion,
+    now: number = Date.now(),
+    params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS
+): Record<ReviewRating, number> => {
+    const state = getItemMemoryState(capsule, item);
+    const preview = {} as Record<ReviewRating, number>;
+    ([1, 2, 3, 4] as ReviewRating[]).forEach(rating => {
+        const next = reviewMemoryState(state, rating, now, params);
+        preview[rating] = Math.round((next.due - now) / ONE_DAY_IN_MS);
+    });
+    return preview;
+};
+
+const getAllItems = (capsule: CognitiveCapsule): ReviewableItem[] => [...getFlashcards(capsule), ...getQuizQuestions(capsule)];
+
+/**
+ * Timestamp at which the capsule should be reviewed next, i.e. the earliest due date of its items.
+ * A capsule that has never been reviewed is due immediately.
+ */
+export const getNextReviewDate = (capsule: CognitiveCapsule): number => {
+    const items = getAllItems(capsule);
+    if (items.length === 0) {
+        const state = getMemoryState(capsule);
+        return state ? state.due : capsule.createdAt;
+    }
+    return Math.min(...items.map(item => {
+        const state = getItemMemoryState(capsule, item);
+        return state ? state.due : capsule.createdAt;
+    }));
 };
 
 /**
@@ -20,87 +387,307 @@ const getReviewInterval = (stage: number): number => {
  */
 export const isCapsuleDue = (capsule: CognitiveCapsule): boolean => {
     const now = Date.now();
-    
-    if (capsule.lastReviewed === null) {
-        // Due immediately (or 1 day after creation depending on logic, here immediate)
-        return true; 
-    }
+    if (getCapsuleAvailability(capsule, now) !== 'active') return false;
+    return isDueBy(getNextReviewDate(capsule), now);
+};
+
+// --- SUSPEND / BURY / SNOOZE ---
 
-    const interval = getReviewInterval(capsule.reviewStage);
-    const nextReviewDate = capsule.lastReviewed + interval;
-    
-    return now >= nextReviewDate;
+export type CapsuleAvailability = 'active' | 'suspended' | 'buried' | 'snoozed';
+
+export type CapsuleAvailabilityFields = Pick<CognitiveCapsule, 'suspended' | 'buriedUntil' | 'snoozedUntil'>;
+
+/**
+ * Whether the capsule is in the review rotation. Suspension wins over bury and snooze,
+ * which expire on their own.
+ */
+export const getCapsuleAvailability = (capsule: CognitiveCapsule, now: number = Date.now()): CapsuleAvailability => {
+    if (capsule.suspended) return 'suspended';
+    if (capsule.buriedUntil && now < capsule.buriedUntil) return 'buried';
+    if (capsule.snoozedUntil && now < capsule.snoozedUntil) return 'snoozed';
+    return 'active';
 };
 
 /**
- * Calculates the probability of retention (forgetting curve approximation).
- * Based on Ebbinghaus: R = e^(-t/S) where t is time elapsed and S is stability (interval).
- * Returns a percentage (0-100).
+ * Date until which a capsule buried now stays out of the rotation (start of the next day).
+ */
+export const getBuryEndDate = (now: number = Date.now()): number => addDays(now, 1);
+
+export const suspendCapsule = (): CapsuleAvailabilityFields => ({ suspended: true, buriedUntil: undefined, snoozedUntil: undefined });
+
+export const buryCapsule = (now: number = Date.now()): CapsuleAvailabilityFields => ({ suspended: false, buriedUntil: getBuryEndDate(now), snoozedUntil: undefined });
+
+export const snoozeCapsule = (until: number): CapsuleAvailabilityFields => ({ suspended: false, buriedUntil: undefined, snoozedUntil: until });
+
+export const restoreCapsule = (): CapsuleAvailabilityFields => ({ suspended: false, buriedUntil: undefined, snoozedUntil: undefined });
+
+// --- LEECHES ---
+
+/**
+ * Number of failed reviews at the end of a history.
+ */
+const countTrailingLapses = (history: ReviewLog[] = []): number => {
+    let count = 0;
+    for (let i = history.length - 1; i >= 0 && getLogRating(history[i]) === 1; i--) count++;
+    return count;
+};
+
+/**
+ * Flashcards and quiz questions failed at least `threshold` times in a row.
+ */
+export const getLeechItems = (capsule: CognitiveCapsule, threshold: number = LEECH_THRESHOLD): ReviewableItem[] =>
+    getAllItems(capsule).filter(item => countTrailingLapses(item.history) >= threshold);
+
+/**
+ * A capsule is a leech when it, or one of its items, keeps failing review after review.
  */
-export const calculateRetentionProbability = (capsule: CognitiveCapsule): number => {
-    if (capsule.lastReviewed === null) return 0; // Not reviewed yet implies unknown retention
+export const isLeech = (capsule: CognitiveCapsule, threshold: number = LEECH_THRESHOLD): boolean =>
+    countTrailingLapses(capsule.history) >= threshold || getLeechItems(capsule, threshold).length > 0;
 
+/**
+ * Splits a capsule in two smaller capsules (key concepts, examples, quiz and flashcards are
+ * shared out in order). Both halves start a fresh schedule.
+ */
+export const splitCapsule = (capsule: CognitiveCapsule, now: number = Date.now()): [CognitiveCapsule, CognitiveCapsule] => {
+    const half = <T>(list: T[] = [], part: 0 | 1) => {
+        const middle = Math.ceil(list.length / 2);
+        return part === 0 ? list.slice(0, middle) : list.slice(middle);
+    };
+    const makePart = (part: 0 | 1): CognitiveCapsule => {
+        const { memory: _memory, ...rest } = capsule;
+        const strip = <T extends ReviewableItem>(item: T): T => ({ ...item, id: undefined, memory: undefined, history: undefined });
+        return {
+            ...rest,
+            id: `${capsule.id}_${part + 1}`,
+            title: `${capsule.title} (${part + 1}/2)`,
+            keyConcepts: half(capsule.keyConcepts, part),
+            examples: half(capsule.examples, part),
+            quiz: half(capsule.quiz, part).map(strip),
+            flashcards: capsule.flashcards ? half(capsule.flashcards, part).map(strip) : undefined,
+            createdAt: now,
+            lastReviewed: null,
+            reviewStage: 0,
+            history: [],
+            masteryLevel: 0,
+            suspended: false,
+        };
+    };
+    return [assignItemIds(makePart(0)), assignItemIds(makePart(1))];
+};
+
+/**
+ * Calculates the probability of retention from the memory model's forgetting curve.
+ * With personal parameters, memory states are rebuilt from the review history.
+ * Returns a percentage (0-100).
+ */
+export const calculateRetentionProbability = (capsule: CognitiveCapsule, params?: SchedulerParameters): number => {
     const now = Date.now();
-    const timeElapsed = now - capsule.lastReviewed;
-    const interval = getReviewInterval(capsule.reviewStage);
-
-    // Avoid division by zero
-    if (interval === 0) return 0;
-
-    // Using a simplified exponential decay
-    // When timeElapsed == interval, retention is approx 85% in a well-tuned SRS.
-    // We verify: e^(-1) is 0.36 (too harsh). We scale t/S.
-    // Let's use a linear approximation for UI friendliness or a tuned exponential.
-    // R = 100 * (2 ^ -(timeElapsed / interval)) is a standard half-life model.
-    
-    // Let's assume the 'interval' is the point where retention drops to 90% for a "due" item.
-    // Actually, simple UI logic: 
-    // 100% immediately after review.
-    // 0% when timeElapsed = 2 * interval (completely forgotten).
-    
-    const ratio = timeElapsed / interval;
-    
-    // We model that at 1.0 (due date), retention is around 80-90%.
-    // Let's use: 100 * e^(-0.2 * ratio)
-    const probability = 100 * Math.exp(-0.15 * ratio);
-    
+    const states = getItemStates(capsule, params);
+    if (states.length === 0) return 0; // Not reviewed yet implies unknown retention
+
+    // Average over items; never reviewed items count as forgotten
+    const total = states.reduce((acc, state) => {
+        if (!state) return acc;
+        const elapsedDays = (now - state.lastReview) / ONE_DAY_IN_MS;
+        return acc + forgettingCurve(elapsedDays, state.stability);
+    }, 0);
+    const probability = 100 * total / states.length;
+
     return Math.max(0, Math.min(100, Math.round(probability)));
 };
 
 /**
- * Calculates a Global Mastery Score (0-100) based on stage and quiz history.
+ * Memory states of every item of the capsule (or of the capsule itself if it has no items).
+ * When `params` is given, states with a history are replayed with those parameters.
+ * Returns an empty list when nothing has ever been reviewed.
+ */
+export const getItemStates = (capsule: CognitiveCapsule, params?: SchedulerParameters): (MemoryState | null)[] => {
+    const replayed = (history: ReviewLog[] | undefined, stored: MemoryState | null) =>
+        params && history && history.length > 0 ? replayHistory(history, params) : stored;
+
+    const capsuleState = replayed(capsule.memory ? capsule.history : undefined, getMemoryState(capsule));
+    const items = getAllItems(capsule);
+    const states = items.length > 0
+        ? items.map(item => item.memory ? replayed(item.history, item.memory) : capsuleState)
+        : [capsuleState];
+    return states.some(state => state !== null) ? states : [];
+};
+
+/**
+ * Applies a review to a capsule: updates its memory state, history and mastery.
+ * Returns a new capsule object (the input is not mutated).
+ */
+export const recordReview = (
+    capsule: CognitiveCapsule,
+    score: number,
+    type: ReviewLog['type'],
+    now: number = Date.now(),
+    params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS,
+    load?: ReviewLoad
+): CognitiveCapsule => {
+    const rating = scoreToRating(score);
+    const memory = spreadDueDate(reviewMemoryState(getMemoryState(capsule), rating, now, params), `${capsule.id}:${now}`, params, load);
+    const log: ReviewLog = { date: now, type, score, rating };
+
+    const updated: CognitiveCapsule = {
+        ...capsule,
+        memory,
+        lastReviewed: now,
+        // The stage now counts consecutive successful reviews
+        reviewStage: rating === 1 ? 0 : capsule.reviewStage + 1,
+        history: [...(capsule.history || []), log],
+    };
+    return { ...updated, masteryLevel: calculateMasteryScore(updated) };
+};
+
+/**
+ * Applies the result of a coaching session (oral, exam, guided solving) to the capsule, like a review.
+ * The history entry keeps the coaching mode.
+ */
+export const recordCoachingResult = (
+    capsule: CognitiveCapsule,
+    mode: CoachingMode,
+    score: number,
+    now: number = Date.now(),
+    params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS,
+    load?: ReviewLoad
+): CognitiveCapsule => {
+    const reviewed = recordReview(capsule, score, 'coaching', now, params, load);
+    const history = reviewed.history || [];
+    const log: ReviewLog = { ...history[history.length - 1], coachingMode: mode };
+    return { ...reviewed, history: [...history.slice(0, -1), log] };
+};
+
+/**
+ * Applies a review to a single flashcard or quiz question of the capsule.
+ * Returns a new capsule object (the input is not mutated).
+ */
+export const recordItemReview = (
+    capsule: CognitiveCapsule,
+    kind: ReviewItemKind,
+    itemId: string,
+    score: number,
+    now: number = Date.now(),
+    params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS,
+    load?: ReviewLoad
+): CognitiveCapsule => {
+    const rating = scoreToRating(score);
+    const log: ReviewLog = { date: now, type: kind, score, rating };
+
+    const reviewItem = <T extends ReviewableItem>(item: T): T => {
+        if (item.id !== itemId) return item;
+        const memory = reviewMemoryState(getItemMemoryState(capsule, item), rating, now, params);
+        return {
+            ...item,
+            memory: spreadDueDate(memory, `${itemId}:${now}`, params, load),
+            history: [...(item.history || []), log],
+        };
+    };
+
+    const updated: CognitiveCapsule = {
+        ...capsule,
+        lastReviewed: now,
+        flashcards: kind === 'flashcard' ? getFlashcards(capsule).map(reviewItem) : capsule.flashcards,
+        quiz: kind === 'quiz' ? getQuizQuestions(capsule).map(reviewItem) : capsule.quiz,
+    };
+    return { ...updated, masteryLevel: calculateMasteryScore(updated) };
+};
+
+/**
+ * Due dates of every item of the capsule (the capsule itself if it has no items).
+ * Items never reviewed are due at the capsule creation.
+ */
+const getDueDates = (capsule: CognitiveCapsule): number[] => {
+    const items = getAllItems(capsule);
+    const states = items.length > 0 ? items.map(item => getItemMemoryState(capsule, item)) : [getMemoryState(capsule)];
+    return states.map(state => state ? state.due : capsule.createdAt);
+};
+
+/**
+ * Current review load of the base, to pass to `recordReview` / `recordItemReview`.
+ * Overdue items are counted on the current day, suspended capsules are left out.
+ */
+export const getReviewLoad = (capsules: CognitiveCapsule[], now: number = Date.now()): ReviewLoad => {
+    const today = getStartOfDay(now);
+    const load: ReviewLoad = new Map();
+    capsules.forEach(capsule => {
+        if (capsule.suspended) return;
+        // Buried or snoozed items come back at the end of the pause
+        const pausedUntil = Math.max(capsule.buriedUntil || 0, capsule.snoozedUntil || 0);
+        getDueDates(capsule).forEach(due => {
+            const day = Math.max(today, getStartOfDay(Math.max(due, pausedUntil)));
+            load.set(day, (load.get(day) || 0) + 1);
+        });
+    });
+    return load;
+};
+
+/**
+ * Projects how many reviews fall on each of the next `days` days (today included).
+ */
+export const getReviewForecast = (capsules: CognitiveCapsule[], days: number = 30, now: number = Date.now()): ReviewForecastDay[] => {
+    const load = getReviewLoad(capsules, now);
+    return Array.from({ length: days }, (_, i) => {
+        const date = addDays(now, i);
+        return { date, count: load.get(date) || 0 };
+    });
+};
+
+/**
+ * Latest score of each item. Items never reviewed on their own follow the capsule reviews (as in `getItemStates`);
+ * a capsule without items keeps its last 3 sessions.
+ */
+const getRecentScores = (capsule: CognitiveCapsule): number[] => {
+    const capsuleLogs = capsule.history || [];
+    const items = getAllItems(capsule);
+    if (items.length === 0) return capsuleLogs.slice(-3).map(log => log.score);
+
+    const lastCapsuleLog = capsuleLogs[capsuleLogs.length - 1];
+    return items.flatMap(item => {
+        const log = item.history && item.history.length > 0 ? item.history[item.history.length - 1] : lastCapsuleLog;
+        return log ? [log.score] : [];
+    });
+};
+
+/**
+ * Calculates a Global Mastery Score (0-100) based on memory stability and the latest reviews of its items.
  */
 export const calculateMasteryScore = (capsule: CognitiveCapsule): number => {
-    // Base score from SRS stage (Consistency) - up to 60 points
-    const maxStage = REVIEW_INTERVALS_DAYS.length;
-    const stageScore = Math.min(capsule.reviewStage, maxStage) / maxStage * 60;
+    // Base score from memory stability (Consistency), averaged over items - up to 60 points
+    const states = getItemStates(capsule);
+    const stabilityRatio = states.length === 0 ? 0 : states.reduce((acc, state) =>
+        acc + (state ? Math.min(1, Math.log1p(state.stability) / Math.log1p(MASTERY_STABILITY_DAYS)) : 0), 0) / states.length;
+    const stabilityScore = stabilityRatio * 60;
 
     // Performance score from history (Quality) - up to 40 points
     let performanceScore = 0;
-    if (capsule.history && capsule.history.length > 0) {
-        // Take average of last 3 sessions
-        const recentLogs = capsule.history.slice(-3);
-        const avgScore = recentLogs.reduce((acc, log) => acc + log.score, 0) / recentLogs.length;
+    const recentScores = getRecentScores(capsule);
+    if (recentScores.length > 0) {
+        const avgScore = recentScores.reduce((acc, score) => acc + score, 0) / recentScores.length;
         performanceScore = (avgScore / 100) * 40;
     } else {
         // Default performance if no history yet but stage advanced manually
-        performanceScore = capsule.reviewStage > 0 ? 20 : 0; 
+        performanceScore = capsule.reviewStage > 0 ? 20 : 0;
     }
 
-    return Math.round(stageScore + performanceScore);
+    return Math.round(stabilityScore + performanceScore);
 };
 
 /**
  * Analyses global user performance.
  */
-export const analyzeGlobalPerformance = (capsules: CognitiveCapsule[]) => {
-    const total = capsules.length;
+export const analyzeGlobalPerformance = (capsules: CognitiveCapsule[], params?: SchedulerParameters) => {
+    // Suspended capsules are out of the rotation and do not weigh on the averages
+    const activeCapsules = capsules.filter(c => !c.suspended);
+    const suspendedCount = capsules.length - activeCapsules.length;
+    const total = activeCapsules.length;
     if (total === 0) return {
         globalMastery: 0,
         retentionAverage: 0,
         dueCount: 0,
         overdueCount: 0,
-        upcomingCount: 0
+        upcomingCount: 0,
+        suspendedCount
     };
 
     let totalMastery = 0;
@@ -109,15 +696,16 @@ export const analyzeGlobalPerformance = (capsules: CognitiveCapsule[]) => {
     let overdueCount = 0;
     const now = Date.now();
 
-    capsules.forEach(c => {
+    activeCapsules.forEach(c => {
         totalMastery += calculateMasteryScore(c);
-        totalRetention += calculateRetentionProbability(c);
-        
+        totalRetention += calculateRetentionProbability(c, params);
+
         if (isCapsuleDue(c)) {
             dueCount++;
-            // Consider "Overdue" if 1.5x the interval has passed since due date
-            const interval = getReviewInterval(c.reviewStage);
-            const dueDate = (c.lastReviewed || c.createdAt) + interval;
+            // Consider "Overdue" if half of the scheduled interval has passed since the due date
+            const state = getMemoryState(c);
+            const dueDate = getNextReviewDate(c);
+            const interval = state ? state.due - state.lastReview : ONE_DAY_IN_MS;
             if (now > dueDate + (interval * 0.5)) {
                 overdueCount++;
             }
@@ -129,7 +717,8 @@ export const analyzeGlobalPerformance = (capsules: CognitiveCapsule[]) => {
         retentionAverage: Math.round(totalRetention / total),
         dueCount,
         overdueCount,
-        upcomingCount: total - dueCount
+        upcomingCount: total - dueCount,
+        suspendedCount
     };
 };
 
@@ -141,48 +730,57 @@ export interface ReviewStageInfo {
     status: 'completed' | 'due' | 'upcoming';
 }
 
-export const getReviewSchedule = (capsule: CognitiveCapsule): ReviewStageInfo[] => {
+// Number of past reviews displayed in the schedule
+const MAX_COMPLETED_STAGES_SHOWN = 5;
+
+export const getReviewSchedule = (capsule: CognitiveCapsule, params: SchedulerParameters = DEFAULT_SCHEDULER_PARAMETERS): ReviewStageInfo[] => {
     const schedule: ReviewStageInfo[] = [];
     const now = Date.now();
+    const history = capsule.history || [];
 
-    // 1. Completed Stages
-    for (let i = 0; i < capsule.reviewStage; i++) {
-        if (i < REVIEW_INTERVALS_DAYS.length) {
-            schedule.push({
-                stage: i + 1,
-                intervalDays: REVIEW_INTERVALS_DAYS[i],
-                reviewDate: 0, 
-                status: 'completed',
-            });
-        }
+    // 1. Completed reviews (interval actually waited before each of them)
+    const firstShown = Math.max(0, history.length - MAX_COMPLETED_STAGES_SHOWN);
+    for (let i = firstShown; i < history.length; i++) {
+        const previousDate = i === 0 ? capsule.createdAt : history[i - 1].date;
+        schedule.push({
+            stage: i + 1,
+            intervalDays: Math.max(0, Math.round((history[i].date - previousDate) / ONE_DAY_IN_MS)),
+            reviewDate: 0,
+            status: 'completed',
+        });
     }
 
-    // 2. The Next Stage
-    let lastKnownReviewDate = capsule.lastReviewed || capsule.createdAt;
-    const nextStageIndex = capsule.reviewStage;
+    // 2. The next review (earliest due item)
+    const nextStage = history.length + 1;
 
-    if (nextStageIndex < REVIEW_INTERVALS_DAYS.length) {
-        const intervalMs = getReviewInterval(nextStageIndex);
-        const nextReviewDate = lastKnownReviewDate + intervalMs;
+    if (capsule.lastReviewed === null) {
         schedule.push({
-            stage: nextStageIndex + 1,
-            intervalDays: REVIEW_INTERVALS_DAYS[nextStageIndex],
-            reviewDate: nextReviewDate,
-            status: now >= nextReviewDate ? 'due' : 'upcoming',
+            stage: nextStage,
+            intervalDays: 0,
+            reviewDate: capsule.createdAt,
+            status: 'due',
         });
+        return schedule;
+    }
 
-        // 3. Project one future stage
-        const futureStageIndex = nextStageIndex + 1;
-        if (futureStageIndex < REVIEW_INTERVALS_DAYS.length) {
-            const futureIntervalMs = getReviewInterval(futureStageIndex);
-            const futureReviewDate = nextReviewDate + futureIntervalMs; 
-            schedule.push({
-                stage: futureStageIndex + 1,
-                intervalDays: REVIEW_INTERVALS_DAYS[futureStageIndex],
-                reviewDate: futureReviewDate,
-                status: 'upcoming',
-            });
-        }
+    const nextReviewDate = getNextReviewDate(capsule);
+    schedule.push({
+        stage: nextStage,
+        intervalDays: Math.max(0, Math.round((nextReviewDate - capsule.lastReviewed) / ONE_DAY_IN_MS)),
+        reviewDate: nextReviewDate,
+        status: isDueBy(nextReviewDate, now) ? 'due' : 'upcoming',
+    });
+
+    // 3. Project one future review, assuming a "Good" recall at the due date
+    const state = getMemoryState(capsule);
+    if (state) {
+        const projected = reviewMemoryState(state, 3, Math.max(nextReviewDate, state.due), params);
+        schedule.push({
+            stage: nextStage + 1,
+            intervalDays: Math.round((projected.due - projected.lastReview) / ONE_DAY_IN_MS),
+            reviewDate: projected.due,
+            status: 'upcoming',
+        });
     }
 
     return schedule;
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { PartialCapsule, createCapsuleStreamParser, parsePartialJson, toPartialCapsule } from './streamingJsonService';
+
+const CAPSULE_JSON = JSON.stringify({
+    title: 'La photosynthèse',
+    summary: 'Les plantes convertissent la lumière en énergie chimique.\nElles rejettent du dioxygène.',
+    keyConcepts: [{ concept: 'Chlorophylle', explanation: 'Pigment qui capte la lumière « rouge » et bleue.' }],
+    examples: ['Une feuille au soleil'],
+    quiz: [
+        { question: 'Quel gaz est rejeté ?', options: ['O2', 'CO2'], correctAnswer: 'O2', explanation: 'Le dioxygène.' },
+        { question: 'Où a-t-elle lieu ?', options: ['Chloroplaste', 'Noyau'], correctAnswer: 'Chloroplaste', explanation: '' },
+    ],
+    flashcards: [{ front: 'Pigment vert', back: 'Chlorophylle' }],
+}, null, 2);
+
+describe('parsePartialJson', () => {
+    it('reads complete JSON like JSON.parse', () => {
+        expect(parsePartialJson(CAPSULE_JSON)).toEqual(JSON.parse(CAPSULE_JSON));
+        expect(parsePartialJson('[1, true, null, "a"]')).toEqual([1, true, null, 'a']);
+    });
+
+    it('ignores a code fence and text before the first object', () => {
+        expect(parsePartialJson('Voici la capsule :\n```json\n{"title": "Volcans"}\n```')).toEqual({ title: 'Volcans' });
+        expect(parsePartialJson('Aucun JSON ici')).toBeUndefined();
+    });
+
+    it('keeps a string cut in the middle', () => {
+        expect(parsePartialJson('{"title": "La photo')).toEqual({ title: 'La photo' });
+    });
+
+    it('waits for the rest of a cut escape sequence', () => {
+        expect(parsePartialJson('{"title": "Caf\\u00')).toEqual({ title: 'Caf' });
+        expect(parsePartialJson('{"title": "Caf\\u00e9"}')).toEqual({ title: 'Café' });
+        expect(parsePartialJson('{"title": "Ligne\\')).toEqual({ title: 'Ligne' });
+    });
+
+    it('drops a literal that may still be cut', () => {
+        expect(parsePartialJson('{"score": 12')).toEqual({});
+        expect(parsePartialJson('{"score": 12,')).toEqual({ score: 12 });
+        expect(parsePartialJson('{"done": tr')).toEqual({});
+    });
+
+    it('drops a key that is not complete yet', () => {
+        expect(parsePartialJson('{"title": "Volcans", "summ')).toEqual({ title: 'Volcans' });
+        expect(parsePartialJson('{"title": "Volcans", "summary"')).toEqual({ title: 'Volcans' });
+    });
+
+    it('drops an unfinished object inside a list', () => {
+        const partial = parsePartialJson('{"quiz": [{"question": "A ?", "options": ["x"]}, {"question": "B ?", "opt') as { quiz: unknown[] };
+        expect(partial.quiz).toEqual([{ question: 'A ?', options: ['x'] }]);
+    });
+
+    it('keeps the strings of an unfinished list', () => {
+        expect(parsePartialJson('{"examples": ["Une feuille", "Un cact')).toEqual({ examples: ['Une feuille', 'Un cact'] });
+    });
+
+    it('never throws on any prefix of a valid document', () => {
+        for (let i = 0; i <= CAPSULE_JSON.length; i++) {
+            expect(() => parsePartialJson(CAPSULE_JSON.slice(0, i))).not.toThrow();
+        }
+    });
+});
+
+describe('toPartialCapsule', () => {
+    it('keeps only the fields with the expected type', () => {
+        expect(toPartialCapsule({
+            title: 'Volcans',
+            summary: 42,
+            examples: ['Etna', 3],
+            quiz: [{ question: 'A ?' }, 'B ?', null],
+            flashcards: 'aucune',
+        })).toEqual({ title: 'Volcans', examples: ['Etna'], quiz: [{ question: 'A ?' }] });
+    });
+
+    it('returns an empty capsule for anything but an object', () => {
+        expect(toPartialCapsule(undefined)).toEqual({});
+        expect(toPartialCapsule([{ title: 'Volcans' }])).toEqual({});
+        expect(toPartialCapsule('Volcans')).toEqual({});
+    });
+});
+
+describe('createCapsuleStreamParser', () => {
+    it('reports the capsule as it grows and ends on the full capsule', () => {
+        const partials: PartialCapsule[] = [];
+        const parser = createCapsuleStreamParser(partial => partials.push(partial));
+        for (let i = 0; i < CAPSULE_JSON.length; i += 7) parser.push(CAPSULE_JSON.slice(i, i + 7));
+
+        expect(parser.text).toBe(CAPSULE_JSON);
+        expect(partials[partials.length - 1]).toEqual(toPartialCapsule(JSON.parse(CAPSULE_JSON)));
+        partials.forEach(partial => {
+            expect(partial.quiz?.length ?? 0).toBeLessThanOrEqual(2);
+            partial.quiz?.forEach(question => expect(question.options).toBeDefined());
+        });
+    });
+
+    it('only reports changes', () => {
+        const partials: PartialCapsule[] = [];
+        const parser = createCapsuleStreamParser(partial => partials.push(partial));
+        parser.push('{"title": "Volcans"');
+        parser.push('   ');
+        parser.push(', "summ');
+        expect(partials).toEqual([{ title: 'Volcans' }]);
+    });
+});
@@ -0,0 +1,193 @@
+
+import type { CognitiveCapsule } from '../types';
+import type { GeneratedCapsule } from './aiProvider';
+
+/**
+ * Lecture d'un JSON encore en cours de réception (génération en streaming).
+ * Le parseur tolère une fin de texte à n'importe quel endroit et renvoie ce qui est déjà lisible :
+ * une chaîne commencée est gardée telle quelle (le titre s'affiche au fil de l'eau),
+ * un objet non terminé dans une liste est écarté (une question sans ses options n'est pas montrée).
+ */
+
+export type PartialCapsule = Partial<GeneratedCapsule>;
+
+interface Parsed {
+    value: unknown;
+    complete: boolean;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+
+const parseFrom = (text: string): unknown => {
+    let pos = 0;
+    const atEnd = () => pos >= text.length;
+    const skipWhitespace = () => {
+        while (!atEnd() && /\s/.test(text[pos])) pos++;
+    };
+
+    const parseString = (): Parsed => {
+        let value = '';
+        pos++; // "
+        while (!atEnd()) {
+            const char = text[pos++];
+            if (char === '"') return { value, complete: true };
+            if (char !== '\\') {
+                value += char;
+                continue;
+            }
+            if (atEnd()) break;
+            const escaped = text[pos++];
+            if (escaped === 'u') {
+                const hex = text.slice(pos, pos + 4);
+                if (hex.length < 4) break; // Séquence coupée : on attend la suite
+                value += String.fromCharCode(parseInt(hex, 16));
+                pos += 4;
+            } else {
+                value += ESCAPES[escaped] ?? escaped;
+            }
+        }
+        return { value, complete: false };
+    };
+
+    // Nombre ou true/false/null ; un littéral qui touche la fin du texte peut être tronqué ("12" de "125") : ignoré
+    const parseLiteral = (): Parsed | null => {
+        const match = text.slice(pos).match(/^[-+\w.]+/);
+        if (!match) {
+            pos = text.length;
+            return null;
+        }
+        pos += match[0].length;
+        if (atEnd()) return null;
+        const token = match[0];
+        if (token === 'true' || token === 'false') return { value: token === 'true', complete: true };
+        if (token === 'null') return { value: null, complete: true };
+        const number = Number(token);
+        return Number.isNaN(number) ? null : { value: number, complete: true };
+    };
+
+    const parseObject = (): Parsed => {
+        const result: Record<string, unknown> = {};
+        pos++; // {
+        while (true) {
+            skipWhitespace();
+            if (atEnd()) return { value: result, complete: false };
+            if (text[pos] === '}') {
+                pos++;
+                return { value: result, complete: true };
+            }
+            if (text[pos] === ',') {
+                pos++;
+                continue;
+            }
+            if (text[pos] !== '"') return { value: result, complete: false };
+            const key = parseString();
+            skipWhitespace();
+            if (!key.complete || text[pos] !== ':') return { value: result, complete: false };
+            pos++; // :
+            const item = parseValue();
+            if (!item) return { value: result, complete: false };
+            result[key.value as string] = item.value;
+            if (!item.complete) return { value: result, complete: false };
+        }
+    };
+
+    const parseArray = (): Parsed => {
+        const result: unknown[] = [];
+        pos++; // [
+        while (true) {
+            skipWhitespace();
+            if (atEnd()) return { value: result, complete: false };
+            if (text[pos] === ']') {
+                pos++;
+                return { value: result, complete: true };
+            }
+            if (text[pos] === ',') {
+                pos++;
+                continue;
+            }
+            const item = parseValue();
+            if (!item) return { value: result, complete: false };
+            const isObject = typeof item.value === 'object' && item.value !== null && !Array.isArray(item.value);
+            if (item.complete || !isObject) result.push(item.value);
+            if (!item.complete) return { value: result, complete: false };
+        }
+    };
+
+    function parseValue(): Parsed | null {
+        skipWhitespace();
+        if (atEnd()) return null;
+        const char = text[pos];
+        if (char === '{') return parseObject();
+        if (char === '[') return parseArray();
+        if (char === '"') return parseString();
+        return parseLiteral();
+    }
+
+    return parseValue()?.value;
+};
+
+/**
+ * Valeur lisible d'un JSON éventuellement tronqué (blocs ```json et texte avant le premier objet ignorés).
+ */
+export const parsePartialJson = (text: string): unknown => {
+    const start = text.search(/[{[]/);
+    return start === -1 ? undefined : parseFrom(text.slice(start));
+};
+
+const asArray = <T>(value: unknown): T[] | undefined => (Array.isArray(value) ? value as T[] : undefined);
+
+export const toPartialCapsule = (value: unknown): PartialCapsule => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+    const raw = value as Record<string, unknown>;
+    const partial: PartialCapsule = {};
+    if (typeof raw.title === 'string') partial.title = raw.title;
+    if (typeof raw.summary === 'string') partial.summary = raw.summary;
+    const keyConcepts = asArray<GeneratedCapsule['keyConcepts'][number]>(raw.keyConcepts);
+    if (keyConcepts) partial.keyConcepts = keyConcepts.filter(kc => kc && typeof kc === 'object');
+    const examples = asArray<string>(raw.examples);
+    if (examples) partial.examples = examples.filter(example => typeof example === 'string');
+    const quiz = asArray<GeneratedCapsule['quiz'][number]>(raw.quiz);
+    if (quiz) partial.quiz = quiz.filter(q => q && typeof q === 'object');
+    const flashcards = asArray<GeneratedCapsule['flashcards'][number]>(raw.flashcards);
+    if (flashcards) partial.flashcards = flashcards.filter(card => card && typeof card === 'object');
+    return partial;
+};
+
+/**
+ * Capsule affichable pendant la réception (CapsuleView avec `isGenerating`) : les champs pas encore reçus sont vides.
+ */
+export const toDraftCapsule = (partial: PartialCapsule, now: number = Date.now()): CognitiveCapsule => ({
+    id: 'draft',
+    title: partial.title || '',
+    summary: partial.summary || '',
+    keyConcepts: partial.keyConcepts || [],
+    examples: partial.examples || [],
+    quiz: partial.quiz || [],
+    flashcards: partial.flashcards || [],
+    createdAt: now,
+    lastReviewed: null,
+    reviewStage: 0,
+});
+
+/**
+ * Accumule les morceaux de texte reçus et signale la capsule partielle chaque fois qu'elle change.
+ * `text` rend le texte reçu en entier, à analyser strictement une fois le flux terminé.
+ */
+export const createCapsuleStreamParser = (onPartial: (partial: PartialCapsule) => void) => {
+    let buffer = '';
+    let lastSnapshot = '';
+    return {
+        push(chunk: string) {
+            buffer += chunk;
+            const partial = toPartialCapsule(parsePartialJson(buffer));
+            const snapshot = JSON.stringify(partial);
+            if (snapshot !== lastSnapshot) {
+                lastSnapshot = snapshot;
+                onPartial(partial);
+            }
+        },
+        get text() {
+            return buffer;
+        },
+    };
+};
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import type { CognitiveCapsule, MemoryState, ReviewLog } from '../types';
+import type { TranslatableCapsule } from './aiProvider';
+import {
+    createTranslatedCapsule,
+    findTranslation,
+    getTranslationGroup,
+    isCompleteTranslation,
+    mirrorReviewState,
+    toBilingualFlashcards,
+    toTranslatableContent,
+} from './translationService';
+
+const NOW = Date.UTC(2026, 5, 15, 12);
+const ONE_DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const MEMORY: MemoryState = { stability: 12, difficulty: 4, lastReview: NOW - ONE_DAY_IN_MS, due: NOW + 11 * ONE_DAY_IN_MS, reps: 3, lapses: 0 };
+const HISTORY: ReviewLog[] = [{ date: NOW - ONE_DAY_IN_MS, type: 'flashcard', score: 100, rating: 3 }];
+
+const makeCapsule = (overrides: Partial<CognitiveCapsule> = {}): CognitiveCapsule => ({
+    id: 'soleil',
+    title: 'Le Soleil',
+    summary: 'Une étoile.',
+    keyConcepts: [{ concept: 'Fusion', explanation: "L'hydrogène devient de l'hélium." }],
+    examples: ['La lumière met 8 minutes à nous parvenir.'],
+    quiz: [{
+        id: 'q_age', question: 'Âge du Soleil ?', options: ['4,6 milliards d’années', '10 000 ans'],
+        correctAnswer: '4,6 milliards d’années', explanation: 'Datation des météorites.', memory: MEMORY, history: HISTORY,
+    }],
+    flashcards: [
+        { id: 'fc_type', front: 'Type spectral', back: 'G2V', memory: MEMORY, history: HISTORY },
+        { id: 'fc_cloze', front: 'Le Soleil est une {{c1::naine jaune}}.', back: '', cardType: 'cloze', clozeIndex: 1 },
+    ],
+    createdAt: NOW - 30 * ONE_DAY_IN_MS,
+    lastReviewed: NOW - ONE_DAY_IN_MS,
+    reviewStage: 2,
+    history: HISTORY,
+    memory: MEMORY,
+    language: 'fr',
+    ...overrides,
+});
+
+const TRANSLATED: TranslatableCapsule = {
+    title: 'The Sun',
+    summary: 'A star.',
+    keyConcepts: [{ concept: 'Fusion', explanation: 'Hydrogen turns into helium.' }],
+    examples: ['Light takes 8 minutes to reach us.'],
+    quiz: [{
+        id: 'q_age', question: 'Age of the Sun?', options: ['4.6 billion years', '10,000 years'],
+        correctAnswer: '4.6 billion years', explanation: 'Meteorite dating.',
+    }],
+    flashcards: [
+        { id: 'fc_type', front: 'Spectral type', back: 'G2V' },
+        { id: 'fc_cloze', front: 'The Sun is a {{c1::yellow dwarf}}.', back: '' },
+    ],
+};
+
+describe('toTranslatableContent', () => {
+    it('sends the texts with the ids of the questions and cards', () => {
+        const content = toTranslatableContent(makeCapsule());
+        expect(content.quiz.map(q => q.id)).toEqual(['q_age']);
+        expect(content.flashcards).toEqual([
+            { id: 'fc_type', front: 'Type spectral', back: 'G2V' },
+            { id: 'fc_cloze', front: 'Le Soleil est une {{c1::naine jaune}}.', back: '' },
+        ]);
+    });
+
+    it('gives positional ids to items stored without one', () => {
+        const content = toTranslatableContent(makeCapsule({ flashcards: [{ front: 'Recto', back: 'Verso' }] }));
+        expect(content.flashcards[0].id).toBe('soleil_fc_0');
+    });
+});
+
+describe('isCompleteTranslation', () => {
+    const capsule = makeCapsule();
+    const original = toTranslatableContent(capsule);
+
+    it('accepts a translation of every text', () => {
+        expect(isCompleteTranslation(capsule, original, TRANSLATED)).toBe(true);
+    });
+
+    it('rejects missing items, empty texts and changed ids', () => {
+        expect(isCompleteTranslation(capsule, original, null)).toBe(false);
+        expect(isCompleteTranslation(capsule, original, { ...TRANSLATED, summary: ' ' })).toBe(false);
+        expect(isCompleteTranslation(capsule, original, { ...TRANSLATED, examples: [] })).toBe(false);
+        expect(isCompleteTranslation(capsule, original, { ...TRANSLATED, quiz: [{ ...TRANSLATED.quiz[0], id: 'q_0' }] })).toBe(false);
+        expect(isCompleteTranslation(capsule, original, { ...TRANSLATED, quiz: [{ ...TRANSLATED.quiz[0], options: ['4.6 billion years'] }] })).toBe(false);
+    });
+
+    it('rejects a cloze card that lost its deletion', () => {
+        const flashcards = [TRANSLATED.flashcards[0], { id: 'fc_cloze', front: 'The Sun is a yellow dwarf.', back: '' }];
+        expect(isCompleteTranslation(capsule, original, { ...TRANSLATED, flashcards })).toBe(false);
+    });
+});
+
+describe('createTranslatedCapsule', () => {
+    it('links the copy to the original under a new id', () => {
+        const translation = createTranslatedCapsule(makeCapsule(), TRANSLATED, 'fr', 'en', NOW);
+        expect(translation).toMatchObject({
+            id: 'soleil_en',
+            title: 'The Sun',
+            language: 'en',
+            createdAt: NOW,
+            translationOf: { originalId: 'soleil', originalLanguage: 'fr' },
+        });
+    });
+
+    it('keeps the ids, memory and history of every item', () => {
+        const translation = createTranslatedCapsule(makeCapsule(), TRANSLATED, 'fr', 'en', NOW);
+        expect(translation.quiz[0]).toMatchObject({ id: 'q_age', question: 'Age of the Sun?', memory: MEMORY, history: HISTORY });
+        expect(translation.flashcards).toEqual([
+            { id: 'fc_type', front: 'Spectral type', back: 'G2V', memory: MEMORY, history: HISTORY },
+            { id: 'fc_cloze', front: 'The Sun is a {{c1::yellow dwarf}}.', back: '', cardType: 'cloze', clozeIndex: 1 },
+        ]);
+        expect(translation).toMatchObject({ memory: MEMORY, history: HISTORY, reviewStage: 2, lastReviewed: NOW - ONE_DAY_IN_MS });
+    });
+
+    it('maps positional ids to the items of the original', () => {
+        const capsule = makeCapsule({ flashcards: [{ front: 'Type spectral', back: 'G2V', memory: MEMORY }] });
+        const translation = createTranslatedCapsule(capsule, {
+            ...TRANSLATED, flashcards: [{ id: 'soleil_fc_0', front: 'Spectral type', back: 'G2V' }],
+        }, 'fr', 'en', NOW);
+        expect(translation.flashcards).toEqual([{ id: 'soleil_fc_0', front: 'Spectral type', back: 'G2V', memory: MEMORY }]);
+    });
+
+    it('does not copy the language-bound and sharing fields', () => {
+        const capsule = makeCapsule({
+            narrationScript: 'Bonjour', tutorChat: [{ role: 'user', content: 'Pourquoi ?' }], isShared: true, groupId: 'classe', groupName: 'Classe',
+        });
+        const translation = createTranslatedCapsule(capsule, TRANSLATED, 'fr', 'en', NOW);
+        for (const field of ['narrationScript', 'tutorChat', 'isShared', 'groupId', 'groupName'] as const) {
+            expect(translation).not.toHaveProperty(field);
+        }
+    });
+
+    it('keeps the correct answer by position when its translation is not an option', () => {
+        const quiz = [{ ...TRANSLATED.quiz[0], correctAnswer: '4.6 billion yrs' }];
+        const translation = createTranslatedCapsule(makeCapsule(), { ...TRANSLATED, quiz }, 'fr', 'en', NOW);
+        expect(translation.quiz[0].correctAnswer).toBe('4.6 billion years');
+    });
+
+    it('links a translation of a translation to the first original', () => {
+        const english = createTranslatedCapsule(makeCapsule(), TRANSLATED, 'fr', 'en', NOW);
+        const french = createTranslatedCapsule(english, toTranslatableContent(makeCapsule()), 'en', 'fr', NOW);
+        expect(french.id).toBe('soleil_fr');
+        expect(french.translationOf).toEqual({ originalId: 'soleil', originalLanguage: 'fr' });
+
+        const library = [makeCapsule(), english, makeCapsule({ id: 'lune' })];
+        expect(getTranslationGroup([...library, french], french).map(c => c.id)).toEqual(['soleil', 'soleil_en', 'soleil_fr']);
+        expect(findTranslation(library, english, 'fr')?.id).toBe('soleil');
+    });
+});
+
+describe('mirrorReviewState', () => {
+    it('copies the schedule and history of the items with the same id', () => {
+        const translation = createTranslatedCapsule(makeCapsule(), TRANSLATED, 'fr', 'en', NOW);
+        const laterMemory: MemoryState = { ...MEMORY, stability: 30, lastReview: NOW, due: NOW + 30 * ONE_DAY_IN_MS, reps: 4 };
+        const laterHistory: ReviewLog[] = [...HISTORY, { date: NOW, type: 'flashcard', score: 100, rating: 3 }];
+        const reviewed: CognitiveCapsule = {
+            ...translation,
+            lastReviewed: NOW,
+            reviewStage: 3,
+            flashcards: translation.flashcards!.map(card => card.id === 'fc_type' ? { ...card, memory: laterMemory, history: laterHistory } : card),
+        };
+
+        const original = mirrorReviewState(reviewed, makeCapsule());
+        expect(original).toMatchObject({ id: 'soleil', title: 'Le Soleil', lastReviewed: NOW, reviewStage: 3 });
+        expect(original.flashcards![0]).toMatchObject({ front: 'Type spectral', memory: laterMemory, history: laterHistory });
+        expect(original.quiz[0]).toMatchObject({ question: 'Âge du Soleil ?', memory: MEMORY, history: HISTORY });
+    });
+});
+
+describe('toBilingualFlashcards', () => {
+    it('pairs each card with the back of its translation and leaves out cloze cards', () => {
+        const capsule = makeCapsule({ flashcards: [...makeCapsule().flashcards!, { id: 'fc_orphan', front: 'Couronne', back: 'Corona' }] });
+        const translation = createTranslatedCapsule(makeCapsule(), {
+            ...TRANSLATED, flashcards: [{ id: 'fc_type', front: 'Spectral type', back: 'G2V star' }, TRANSLATED.flashcards[1]],
+        }, 'fr', 'en', NOW);
+
+        expect(toBilingualFlashcards(capsule.flashcards!, translation)).toEqual([
+            { id: 'fc_type', front: 'Type spectral', back: 'G2V star', memory: MEMORY, history: HISTORY },
+        ]);
+    });
+});
@@ -0,0 +1,163 @@
+
+import type { CognitiveCapsule, FlashcardContent, QuizQuestion, ReviewLog } from '../types';
+import type { Language } from '../i18n/translations';
+import type { TranslatableCapsule } from './aiProvider';
+import { getClozeIndices, isClozeCard } from './clozeService';
+import { getFlashcards, getQuizQuestions } from './srsService';
+
+/**
+ * Traduction d'une capsule : le modèle traduit les textes, la capsule obtenue est une copie liée à l'originale
+ * (`translationOf`). Questions et flashcards gardent leurs identifiants et leur historique de révision :
+ * un même id désigne le même élément dans les deux langues, et une révision faite dans l'une peut être reportée sur l'autre.
+ * Les capsules de la catégorie premium « langues » ont en plus un mode flashcards bilingue (recto dans la langue
+ * de la capsule, verso dans la langue de sa traduction).
+ */
+
+// Textes envoyés au modèle ; les ids sont ceux de srsService, rendus explicites pour survivre au changement d'id de capsule
+export const toTranslatableContent = (capsule: CognitiveCapsule): TranslatableCapsule => ({
+    title: capsule.title,
+    summary: capsule.summary,
+    keyConcepts: capsule.keyConcepts.map(({ concept, explanation }) => ({ concept, explanation })),
+    examples: capsule.examples,
+    quiz: getQuizQuestions(capsule).map(({ id, question, options, correctAnswer, explanation, rubric }) => ({
+        id: id!, question, options, correctAnswer, explanation, ...(rubric ? { rubric } : {}),
+    })),
+    flashcards: getFlashcards(capsule).map(({ id, front, back }) => ({ id: id!, front, back })),
+});
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Vérifie que la traduction reprend tout le contenu : mêmes listes, mêmes ids, aucun texte vide,
+ * et des cartes à trous qui gardent le trou qu'elles masquent.
+ */
+export const isCompleteTranslation = (capsule: CognitiveCapsule, original: TranslatableCapsule, raw: unknown): raw is TranslatableCapsule => {
+    const translated = raw as Partial<TranslatableCapsule> | null;
+    if (!translated || !isText(translated.title) || !isText(translated.summary)) return false;
+    const { keyConcepts, examples, quiz, flashcards } = translated;
+    if (!Array.isArray(keyConcepts) || keyConcepts.length !== original.keyConcepts.length) return false;
+    if (!keyConcepts.every(kc => isText(kc?.concept) && isText(kc?.explanation))) return false;
+    if (!Array.isArray(examples) || examples.length !== original.examples.length || !examples.every(isText)) return false;
+    if (!Array.isArray(quiz) || !Array.isArray(flashcards)) return false;
+
+    const questionsOk = original.quiz.every(question => {
+        const match = quiz.find(q => q?.id === question.id);
+        return !!match && isText(match.question) && isText(match.correctAnswer)
+            && Array.isArray(match.options) && match.options.length === question.options.length && match.options.every(isText);
+    });
+    const cards = getFlashcards(capsule);
+    const cardsOk = original.flashcards.every((card, i) => {
+        const match = flashcards.find(c => c?.id === card.id);
+        if (!match || !isText(match.front)) return false;
+        if (!isClozeCard(cards[i])) return isText(match.back);
+        return getClozeIndices(match.front).includes(cards[i].clozeIndex ?? 1);
+    });
+    return questionsOk && cardsOk;
+};
+
+// La bonne réponse traduite doit rester l'une des options : sinon on prend l'option à la même place que dans l'original
+const translateQuestion = (question: QuizQuestion, translated: TranslatableCapsule['quiz'][number]): QuizQuestion => {
+    const correctIndex = question.options.indexOf(question.correctAnswer);
+    const correctAnswer = question.options.length === 0 || translated.options.includes(translated.correctAnswer)
+        ? translated.correctAnswer
+        : translated.options[correctIndex] ?? translated.correctAnswer;
+    return {
+        ...question,
+        question: translated.question,
+        options: translated.options,
+        correctAnswer,
+        explanation: translated.explanation,
+        rubric: question.rubric && translated.rubric?.length ? translated.rubric : question.rubric,
+    };
+};
+
+/**
+ * Copie liée de la capsule, dans la langue cible. Le planning et l'historique sont repris tels quels ;
+ * ce qui dépend de la langue d'origine (script audio, diagrammes, conversation avec le tuteur) ou du partage n'est pas copié.
+ * Le texte d'origine et les citations restent : ils renvoient au document source.
+ */
+export const createTranslatedCapsule = (
+    capsule: CognitiveCapsule,
+    translated: TranslatableCapsule,
+    from: Language,
+    to: Language,
+    now: number = Date.now()
+): CognitiveCapsule => {
+    const {
+        narrationScript: _narrationScript, visualizations: _visualizations, memoryAidDescription: _memoryAidDescription,
+        tutorChat: _tutorChat, validationIssues: _validationIssues, series: _series,
+        isShared: _isShared, groupId: _groupId, groupName: _groupName, comments: _comments, sharedLink: _sharedLink,
+        lastModifiedBy: _lastModifiedBy, collaborativeTasks: _collaborativeTasks, groupProgress: _groupProgress, activeChallenge: _activeChallenge,
+        ...rest
+    } = capsule;
+    // Traduire une traduction renvoie à la même capsule d'origine : toutes les versions restent liées entre elles
+    const original = capsule.translationOf || { originalId: capsule.id, originalLanguage: from };
+    return {
+        ...rest,
+        id: `${original.originalId}_${to}`,
+        title: translated.title,
+        summary: translated.summary,
+        keyConcepts: capsule.keyConcepts.map((kc, i) => ({ ...kc, ...translated.keyConcepts[i] })),
+        examples: translated.examples,
+        quiz: getQuizQuestions(capsule).map(question => translateQuestion(question, translated.quiz.find(q => q.id === question.id)!)),
+        flashcards: capsule.flashcards ? getFlashcards(capsule).map(card => {
+            const match = translated.flashcards.find(c => c.id === card.id)!;
+            return { ...card, front: match.front, back: match.back || '' };
+        }) : undefined,
+        createdAt: now,
+        language: to,
+        translationOf: original,
+    };
+};
+
+// Capsule d'origine et toutes ses traductions (dont la capsule elle-même)
+export const getTranslationGroup = (capsules: CognitiveCapsule[], capsule: CognitiveCapsule): CognitiveCapsule[] => {
+    const originalId = capsule.translationOf?.originalId || capsule.id;
+    return capsules.filter(c => c.id === originalId || c.translationOf?.originalId === originalId);
+};
+
+// Une capsule générée avant l'ajout de `language` tient sa langue de ses traductions
+const getVersionLanguage = (group: CognitiveCapsule[], capsule: CognitiveCapsule): Language | undefined =>
+    capsule.language || group.find(c => c.translationOf?.originalId === capsule.id)?.translationOf?.originalLanguage;
+
+export const findTranslation = (capsules: CognitiveCapsule[], capsule: CognitiveCapsule, language: Language): CognitiveCapsule | undefined => {
+    const group = getTranslationGroup(capsules, capsule);
+    return group.find(c => c.id !== capsule.id && getVersionLanguage(group, c) === language);
+};
+
+/**
+ * Reporte le suivi des révisions d'une capsule sur une version liée : planning de la capsule,
+ * puis état et historique de chaque question et flashcard ayant le même id.
+ */
+export const mirrorReviewState = (from: CognitiveCapsule, to: CognitiveCapsule): CognitiveCapsule => {
+    const reviewState = <T extends { id?: string; memory?: CognitiveCapsule['memory']; history?: ReviewLog[] }>(items: T[], source: T[]): T[] =>
+        items.map(item => {
+            const match = source.find(s => s.id === item.id);
+            return match ? { ...item, memory: match.memory, history: match.history } : item;
+        });
+    return {
+        ...to,
+        lastReviewed: from.lastReviewed,
+        reviewStage: from.reviewStage,
+        history: from.history,
+        memory: from.memory,
+        masteryLevel: from.masteryLevel,
+        quiz: reviewState(getQuizQuestions(to), getQuizQuestions(from)),
+        flashcards: to.flashcards ? reviewState(getFlashcards(to), getFlashcards(from)) : undefined,
+    };
+};
+
+export const isBilingualCapsule = (capsule: Pick<CognitiveCapsule, 'premiumCategory'>): boolean => capsule.premiumCategory === 'langues';
+
+/**
+ * Cartes bilingues : recto de la carte (langue de la capsule), verso de la même carte dans la traduction.
+ * Les cartes gardent leur id et leur planning, les révisions comptent donc pour la capsule d'origine.
+ * Les cartes à trous, dont le recto contient déjà la réponse, et les cartes sans équivalent traduit sont écartées.
+ */
+export const toBilingualFlashcards = (cards: FlashcardContent[], translation: CognitiveCapsule): FlashcardContent[] => {
+    const translatedCards = getFlashcards(translation);
+    return cards.flatMap(card => {
+        const match = translatedCards.find(c => c.id === card.id);
+        return match && !isClozeCard(card) && !isClozeCard(match) ? [{ ...card, back: match.back }] : [];
+    });
+};
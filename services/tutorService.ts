@@ -0,0 +1,47 @@
+
+import type { ChatMessage, FlashcardContent, KeyConcept } from '../types';
+
+/**
+ * Tuteur d'une capsule : l'élève pose ses questions, le modèle ne répond qu'à partir de la capsule
+ * (résumé, concepts clés, exemples, texte d'origine) et indique les concepts sur lesquels il s'appuie.
+ * La conversation est enregistrée avec la capsule ; chaque réponse peut devenir une flashcard.
+ */
+
+export const MAX_TUTOR_QUESTION_CHARS = 1000;
+export const MAX_TUTOR_HISTORY = 8; // Derniers messages repris dans le prompt
+export const MAX_TUTOR_SOURCE_CHARS = 12000; // Au-delà, le début du texte d'origine suffit à ancrer les réponses
+export const MAX_TUTOR_MESSAGES = 100; // Messages conservés avec la capsule
+
+/**
+ * Remet en forme la réponse du modèle : texte nettoyé, concepts cités limités à ceux de la capsule
+ * (comparaison sans tenir compte de la casse) et écrits comme dans la capsule. Null si la réponse est vide.
+ */
+export const normalizeTutorAnswer = (raw: unknown, keyConcepts: KeyConcept[]): ChatMessage | null => {
+    const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const content = typeof value.answer === 'string' ? value.answer.trim() : '';
+    if (!content) return null;
+    const byName = new Map(keyConcepts.map(kc => [kc.concept.trim().toLowerCase(), kc.concept]));
+    const cited = (Array.isArray(value.citedConcepts) ? value.citedConcepts : [])
+        .filter((name): name is string => typeof name === 'string')
+        .map(name => byName.get(name.trim().toLowerCase()))
+        .filter((name): name is string => !!name);
+    return { role: 'model', content, citedConcepts: Array.from(new Set(cited)) };
+};
+
+/**
+ * Ajoute des messages à la conversation en ne gardant que les plus récents.
+ */
+export const appendChatMessages = (messages: ChatMessage[], ...added: ChatMessage[]): ChatMessage[] =>
+    [...messages, ...added].slice(-MAX_TUTOR_MESSAGES);
+
+/**
+ * Flashcard tirée d'une réponse du tuteur : la question de l'élève au recto, la réponse au verso.
+ * Null si le message n'est pas une réponse ou si la question qui la précède a été effacée.
+ */
+export const createFlashcardFromAnswer = (messages: ChatMessage[], index: number): FlashcardContent | null => {
+    const answer = messages[index];
+    if (!answer || answer.role !== 'model') return null;
+    const question = messages.slice(0, index).reverse().find(message => message.role === 'user');
+    if (!question) return null;
+    return { front: question.content, back: answer.content };
+};
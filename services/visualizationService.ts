@@ -0,0 +1,82 @@
+
+import type { CognitiveCapsule, MindMapNode, TimelineEvent, VisualizationData } from '../types';
+
+/**
+ * Diagrammes d'une capsule (VisualizationViewer) : carte mentale tirée des concepts clés,
+ * frise chronologique pour un contenu historique.
+ * Ce que renvoie le modèle est contrôlé ici avant d'être affiché : forme, profondeur, nombre d'éléments,
+ * identifiants uniques. Une carte mentale invalide est remplacée par celle construite directement
+ * à partir des concepts ; une frise invalide est refusée.
+ */
+
+export type VisualizationType = VisualizationData['type'];
+
+export const MAX_MINDMAP_DEPTH = 2; // Racine, branches, sous-branches : ce que la carte radiale sait afficher
+export const MAX_MINDMAP_BRANCHES = 6;
+export const MAX_MINDMAP_LEAVES = 4;
+export const MIN_TIMELINE_EVENTS = 2;
+export const MAX_TIMELINE_EVENTS = 12;
+const MAX_LABEL_CHARS = 60;
+
+// Années (1000-2099), siècles ("XVIIe siècle", "18th century") ou dates av. J.-C.
+const DATE_PATTERN = /\b(1\d{3}|20\d{2})\b|\b[IVXL]+e siècle\b|\b\d{1,2}(st|nd|rd|th) century\b|\b\d+ (av\. J\.-C\.|BC|BCE)\b/gi;
+const MIN_DATES_FOR_TIMELINE = 3;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const shorten = (label: string) => (label.length > MAX_LABEL_CHARS ? `${label.slice(0, MAX_LABEL_CHARS - 1)}…` : label);
+
+/**
+ * Un contenu qui cite plusieurs dates distinctes se prête à une frise chronologique.
+ */
+export const isTimelineCandidate = (capsule: Pick<CognitiveCapsule, 'summary' | 'keyConcepts' | 'examples'>): boolean => {
+    const text = [capsule.summary, ...capsule.keyConcepts.map(kc => `${kc.concept} ${kc.explanation}`), ...capsule.examples].join(' ');
+    const dates = new Set((text.match(DATE_PATTERN) || []).map(date => date.toLowerCase()));
+    return dates.size >= MIN_DATES_FOR_TIMELINE;
+};
+
+/**
+ * Carte mentale valide (libellés non vides, profondeur et largeur bornées, identifiants uniques), ou null.
+ */
+export const validateMindMap = (raw: unknown): MindMapNode | null => {
+    const toNode = (value: unknown, id: string, depth: number): MindMapNode | null => {
+        if (!value || typeof value !== 'object') return null;
+        const node = value as Record<string, unknown>;
+        const label = str(node.label);
+        if (!label) return null;
+        const result: MindMapNode = { id, label: shorten(label) };
+        if (depth < MAX_MINDMAP_DEPTH && Array.isArray(node.children)) {
+            const limit = depth === 0 ? MAX_MINDMAP_BRANCHES : MAX_MINDMAP_LEAVES;
+            const children = node.children
+                .map((child, i) => toNode(child, `${id}-${i}`, depth + 1))
+                .filter((child): child is MindMapNode => child !== null)
+                .slice(0, limit);
+            if (children.length > 0) result.children = children;
+        }
+        return result;
+    };
+    const root = toNode(raw, 'root', 0);
+    return root?.children?.length ? root : null;
+};
+
+/**
+ * Frise valide : événements datés et titrés, dans l'ordre reçu, avec des identifiants uniques ; null s'il en reste trop peu.
+ */
+export const validateTimeline = (raw: unknown): TimelineEvent[] | null => {
+    const events = (Array.isArray(raw) ? raw : [])
+        .filter(event => event && typeof event === 'object')
+        .map((event: Record<string, unknown>) => ({ date: str(event.date), title: str(event.title), description: str(event.description) }))
+        .filter(event => event.date && event.title)
+        .slice(0, MAX_TIMELINE_EVENTS)
+        .map((event, i) => ({ id: `event-${i}`, ...event, title: shorten(event.title) }));
+    return events.length >= MIN_TIMELINE_EVENTS ? events : null;
+};
+
+/**
+ * Carte mentale sans appel au modèle : le titre au centre, un concept clé par branche.
+ */
+export const buildMindMapFromConcepts = (capsule: Pick<CognitiveCapsule, 'title' | 'keyConcepts'>): MindMapNode => ({
+    id: 'root',
+    label: shorten(capsule.title),
+    children: capsule.keyConcepts.slice(0, MAX_MINDMAP_BRANCHES).map((kc, i) => ({ id: `root-${i}`, label: shorten(kc.concept) })),
+});
@@ -1,25 +1,77 @@
 
+import type { Language } from './i18n/translations';
+
+// 'open' : réponse rédigée par l'élève, corrigée par l'IA selon la grille (voir openQuestionService)
+export type QuizQuestionType = 'multiple_choice' | 'open';
+
 export interface QuizQuestion {
+  id?: string;
+  questionType?: QuizQuestionType; // 'multiple_choice' par défaut
   question: string;
-  options: string[];
-  correctAnswer: string;
+  options: string[]; // Vide pour une question ouverte
+  correctAnswer: string; // Réponse de référence pour une question ouverte
+  rubric?: string[]; // Points attendus dans une réponse ouverte
   explanation: string;
+  source?: SourceSpan;
+  // Planification individuelle (voir srsService)
+  memory?: MemoryState;
+  history?: ReviewLog[];
+}
+
+// Passage du texte d'origine (capsule.sourceText) sur lequel s'appuie un élément généré
+export interface SourceSpan {
+  quote: string; // Citation renvoyée par le modèle
+  start?: number; // Position du passage dans le texte d'origine ; absente si la citation n'y a pas été retrouvée
+  end?: number;
 }
 
 export interface KeyConcept {
   concept: string;
   explanation:string;
+  source?: SourceSpan;
 }
 
+// 'cloze' : texte à trous, une carte par trou (voir clozeService)
+export type FlashcardType = 'basic' | 'cloze';
+
 export interface FlashcardContent {
-  front: string;
-  back: string;
+  id?: string;
+  front: string; // Carte à trous : texte complet avec {{c1::réponse}} ou {{c1::réponse::indice}}
+  back: string; // Carte à trous : complément facultatif affiché avec la réponse
+  cardType?: FlashcardType; // 'basic' par défaut
+  clozeIndex?: number; // Numéro du trou masqué par cette carte (les autres restent visibles)
+  source?: SourceSpan;
+  // Planification individuelle (voir srsService)
+  memory?: MemoryState;
+  history?: ReviewLog[];
 }
 
+// Correction d'une réponse ouverte
+export interface OpenAnswerGrade {
+  score: number; // 0 to 100
+  missingPoints: string[]; // Points de la grille absents de la réponse
+  feedback: string;
+}
+
+// 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+export type ReviewRating = 1 | 2 | 3 | 4;
+
 export interface ReviewLog {
   date: number;
-  type: 'quiz' | 'flashcard' | 'active-learning' | 'manual';
+  type: 'quiz' | 'flashcard' | 'active-learning' | 'manual' | 'coaching';
   score: number; // 0 to 100
+  rating?: ReviewRating;
+  coachingMode?: CoachingMode; // Séance de coaching (type 'coaching') : oral, examen ou résolution guidée
+}
+
+// État mémoire (modèle stabilité / difficulté) utilisé par srsService
+export interface MemoryState {
+  stability: number; // days until recall probability drops to 90%
+  difficulty: number; // 1 (easy) to 10 (hard)
+  due: number; // timestamp of the next scheduled review
+  lastReview: number; // timestamp
+  reps: number;
+  lapses: number;
 }
 
 export interface Comment {
@@ -179,6 +231,30 @@ export interface PremiumPack {
 
 export type SourceType = 'text' | 'pdf' | 'web' | 'image' | 'presentation' | 'ocr' | 'speech' | 'unknown';
 
+// Problème détecté dans le contenu généré et non corrigé (voir capsuleValidationService)
+export type ValidationIssueCode = 'missing_field' | 'too_few_options' | 'answer_not_in_options' | 'empty_flashcard' | 'invalid_cloze' | 'wrong_language' | 'empty_list';
+
+export interface ValidationIssue {
+  path: string; // ex: 'title', 'quiz[2].correctAnswer'
+  code: ValidationIssueCode;
+  removed?: boolean; // L'élément fautif a été retiré de la capsule
+}
+
+// Capsule traduite : copie liée à sa capsule d'origine, dont elle reprend les identifiants d'éléments
+// (un même id de question ou de flashcard désigne le même élément dans les deux langues)
+export interface CapsuleTranslationLink {
+  originalId: string;
+  originalLanguage: Language;
+}
+
+// Capsule faisant partie d'une série générée à partir d'un long document
+export interface CapsuleSeriesLink {
+  id: string;
+  title: string;
+  index: number; // Position dans la série (à partir de 0)
+  total: number;
+}
+
 export interface CognitiveCapsule {
   id: string;
   title: string;
@@ -196,10 +272,23 @@ export interface CognitiveCapsule {
   memoryAidImage?: string;
   memoryAidDescription?: string;
   visualizations?: VisualizationData[]; // Stockage des diagrammes interactifs
+  narrationScript?: string; // Texte à écouter, généré pour les profils auditifs
+  generatedFor?: GenerationProfile;
+  sourceText?: string; // Texte d'origine (cours collé ou importé), base des réponses du tuteur
+  tutorChat?: ChatMessage[]; // Conversation avec le tuteur de la capsule
 
   history?: ReviewLog[];
+  memory?: MemoryState;
   masteryLevel?: number;
+  // Mise en pause des révisions
+  suspended?: boolean; // Retirée des révisions jusqu'à réactivation (ex: capsule « sangsue »)
+  buriedUntil?: number; // Reportée au lendemain
+  snoozedUntil?: number; // Reportée jusqu'à une date choisie
   sourceType?: SourceType;
+  series?: CapsuleSeriesLink;
+  validationIssues?: ValidationIssue[];
+  language?: Language; // Langue du contenu, fixée à la génération ou à la traduction
+  translationOf?: CapsuleTranslationLink;
   
   // Collaborative fields
   isShared?: boolean;
@@ -217,19 +306,36 @@ export interface CognitiveCapsule {
   // Store Origin
   isPremiumContent?: boolean;
   originalPackId?: string;
+  premiumCategory?: PremiumCategory; // Catégorie du pack d'origine ('langues' : mode flashcards bilingue)
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
   image?: string;
+  citedConcepts?: string[]; // Réponse du tuteur : concepts clés de la capsule sur lesquels elle s'appuie
+  createdAt?: number;
 }
 
 export type UserLevel = 'beginner' | 'intermediate' | 'advanced';
 export type LearningStyle = 'visual' | 'auditory' | 'kinesthetic' | 'textual';
+
+// Profil pour lequel une capsule est générée (prompt, diagrammes, script audio)
+export interface GenerationProfile {
+  level: UserLevel;
+  learningStyle: LearningStyle;
+}
 export type CoachingMode = 'standard' | 'oral' | 'exam' | 'solver';
 export type UserRole = 'student' | 'teacher';
 
+// Paramètres du modèle mémoire ajustés sur l'historique de l'utilisateur (voir optimizerService)
+export interface MemoryModelParameters {
+  weights: number[];
+  reviewCount: number; // Nombre de révisions utilisées pour l'ajustement
+  logLoss: number; // Erreur de prédiction obtenue (plus bas = meilleur)
+  optimizedAt: number;
+}
+
 export interface UserProfile {
   name: string;
   email?: string;
@@ -240,6 +346,10 @@ export interface UserProfile {
   isPremium?: boolean; // Statut Premium
   unlockedPackIds?: string[]; // IDs des packs achetés
   gamification?: GamificationStats; // Stats de jeu
+  memoryParameters?: MemoryModelParameters; // Paramètres personnels de répétition espacée
+  desiredRetention?: number; // Probabilité de rappel visée à chaque révision (ex: 0.9)
+  timeZone?: string; // Fuseau IANA utilisé pour découper les journées d'étude
+  dayRolloverHour?: number; // Heure à laquelle commence une nouvelle journée (ex: 4)
 }
 
 export interface AppData {
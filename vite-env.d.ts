@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_AI_PROVIDER?: 'gemini' | 'local' | 'mock';
+  readonly VITE_GOOGLE_GENAI_API_KEY?: string;
+  readonly VITE_LOCAL_AI_URL?: string;
+  readonly VITE_LOCAL_AI_MODEL?: string;
+  readonly VITE_LOCAL_AI_IMAGE_MODEL?: string;
+  readonly VITE_LOCAL_AI_TTS_MODEL?: string;
+  readonly VITE_LOCAL_AI_API_KEY?: string;
+}